@@ -0,0 +1,12 @@
+import { defineConfig } from '@playwright/test';
+
+export default defineConfig({
+  testDir: './tests',
+  reporter: 'list',
+  use: {
+    headless: true
+  },
+  projects: [
+    { name: 'chromium', use: { browserName: 'chromium' } }
+  ]
+});
@@ -0,0 +1,351 @@
+#!/usr/bin/env node
+/**
+ * Command-line entry point for the scraper application
+ */
+import { parseCliArgs, readPasswordFromStdin, USAGE } from './utils/cli';
+import {
+  AmazonOrderScraper,
+  logger,
+  configureLogger,
+  initBrowser,
+  clearSession,
+  getOrderKey,
+  loadSyncState,
+  saveSyncState,
+  readExistingOrders,
+  mergeOrders,
+  writeFileAtomically,
+  resolveExporter,
+  selectMarketplace,
+  getMarketplace,
+  loadConfigOverrides,
+  applyConfigOverrides,
+  runLiveHealthCheck,
+  runSnapshotHealthCheck,
+  formatHealthReport,
+  findSelectorDrift,
+  openOrderDatabase,
+  loadOrders,
+  loadOrderKeys,
+  startScrapeRun,
+  finishScrapeRun,
+  upsertOrders,
+  filterOrdersByDate,
+  filterOrdersByPurchaseType,
+  buildSpendingReport,
+  formatSpendingReport,
+  renderSpendingReportHtml,
+  ScrapeJobManager,
+  createScraperServer,
+  getExitCode,
+  ScraperError,
+  SERVER_DEFAULTS,
+  EXIT_CODES,
+  OrderDatabase,
+  CliOptions
+} from './utils/scraper';
+
+/**
+ * Check which selectors still match the login, MFA and order pages and write a drift report
+ * @param options Parsed CLI options
+ * @returns Boolean indicating that no drift was found
+ */
+async function runDoctor(options: CliOptions): Promise<boolean> {
+  const fs = await import('fs');
+  const { browser, page } = await initBrowser({
+    // Snapshots never touch Amazon, so there is no session to restore
+    storageStatePath: options.snapshotDir ? undefined : options.sessionPath,
+    headless: options.headless
+  });
+  
+  try {
+    const report = options.snapshotDir
+      ? await runSnapshotHealthCheck(page, options.snapshotDir)
+      : await runLiveHealthCheck(page);
+    
+    console.log(formatHealthReport(report));
+    fs.writeFileSync(options.reportPath, JSON.stringify(report, null, 2));
+    logger.info(`Selector health report saved to ${options.reportPath}`);
+    
+    return findSelectorDrift(report).length === 0;
+  } finally {
+    await browser.close();
+  }
+}
+
+/**
+ * Summarise spending from the orders of earlier runs, without opening a browser
+ * @param options Parsed CLI options
+ * @throws ScraperError if there are no orders to report on
+ */
+async function runReport(options: CliOptions): Promise<void> {
+  const fs = await import('fs');
+  let orders;
+  if (options.dbPath) {
+    const db = await openOrderDatabase(options.dbPath);
+    try {
+      orders = loadOrders(db);
+    } finally {
+      db.close();
+    }
+  } else {
+    const exporter = resolveExporter(options.format, options.output);
+    if (!exporter.parse) {
+      throw new ScraperError(`report needs orders it can read back (json or ndjson output, or --db), not ${exporter.format}`);
+    }
+    orders = readExistingOrders(options.output, exporter);
+  }
+  
+  const source = options.dbPath || options.output;
+  orders = filterOrdersByPurchaseType(
+    filterOrdersByDate(orders, options.scrape.since, options.scrape.until),
+    options.scrape.purchaseTypes
+  );
+  if (orders.length === 0) {
+    throw new ScraperError(`No orders to report on in ${source}`);
+  }
+  logger.info(`Reporting on ${orders.length} order(s) from ${source}`);
+  
+  const report = buildSpendingReport(orders);
+  console.log(formatSpendingReport(report));
+  fs.writeFileSync(options.reportPath, renderSpendingReportHtml(report));
+  logger.info(`Spending report saved to ${options.reportPath}`);
+}
+
+/**
+ * Serve the HTTP API until the process is stopped. Jobs share the session,
+ * browser settings and any credentials given through flags or environment
+ * variables; what is missing is asked for through the API.
+ * @param options Parsed CLI options
+ */
+async function runServe(options: CliOptions): Promise<void> {
+  if (options.passwordStdin) {
+    options.credentials.password = await readPasswordFromStdin();
+  }
+  
+  const jobs = new ScrapeJobManager({
+    scraper: {
+      credentials: options.credentials,
+      totpSecret: options.totpSecret,
+      headless: options.headless,
+      sessionPath: options.sessionPath,
+      diagnosticsDir: options.diagnosticsDir,
+      record: options.record,
+      replayHarPath: options.replayHarPath
+    }
+  });
+  // Jobs carry credentials, so the API always requires a token, generating one for this run if none is set
+  let token = options.server.token;
+  if (!token) {
+    const crypto = await import('crypto');
+    token = crypto.randomBytes(SERVER_DEFAULTS.TOKEN_BYTES).toString('hex');
+    console.log(`API token for this run (set AMAZON_SCRAPER_TOKEN to choose one): ${token}`);
+  }
+  const server = createScraperServer(jobs, { ...options.server, token });
+  
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.server.port, options.server.host, resolve);
+  });
+  logger.info(`Scraper API listening on http://${options.server.host}:${options.server.port}`);
+  
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      logger.info('Stopping the scraper API');
+      server.close(() => process.exit(EXIT_CODES.SUCCESS));
+      server.closeAllConnections();
+    });
+  }
+}
+
+async function main() {
+  let cliOptions;
+  try {
+    cliOptions = parseCliArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(USAGE);
+    process.exit(EXIT_CODES.USAGE);
+  }
+  
+  if (cliOptions.help) {
+    console.log(USAGE);
+    return;
+  }
+  
+  configureLogger({ level: cliOptions.logLevel, json: cliOptions.logJson });
+  
+  // Point URLs, selectors and parsing at the requested storefront before anything else
+  selectMarketplace(cliOptions.marketplace);
+  
+  // Hotfixed selectors and timeouts win over the built-in and marketplace defaults
+  if (cliOptions.configPath) {
+    try {
+      const applied = applyConfigOverrides(loadConfigOverrides(cliOptions.configPath));
+      logger.info(`Loaded ${applied.length} config overrides from ${cliOptions.configPath}`);
+    } catch (error) {
+      logger.error((error as Error).message);
+      process.exit(EXIT_CODES.USAGE);
+    }
+  }
+  
+  if (cliOptions.command === 'logout') {
+    clearSession(cliOptions.sessionPath);
+    return;
+  }
+  
+  if (cliOptions.command === 'doctor') {
+    try {
+      if (!await runDoctor(cliOptions)) {
+        process.exit(EXIT_CODES.SELECTOR_DRIFT);
+      }
+    } catch (error) {
+      logger.error('Selector health check failed:', error);
+      process.exit(getExitCode(error));
+    }
+    return;
+  }
+  
+  if (cliOptions.command === 'report') {
+    try {
+      await runReport(cliOptions);
+    } catch (error) {
+      logger.error('Spending report failed:', error);
+      process.exit(getExitCode(error));
+    }
+    return;
+  }
+  
+  if (cliOptions.command === 'serve') {
+    try {
+      await runServe(cliOptions);
+    } catch (error) {
+      logger.error('Could not start the scraper API:', error);
+      process.exit(getExitCode(error));
+    }
+    return;
+  }
+  
+  // Incremental runs merge into the existing output, so its format must be readable
+  const exporter = resolveExporter(cliOptions.format, cliOptions.output);
+  if (cliOptions.incremental && !exporter.parse) {
+    logger.error(`--incremental needs an output format that can be read back (json or ndjson), not ${exporter.format}`);
+    process.exit(EXIT_CODES.USAGE);
+  }
+  
+  logger.info(`Amazon Order Scraper initialized for ${getMarketplace().domain}`);
+  
+  let db: OrderDatabase | null = null;
+  let runId: number | null = null;
+  let scraper: AmazonOrderScraper | null = null;
+  
+  try {
+    // Open the database before logging in so a missing SQLite driver fails fast
+    if (cliOptions.dbPath) {
+      db = await openOrderDatabase(cliOptions.dbPath);
+    }
+    
+    if (cliOptions.passwordStdin) {
+      cliOptions.credentials.password = await readPasswordFromStdin();
+    }
+    
+    // In incremental mode, skip orders already saved by previous runs. Read
+    // them before logging in, so an unreadable output file fails fast.
+    const fs = await import('fs');
+    const existingOrders = cliOptions.incremental ? readExistingOrders(cliOptions.output, exporter) : [];
+    if (cliOptions.incremental) {
+      const syncState = loadSyncState(cliOptions.statePath);
+      // Without the output file, the orders behind the saved keys are gone, so fetch them again
+      const outputExists = fs.existsSync(cliOptions.output);
+      if (!outputExists && syncState.knownOrderKeys.length > 0) {
+        logger.warn(`${cliOptions.output} does not exist, ignoring the ${syncState.knownOrderKeys.length} order(s) in ${cliOptions.statePath}`);
+      }
+      cliOptions.scrape.knownOrderKeys = new Set([
+        ...(outputExists ? syncState.knownOrderKeys : []),
+        ...existingOrders.map(getOrderKey),
+        ...(db ? loadOrderKeys(db) : [])
+      ]);
+      logger.info(`Incremental sync: ${cliOptions.scrape.knownOrderKeys.size} known order(s), last synced ${syncState.lastSyncedAt || 'never'}`);
+    }
+    
+    // Handle login process, prompting on the terminal for anything not supplied
+    scraper = new AmazonOrderScraper({
+      credentials: cliOptions.credentials,
+      otpCode: cliOptions.otpCode,
+      totpSecret: cliOptions.totpSecret,
+      headless: cliOptions.headless,
+      sessionPath: cliOptions.sessionPath,
+      diagnosticsDir: cliOptions.diagnosticsDir,
+      record: cliOptions.record,
+      replayHarPath: cliOptions.replayHarPath
+    });
+    await scraper.login();
+    
+    logger.info('Login successful. Scraping orders...');
+    
+    if (db) {
+      runId = startScrapeRun(db, { fromYear: cliOptions.scrape.fromYear, toYear: cliOptions.scrape.toYear });
+    }
+    
+    // Scrape orders
+    const { orders, years } = await scraper.listOrders(cliOptions.scrape);
+    
+    // Summarise how far each year was walked
+    for (const stats of years) {
+      logger.info(`${stats.year}: ${stats.pages} page(s), ${stats.ordersVisited} order(s) visited, ${stats.ordersCollected} collected`);
+    }
+    
+    // Output orders as JSON
+    console.log(JSON.stringify(orders, null, 2));
+    
+    // Save orders to file
+    const outputFile = cliOptions.output;
+    
+    try {
+      // Write the data to file, merging new orders into the existing dataset when syncing incrementally
+      const dataset = cliOptions.incremental ? mergeOrders(existingOrders, orders) : orders;
+      writeFileAtomically(outputFile, exporter.serialize(dataset));
+      logger.info(`Order data saved to ${outputFile} as ${exporter.format}`);
+      
+      // Remember every saved order so the next incremental run can stop early
+      if (cliOptions.incremental) {
+        logger.info(`Incremental sync: ${orders.length} new order(s), ${dataset.length} in total`);
+        saveSyncState(cliOptions.statePath, {
+          knownOrderKeys: dataset.map(getOrderKey),
+          lastSyncedAt: new Date().toISOString()
+        });
+      }
+    } catch (fileError: unknown) {
+      const error = fileError as Error;
+      logger.error(`Error saving to file: ${error.message}`);
+    }
+    
+    // Store orders in the SQLite database
+    if (db && runId !== null) {
+      const stored = upsertOrders(db, orders, runId);
+      finishScrapeRun(db, runId, { status: 'completed', ordersFound: orders.length, ordersNew: stored.inserted });
+      logger.info(`Orders stored in ${cliOptions.dbPath}: ${stored.inserted} new, ${stored.updated} updated`);
+      db.close();
+    }
+    
+    // Close browser
+    await scraper.close();
+    
+    logger.info('Scraping completed successfully.');
+  } catch (error) {
+    logger.error('An error occurred:', error);
+    if (scraper) {
+      await scraper.close();
+    }
+    if (db && db.open) {
+      if (runId !== null) {
+        finishScrapeRun(db, runId, { status: 'failed', ordersFound: 0, ordersNew: 0 });
+      }
+      db.close();
+    }
+    // Schedulers tell failures that need a human from those worth retrying by the exit code
+    process.exit(getExitCode(error));
+  }
+}
+
+main(); 
\ No newline at end of file
@@ -1,5 +1,10 @@
 import { Page } from 'playwright';
 import { SELECTORS, TIMEOUTS } from './config';
+import { MfaMethod } from './types';
+import { logger } from './logger';
+import { captureDiagnostics } from './diagnostics';
+import { OtpRejectedError, OtpThrottledError, ScraperError, toNavigationError } from './errors';
+import { assertNoChallenge } from './challenge';
 
 /**
  * Check if OTP/MFA is required
@@ -10,14 +15,14 @@ export async function isMFARequired(page: Page): Promise<boolean> {
   try {
     // Check the current URL to see if we're on the OTP page
     const currentUrl = page.url();
-    console.log(`Checking if OTP is required. Current URL: ${currentUrl}`);
+    logger.info(`Checking if OTP is required. Current URL: ${currentUrl}`);
     
     // Take a screenshot to help debug
-    await page.screenshot({ path: 'possible-otp-page.png' });
+    await captureDiagnostics(page, 'possible-otp-page');
     
     // Primary check: Look for /ap/mfa in the URL (most reliable indicator)
     if (currentUrl.includes('/ap/mfa')) {
-      console.log('OTP requirement detected: Found /ap/mfa in URL');
+      logger.info('OTP requirement detected: Found /ap/mfa in URL');
       return true;
     }
     
@@ -25,34 +30,34 @@ export async function isMFARequired(page: Page): Promise<boolean> {
     const pageTitle = await page.title();
     const hasVerificationTitle = pageTitle.includes('Verification') || pageTitle.includes('OTP');
     if (hasVerificationTitle) {
-      console.log(`OTP requirement detected: Page title indicates verification: "${pageTitle}"`);
+      logger.info(`OTP requirement detected: Page title indicates verification: "${pageTitle}"`);
       return true;
     }
     
     // Check for specific text on the page that indicates OTP verification
     const hasVerificationHeading = await page.isVisible('h1:has-text("Enter verification code"), h1:has-text("Two-Step Verification"), h1:has-text("Authentication Required")');
     if (hasVerificationHeading) {
-      console.log('OTP requirement detected: Found heading for verification code');
+      logger.info('OTP requirement detected: Found heading for verification code');
       return true;
     }
     
     // Check for OTP request throttling message
     const hasThrottlingMessage = await page.isVisible('.a-alert-content:has-text("Please wait 60 seconds before requesting another code")');
     if (hasThrottlingMessage) {
-      console.log('OTP requirement detected: Found throttling message for code requests');
+      logger.info('OTP requirement detected: Found throttling message for code requests');
       return true;
     }
     
     // Fallback check: Check if we're on the OTP page by older URL pattern
     if (currentUrl.includes('/ap/signin') && 
         currentUrl.includes('openid.pape.max_auth_age=0')) {
-      console.log('Potential OTP page detected by older URL pattern - checking page elements');
+      logger.info('Potential OTP page detected by older URL pattern - checking page elements');
       
       // Look for OTP input field or MFA-related text
       for (const selector of SELECTORS.MFA.MFA_SELECTORS) {
         // Use a shorter timeout for each individual selector check
         if (await page.isVisible(selector, { timeout: TIMEOUTS.ELEMENT_WAIT })) {
-          console.log(`OTP requirement detected with selector: ${selector}`);
+          logger.info(`OTP requirement detected with selector: ${selector}`);
           return true;
         }
       }
@@ -73,7 +78,7 @@ export async function isMFARequired(page: Page): Promise<boolean> {
         
         for (const indicator of otpIndicators) {
           if (lowerPageText.includes(indicator.toLowerCase())) {
-            console.log(`OTP requirement detected from text: "${indicator}"`);
+            logger.info(`OTP requirement detected from text: "${indicator}"`);
             return true;
           }
         }
@@ -82,32 +87,79 @@ export async function isMFARequired(page: Page): Promise<boolean> {
     
     return false;
   } catch (error) {
-    console.warn('Error checking OTP requirement:', error);
+    logger.warn('Error checking OTP requirement:', error);
     return false;
   }
 }
 
+/**
+ * Tell an authenticator-app prompt apart from a code sent by SMS. Call this
+ * once isMFARequired has confirmed a verification page.
+ * @param page Playwright page instance
+ * @returns 'totp' for authenticator apps, 'sms' for texted codes, 'unknown' if the page does not say
+ */
+export async function getMFAMethod(page: Page): Promise<MfaMethod> {
+  try {
+    const pageText = ((await page.textContent('body')) || '').toLowerCase();
+    
+    if (SELECTORS.MFA.TOTP_TEXT_INDICATORS.some(indicator => pageText.includes(indicator.toLowerCase()))) {
+      logger.info('MFA method: authenticator app');
+      return 'totp';
+    }
+    
+    // Only texted codes can be resent
+    if (SELECTORS.MFA.SMS_TEXT_INDICATORS.some(indicator => pageText.includes(indicator.toLowerCase())) ||
+        await page.isVisible(SELECTORS.MFA.RESEND_CODE_LINK)) {
+      logger.info('MFA method: SMS');
+      return 'sms';
+    }
+    
+    logger.info('MFA method could not be determined');
+    return 'unknown';
+  } catch (error) {
+    logger.warn('Error detecting MFA method:', error);
+    return 'unknown';
+  }
+}
+
+/**
+ * Check the page for an alert asking to wait before trying another code
+ * @param page Playwright page instance
+ * @throws OtpThrottledError if Amazon throttles OTP attempts
+ */
+async function checkOtpThrottled(page: Page): Promise<void> {
+  const alerts = await page.locator(SELECTORS.LOGIN.ALERT_CONTENT).allTextContents();
+  const alertText = alerts.join(' ').trim();
+  const lowerAlertText = alertText.toLowerCase();
+  if (SELECTORS.MFA.OTP_THROTTLED_TEXT_INDICATORS.some(indicator => lowerAlertText.includes(indicator.toLowerCase()))) {
+    await captureDiagnostics(page, 'otp-throttled');
+    throw new OtpThrottledError(`OTP attempts throttled: ${alertText}`);
+  }
+}
+
 /**
  * Submit OTP code
  * @param page Playwright page instance
  * @param otpCode OTP code provided by user
- * @returns Boolean indicating success
+ * @throws OtpRejectedError if Amazon rejects the code, OtpThrottledError if it
+ *   asks to wait before trying again, CaptchaChallengeError if Amazon shows a
+ *   challenge, ScraperError if the code cannot be entered
  */
-export async function submitMFACode(page: Page, otpCode: string): Promise<boolean> {
+export async function submitMFACode(page: Page, otpCode: string): Promise<void> {
   try {
     // Take a screenshot of the OTP page
-    await page.screenshot({ path: 'otp-page.png' });
+    await captureDiagnostics(page, 'otp-page');
     
     // Check if we're on the expected OTP page
     const currentUrl = page.url();
-    console.log(`Submitting OTP on page: ${currentUrl}`);
+    logger.info(`Submitting OTP on page: ${currentUrl}`);
     
     // Check for Amazon's specific OTP URL patterns
     if (currentUrl.includes('/ap/mfa')) {
-      console.log('Detected Amazon MFA page (/ap/mfa)');
+      logger.info('Detected Amazon MFA page (/ap/mfa)');
     } else if (currentUrl.includes('/ap/signin') && 
         currentUrl.includes('openid.pape.max_auth_age=0')) {
-      console.log('Detected Amazon signin OTP page (older pattern)');
+      logger.info('Detected Amazon signin OTP page (older pattern)');
     }
     
     // Try different possible OTP input fields
@@ -116,14 +168,14 @@ export async function submitMFACode(page: Page, otpCode: string): Promise<boolea
       const isVisible = await page.isVisible(selector, { timeout: TIMEOUTS.ELEMENT_WAIT });
       if (isVisible) {
         inputField = selector;
-        console.log(`Found OTP input field with selector: ${selector}`);
+        logger.info(`Found OTP input field with selector: ${selector}`);
         break;
       }
     }
     
     if (!inputField) {
-      console.error('Could not find OTP input field');
-      return false;
+      await checkOtpThrottled(page);
+      throw new ScraperError('Could not find OTP input field');
     }
     
     // Clear the field first in case it has any content
@@ -131,7 +183,7 @@ export async function submitMFACode(page: Page, otpCode: string): Promise<boolea
     
     // Fill in the OTP code
     await page.fill(inputField, otpCode);
-    console.log(`Entered OTP code: ${otpCode.replace(/./g, '*')}`);
+    logger.info(`Entered OTP code: ${otpCode.replace(/./g, '*')}`);
     
     // Try different submit button selectors
     let submitButton = null;
@@ -139,28 +191,28 @@ export async function submitMFACode(page: Page, otpCode: string): Promise<boolea
       const isVisible = await page.isVisible(selector, { timeout: TIMEOUTS.ELEMENT_WAIT });
       if (isVisible) {
         submitButton = selector;
-        console.log(`Found OTP submit button with selector: ${selector}`);
+        logger.info(`Found OTP submit button with selector: ${selector}`);
         break;
       }
     }
     
     if (!submitButton) {
-      console.error('Could not find OTP submit button');
-      return false;
+      throw new ScraperError('Could not find OTP submit button');
     }
     
     // Click the submit button
     await page.click(submitButton);
-    console.log('Clicked OTP submit button');
+    logger.info('Clicked OTP submit button');
     
-    // Wait for navigation to complete
+    // Wait for navigation to complete; a rejected code may re-render the form in place
     await page.waitForNavigation({ 
       waitUntil: 'load',
       timeout: TIMEOUTS.OTP_NAVIGATION 
-    });
+    }).catch(error => logger.debug('No navigation after OTP submission:', error));
     
     // Take a screenshot after OTP submission
-    await page.screenshot({ path: 'after-otp-submission.png' });
+    await captureDiagnostics(page, 'after-otp-submission');
+    await assertNoChallenge(page);
     
     // Check if OTP was incorrect by seeing if we're still on the OTP page
     const stillOnOTPPage = await isMFARequired(page);
@@ -169,15 +221,13 @@ export async function submitMFACode(page: Page, otpCode: string): Promise<boolea
     const hasError = await page.isVisible(SELECTORS.LOGIN.ERROR_CONTAINER, { timeout: TIMEOUTS.ELEMENT_WAIT });
     
     if (stillOnOTPPage || hasError) {
-      const errorText = await page.textContent(SELECTORS.LOGIN.ERROR_CONTAINER) || 'Invalid OTP code';
-      console.error(`OTP error: ${errorText.trim()}`);
-      return false;
+      await checkOtpThrottled(page);
+      const errorText = hasError ? await page.textContent(SELECTORS.LOGIN.ERROR_CONTAINER) || '' : '';
+      throw new OtpRejectedError(`OTP rejected${errorText.trim() ? `: ${errorText.trim()}` : ''}`);
     }
     
-    console.log('OTP verification successful');
-    return true;
+    logger.info('OTP verification successful');
   } catch (error) {
-    console.error('Error submitting OTP code:', error);
-    return false;
+    throw toNavigationError(error, 'the page after submitting the OTP');
   }
 } 
\ No newline at end of file
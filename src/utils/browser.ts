@@ -1,14 +1,47 @@
-import { Browser } from 'playwright';
-import { BrowserContext } from './types';
+import fs from 'fs';
+import path from 'path';
+import { Browser, BrowserContextOptions } from 'playwright';
+import { FILES } from './config';
+import { installHarReplay, loadHar, startRecording } from './recording';
+import { BrowserContext, BrowserOptions } from './types';
+import { logger } from './logger';
 
 /**
  * Initialize browser and page
+ * @param options Browser options, including an optional saved session to restore
+ *   and whether to record the run or replay a recording
  * @returns Browser and page instances
  */
-export async function initBrowser(): Promise<BrowserContext> {
+export async function initBrowser(options: BrowserOptions = {}): Promise<BrowserContext> {
   const playwright = await import('playwright');
-  const browser: Browser = await playwright.chromium.launch({ headless: false });
-  const context = await browser.newContext();
+  const browser: Browser = await playwright.chromium.launch({ headless: options.headless ?? false });
+
+  // A replay follows the recorded run, which either started from a saved session or logged in
+  if (options.replayHarPath) {
+    const har = loadHar(options.replayHarPath);
+    const context = await browser.newContext();
+    await installHarReplay(context, har);
+    logger.info(`Replaying ${har.log.entries.length} recorded requests from ${options.replayHarPath}`);
+
+    const page = await context.newPage();
+    return { browser, page, sessionRestored: !!har.log._sessionRestored };
+  }
+
+  // Restore cookies and local storage from a previous login if available
+  const sessionRestored = !!options.storageStatePath && fs.existsSync(options.storageStatePath);
+  const contextOptions: BrowserContextOptions = sessionRestored ? { storageState: options.storageStatePath } : {};
+  if (options.recordDir) {
+    contextOptions.recordHar = { path: path.join(options.recordDir, FILES.RECORDING_HAR), content: 'embed' };
+  }
+  const context = await browser.newContext(contextOptions);
+  if (sessionRestored) {
+    logger.info(`Restored saved session from ${options.storageStatePath}`);
+  }
+  if (options.recordDir) {
+    await startRecording(context);
+    logger.info(`Recording network traffic and a trace to ${options.recordDir}`);
+  }
+
   const page = await context.newPage();
-  return { browser, page };
-} 
\ No newline at end of file
+  return { browser, page, sessionRestored };
+}
@@ -0,0 +1,106 @@
+/**
+ * Detection of CAPTCHAs, puzzles and device approval prompts, which only a person can pass
+ */
+import path from 'path';
+import { Page } from 'playwright';
+import { SELECTORS, TIMEOUTS } from './config';
+import { logger } from './logger';
+import { captureDiagnostics, getDiagnosticsDir } from './diagnostics';
+import { CaptchaChallengeError } from './errors';
+import { ChallengeType } from './types';
+
+/**
+ * How each challenge is described to the user
+ */
+export const CHALLENGE_DESCRIPTIONS: Record<ChallengeType, string> = {
+  captcha: 'a CAPTCHA ("Enter the characters you see")',
+  puzzle: 'a puzzle challenge',
+  'device-approval': 'a request to approve the sign-in on another device'
+};
+
+/**
+ * Selectors and wording of each challenge, in the order they are checked. Read
+ * on every call, as override files replace the lists.
+ * @returns Checks for each challenge
+ */
+function challengeChecks(): Array<{ type: ChallengeType; selectors: string[]; textIndicators: string[] }> {
+  const { CHALLENGE } = SELECTORS;
+  return [
+    { type: 'captcha', selectors: CHALLENGE.CAPTCHA_SELECTORS, textIndicators: CHALLENGE.CAPTCHA_TEXT_INDICATORS },
+    { type: 'puzzle', selectors: CHALLENGE.PUZZLE_SELECTORS, textIndicators: CHALLENGE.PUZZLE_TEXT_INDICATORS },
+    { type: 'device-approval', selectors: CHALLENGE.DEVICE_APPROVAL_SELECTORS, textIndicators: CHALLENGE.DEVICE_APPROVAL_TEXT_INDICATORS }
+  ];
+}
+
+/**
+ * Check whether the page shows a challenge that only a person can pass
+ * @param page Playwright page instance
+ * @returns The challenge shown, or null if there is none
+ */
+export async function detectChallenge(page: Page): Promise<ChallengeType | null> {
+  const pageText = ((await page.textContent('body').catch(() => null)) || '').toLowerCase();
+
+  for (const check of challengeChecks()) {
+    for (const selector of check.selectors) {
+      if (await page.locator(selector).first().isVisible().catch(() => false)) {
+        logger.debug(`Challenge detected (${check.type}) with selector: ${selector}`);
+        return check.type;
+      }
+    }
+    const indicator = check.textIndicators.find(text => pageText.includes(text.toLowerCase()));
+    if (indicator) {
+      logger.debug(`Challenge detected (${check.type}) from text: "${indicator}"`);
+      return check.type;
+    }
+  }
+  return null;
+}
+
+/**
+ * Fail fast when the page shows a challenge, with a screenshot of it in the
+ * diagnostics directory
+ * @param page Playwright page instance
+ * @throws CaptchaChallengeError if a challenge is shown
+ */
+export async function assertNoChallenge(page: Page): Promise<void> {
+  const challenge = await detectChallenge(page);
+  if (!challenge) {
+    return;
+  }
+
+  const capture = await captureDiagnostics(page, `challenge-${challenge}`);
+  const runDir = getDiagnosticsDir();
+  const screenshot = capture && capture.screenshot && runDir ? ` (screenshot: ${path.join(runDir, capture.screenshot)})` : '';
+  throw new CaptchaChallengeError(`Amazon is showing ${CHALLENGE_DESCRIPTIONS[challenge]}${screenshot}`, challenge);
+}
+
+/**
+ * Wait for the user to solve a challenge in the browser window
+ * @param page Playwright page instance showing the challenge
+ * @param challenge Challenge shown
+ * @param timeout How long to wait in milliseconds
+ * @throws CaptchaChallengeError if the challenge is still shown after the timeout
+ */
+export async function waitForChallengeSolved(
+  page: Page,
+  challenge: ChallengeType,
+  timeout: number = TIMEOUTS.CHALLENGE_SOLVE
+): Promise<void> {
+  logger.warn(`Amazon is showing ${CHALLENGE_DESCRIPTIONS[challenge]}. ` +
+    `Solve it in the browser window within ${Math.round(timeout / 60000)} minutes; the scraper continues on its own afterwards.`);
+
+  const deadline = Date.now() + timeout;
+  while (Date.now() < deadline) {
+    await page.waitForTimeout(TIMEOUTS.CHALLENGE_POLL);
+    if (!(await detectChallenge(page))) {
+      await page.waitForLoadState('load').catch(() => undefined);
+      logger.info('Challenge solved, resuming');
+      return;
+    }
+  }
+
+  throw new CaptchaChallengeError(
+    `Gave up waiting for ${CHALLENGE_DESCRIPTIONS[challenge]} to be solved after ${Math.round(timeout / 60000)} minutes`,
+    challenge
+  );
+}
@@ -0,0 +1,309 @@
+/**
+ * Command-line argument parsing
+ */
+import { parseArgs } from 'util';
+import { FILES, SCRAPE_DEFAULTS, SERVER_DEFAULTS } from './config';
+import { isIsoDate } from './dates';
+import { MARKETPLACE_IDS } from './marketplace';
+import { LOG_LEVELS } from './logger';
+import { PURCHASE_TYPES } from './purchases';
+import { CliOptions, CliCommand, LogLevel, MarketplaceId, OutputFormat, PurchaseType, ScraperError } from './types';
+
+export const CLI_COMMANDS: CliCommand[] = ['scrape', 'logout', 'doctor', 'report', 'serve'];
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'ndjson', 'csv', 'markdown'];
+
+export const USAGE = `Usage: npm start -- [command] [options]
+
+Commands:
+  scrape                 Log in and extract order history (default)
+  logout                 Delete the saved login session
+  doctor                 Check which selectors still match the login, MFA and order pages
+  report                 Summarise spending from --db, else --output, without visiting Amazon
+  serve                  Run an HTTP API that starts scrape jobs and takes credentials and OTPs remotely
+
+Options:
+  --from-year <year>     Oldest year to scrape (default: ${SCRAPE_DEFAULTS.YEARS_BACK - 1} years before --to-year)
+  --to-year <year>       Newest year to scrape (default: current year)
+  --since <YYYY-MM-DD>   Only return orders placed on or after this date
+  --until <YYYY-MM-DD>   Only return orders placed on or before this date
+  --max-orders <n|all>   Maximum number of orders to return (default: ${SCRAPE_DEFAULTS.MAX_ORDERS}, all with --incremental)
+  --details              Also open each order's details page for item prices, charges, payment and shipping
+  --details-concurrency <n> Details pages open at once (default: ${SCRAPE_DEFAULTS.DETAILS_CONCURRENCY})
+  --max-detail-pages <n|all> Most details pages to open per run (default: ${SCRAPE_DEFAULTS.MAX_DETAIL_PAGES})
+  --type <types>         Only return these purchase types, comma-separated: ${PURCHASE_TYPES.join(', ')}
+  --digital              Also walk the digital orders view (implied by --type video or digital)
+  --cancelled            Also crawl the cancelled orders filter, which the yearly order history leaves out
+  --invoices <dir>       Save each order's invoice into this directory as <date>_<order ID>.pdf (needs --headless)
+  --output <path>        File to write the orders to (default: ${FILES.ORDER_OUTPUT})
+  --format <format>      Output format: ${OUTPUT_FORMATS.join(', ')} (default: from --output extension, else json)
+  --incremental          Only fetch orders not seen by previous runs and merge them into --output
+  --state <path>         Incremental sync state file (default: ${FILES.SYNC_STATE})
+  --db <path>            Also store orders in this SQLite database (report: read the orders from it)
+  --snapshots <dir>      doctor: check saved login.html, mfa.html and orders.html instead of live pages
+  --report <path>        doctor: JSON report (default: ${FILES.HEALTH_REPORT}); report: HTML report (default: ${FILES.SPENDING_REPORT})
+  --host <address>       serve: address to listen on (default: ${SERVER_DEFAULTS.HOST})
+  --port <n>             serve: port to listen on (default: ${SERVER_DEFAULTS.PORT})
+  --config <path>        JSON or YAML file overriding selectors, timeouts and URLs
+  --marketplace <id>     Amazon storefront: ${MARKETPLACE_IDS.join(', ')} (default: in)
+  --headless             Run the browser without a visible window
+  --session <path>       Saved session file (default: ${FILES.SESSION_STATE}, amazon-session-<id>.json for other marketplaces)
+  --username <value>     Amazon email or phone number
+  --password-stdin       Read the password from standard input
+  --log-level <level>    Log level: ${LOG_LEVELS.join(', ')} (default: info)
+  --log-json             Write logs as JSON lines to standard error
+  --diagnostics-dir <dir> Directory for per-run screenshots, HTML dumps and timelines (default: ${FILES.DIAGNOSTICS_DIR})
+  --record               Record network traffic (${FILES.RECORDING_HAR}, scrubbed) and a trace (${FILES.RECORDING_TRACE}) into the run's diagnostics directory
+  --replay <har>         Replay a recording instead of visiting Amazon, with no network access
+  -h, --help             Show this help
+
+Environment variables:
+  AMAZON_USERNAME        Amazon email or phone number
+  AMAZON_PASSWORD        Amazon password
+  AMAZON_OTP             One-time password for the current login
+  AMAZON_TOTP_SECRET     Authenticator app secret (base32), to generate OTPs instead of prompting
+  AMAZON_MARKETPLACE     Amazon storefront, if --marketplace is not given
+  AMAZON_SCRAPER_CONFIG  Override file, if --config is not given
+  AMAZON_SCRAPER_TOKEN   serve: bearer token every API request must carry (generated if not set)
+
+Values that are not supplied through flags or environment variables are prompted for.`;
+
+/**
+ * Parse an integer flag value
+ * @param name Flag name used in error messages
+ * @param value Raw flag value
+ * @returns Parsed integer
+ */
+function parseIntegerFlag(name: string, value: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new ScraperError(`--${name} must be a positive integer, got "${value}"`);
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Parse a date flag value
+ * @param name Flag name used in error messages
+ * @param value Raw flag value
+ * @returns Date in YYYY-MM-DD format
+ */
+function parseDateFlag(name: string, value: string): string {
+  if (!isIsoDate(value)) {
+    throw new ScraperError(`--${name} must be a date in YYYY-MM-DD format, got "${value}"`);
+  }
+  return value;
+}
+
+/**
+ * Parse a comma-separated list of purchase types
+ * @param value Raw flag value, e.g. "physical,grocery"
+ * @returns Purchase types
+ */
+function parsePurchaseTypes(value: string): PurchaseType[] {
+  const types = value.split(',').map(type => type.trim()).filter(type => type) as PurchaseType[];
+  const unknown = types.find(type => !PURCHASE_TYPES.includes(type));
+  if (unknown || types.length === 0) {
+    throw new ScraperError(`Unsupported purchase type "${unknown || value}". Supported types: ${PURCHASE_TYPES.join(', ')}`);
+  }
+  return types;
+}
+
+/**
+ * Parse command-line arguments into scraper options
+ * @param argv Arguments without the node executable and script path
+ * @param env Environment variables to read credentials from
+ * @returns Parsed CLI options
+ */
+export function parseCliArgs(argv: string[], env: NodeJS.ProcessEnv = process.env): CliOptions {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        'from-year': { type: 'string' },
+        'to-year': { type: 'string' },
+        since: { type: 'string' },
+        until: { type: 'string' },
+        'max-orders': { type: 'string' },
+        details: { type: 'boolean' },
+        'details-concurrency': { type: 'string' },
+        'max-detail-pages': { type: 'string' },
+        type: { type: 'string' },
+        digital: { type: 'boolean' },
+        cancelled: { type: 'boolean' },
+        invoices: { type: 'string' },
+        output: { type: 'string' },
+        format: { type: 'string' },
+        incremental: { type: 'boolean' },
+        state: { type: 'string' },
+        db: { type: 'string' },
+        snapshots: { type: 'string' },
+        report: { type: 'string' },
+        host: { type: 'string' },
+        port: { type: 'string' },
+        config: { type: 'string' },
+        marketplace: { type: 'string' },
+        headless: { type: 'boolean' },
+        session: { type: 'string' },
+        username: { type: 'string' },
+        'password-stdin': { type: 'boolean' },
+        'log-level': { type: 'string' },
+        'log-json': { type: 'boolean' },
+        'diagnostics-dir': { type: 'string' },
+        record: { type: 'boolean' },
+        replay: { type: 'string' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+  } catch (error) {
+    throw new ScraperError((error as Error).message);
+  }
+  const { values, positionals } = parsed;
+
+  const command = (positionals[0] || 'scrape') as CliCommand;
+  if (!CLI_COMMANDS.includes(command)) {
+    throw new ScraperError(`Unknown command "${positionals[0]}"`);
+  }
+  if (positionals.length > 1) {
+    throw new ScraperError(`Unexpected argument "${positionals[1]}"`);
+  }
+
+  const since = values.since ? parseDateFlag('since', values.since) : undefined;
+  const until = values.until ? parseDateFlag('until', values.until) : undefined;
+  if (since && until && since > until) {
+    throw new ScraperError(`--since (${since}) cannot be after --until (${until})`);
+  }
+
+  // A date range implies the years to walk unless they are given explicitly
+  let toYear = new Date().getFullYear();
+  if (values['to-year']) {
+    toYear = parseIntegerFlag('to-year', values['to-year']);
+  } else if (until) {
+    toYear = Math.min(toYear, parseInt(until.slice(0, 4), 10));
+  }
+  let fromYear = toYear - (SCRAPE_DEFAULTS.YEARS_BACK - 1);
+  if (values['from-year']) {
+    fromYear = parseIntegerFlag('from-year', values['from-year']);
+  } else if (since) {
+    fromYear = parseInt(since.slice(0, 4), 10);
+  }
+  if (fromYear > toYear) {
+    throw new ScraperError(`--from-year (${fromYear}) cannot be after --to-year (${toYear})`);
+  }
+
+  // Incremental runs stop at the first page of known orders rather than at a fixed count
+  let maxOrders: number | null = values.incremental ? null : SCRAPE_DEFAULTS.MAX_ORDERS;
+  const maxOrdersValue = values['max-orders'];
+  if (maxOrdersValue === 'all' || maxOrdersValue === 'unlimited') {
+    maxOrders = null;
+  } else if (maxOrdersValue) {
+    maxOrders = parseIntegerFlag('max-orders', maxOrdersValue);
+  }
+
+  const detailsConcurrency = values['details-concurrency']
+    ? parseIntegerFlag('details-concurrency', values['details-concurrency'])
+    : SCRAPE_DEFAULTS.DETAILS_CONCURRENCY;
+  if (detailsConcurrency < 1) {
+    throw new ScraperError('--details-concurrency must be at least 1');
+  }
+  let maxDetailPages: number | null = SCRAPE_DEFAULTS.MAX_DETAIL_PAGES;
+  const maxDetailPagesValue = values['max-detail-pages'];
+  if (maxDetailPagesValue === 'all' || maxDetailPagesValue === 'unlimited') {
+    maxDetailPages = null;
+  } else if (maxDetailPagesValue) {
+    maxDetailPages = parseIntegerFlag('max-detail-pages', maxDetailPagesValue);
+  }
+
+  const purchaseTypes = values.type ? parsePurchaseTypes(values.type) : undefined;
+
+  const format = values.format as OutputFormat | undefined;
+  if (format && !OUTPUT_FORMATS.includes(format)) {
+    throw new ScraperError(`Unsupported format "${values.format}". Supported formats: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  const logLevel = (values['log-level'] || 'info') as LogLevel;
+  if (!LOG_LEVELS.includes(logLevel)) {
+    throw new ScraperError(`Unsupported log level "${logLevel}". Supported levels: ${LOG_LEVELS.join(', ')}`);
+  }
+
+  if (values.record && values.replay) {
+    throw new ScraperError('--record and --replay cannot be used together');
+  }
+
+  if (values.invoices && !values.headless) {
+    throw new ScraperError('--invoices needs --headless, as Chromium only prints invoices to PDF headless');
+  }
+
+  const port = values.port ? parseIntegerFlag('port', values.port) : SERVER_DEFAULTS.PORT;
+  if (port < 1 || port > 65535) {
+    throw new ScraperError(`--port must be between 1 and 65535, got ${port}`);
+  }
+
+  const marketplace = (values.marketplace || env.AMAZON_MARKETPLACE || 'in') as MarketplaceId;
+  if (!MARKETPLACE_IDS.includes(marketplace)) {
+    throw new ScraperError(`Unsupported marketplace "${marketplace}". Supported marketplaces: ${MARKETPLACE_IDS.join(', ')}`);
+  }
+
+  // Each storefront has its own login, so keep their sessions apart
+  const defaultSessionPath = marketplace === 'in' ? FILES.SESSION_STATE : FILES.SESSION_STATE.replace(/\.json$/, `-${marketplace}.json`);
+
+  return {
+    command,
+    help: !!values.help,
+    scrape: {
+      fromYear,
+      toYear,
+      maxOrders,
+      since,
+      until,
+      details: !!values.details,
+      detailsConcurrency,
+      maxDetailPages,
+      invoiceDir: values.invoices,
+      cancelled: !!values.cancelled,
+      digital: !!values.digital,
+      purchaseTypes
+    },
+    output: values.output || FILES.ORDER_OUTPUT,
+    format,
+    marketplace,
+    headless: !!values.headless,
+    sessionPath: values.session || defaultSessionPath,
+    credentials: {
+      username: values.username || env.AMAZON_USERNAME || undefined,
+      password: env.AMAZON_PASSWORD || undefined
+    },
+    passwordStdin: !!values['password-stdin'],
+    otpCode: env.AMAZON_OTP || undefined,
+    totpSecret: env.AMAZON_TOTP_SECRET || undefined,
+    logLevel,
+    logJson: !!values['log-json'],
+    diagnosticsDir: values['diagnostics-dir'] || FILES.DIAGNOSTICS_DIR,
+    record: !!values.record,
+    replayHarPath: values.replay,
+    incremental: !!values.incremental,
+    statePath: values.state || FILES.SYNC_STATE,
+    dbPath: values.db,
+    configPath: values.config || env.AMAZON_SCRAPER_CONFIG || undefined,
+    snapshotDir: values.snapshots,
+    reportPath: values.report || (command === 'report' ? FILES.SPENDING_REPORT : FILES.HEALTH_REPORT),
+    server: {
+      host: values.host || SERVER_DEFAULTS.HOST,
+      port,
+      token: env.AMAZON_SCRAPER_TOKEN || undefined
+    }
+  };
+}
+
+/**
+ * Read a password piped into standard input
+ * @returns First line of standard input
+ */
+export async function readPasswordFromStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8').split(/\r?\n/)[0];
+}
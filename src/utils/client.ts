@@ -0,0 +1,565 @@
+/**
+ * Programmatic API: a scraper object that logs in once and lists orders on demand
+ */
+import { EventEmitter } from 'events';
+import { Browser, Page } from 'playwright';
+import { FILES, SCRAPE_DEFAULTS, selectMarketplace } from './config';
+import { initBrowser } from './browser';
+import { isSessionValid, saveSession } from './session';
+import { navigateToAmazonLogin, enterUsername, enterPassword } from './login';
+import { isMFARequired, getMFAMethod, submitMFACode } from './auth';
+import { decodeBase32, generateTotp } from './totp';
+import { logger, registerSecret } from './logger';
+import { startDiagnosticsRun, endDiagnosticsRun, captureDiagnostics, getDiagnosticsDir } from './diagnostics';
+import { finishRecording } from './recording';
+import { waitForChallengeSolved } from './challenge';
+import { navigateToOrderHistory } from './navigation';
+import { extractOrders } from './extraction';
+import { scrapeCancelledOrders, scrapeOrderYear } from './pagination';
+import { scrapeOrderDetails } from './details';
+import { downloadInvoices } from './invoices';
+import { filterOrdersByDate } from './dates';
+import { filterOrdersByPurchaseType, needsDigitalOrders } from './purchases';
+import { mergeOrders } from './sync';
+import { inquirerCredentialProvider, inquirerOtpProvider } from './prompts';
+import {
+  AmazonOrderScraperOptions,
+  CredentialProvider,
+  Order,
+  OtpProvider,
+  ScrapeOptions,
+  ScrapeResult,
+  ScraperProgressEvent
+} from './types';
+import {
+  CaptchaChallengeError,
+  LoginAbortedError,
+  NavigationTimeoutError,
+  OtpRejectedError,
+  ScraperError,
+  UnknownAccountError,
+  WrongPasswordError
+} from './errors';
+
+/**
+ * Time steps tried in turn when generating TOTP codes: the current one, then
+ * the next and previous ones to absorb clock skew
+ */
+const TOTP_STEP_OFFSETS = [0, 1, -1];
+
+/**
+ * Stand-ins typed into replayed sign-in forms; the recording decides whether they are accepted
+ */
+const REPLAY_CREDENTIALS = { username: 'replay@example.com', password: 'replay', otpCode: '000000' };
+
+/**
+ * Amazon order history scraper. Reports progress through "progress" events
+ * carrying a ScraperProgressEvent:
+ *
+ *   const scraper = new AmazonOrderScraper({ credentials, otpProvider });
+ *   scraper.on('progress', (event: ScraperProgressEvent) => logger.info(event.type));
+ *   await scraper.login();
+ *   const { orders } = await scraper.listOrders({ maxOrders: 50 });
+ *   await scraper.close();
+ */
+export class AmazonOrderScraper extends EventEmitter {
+  private readonly options: AmazonOrderScraperOptions;
+  private readonly credentialProvider: CredentialProvider;
+  private readonly otpProvider: OtpProvider;
+  private browser: Browser | null = null;
+  private currentPage: Page | null = null;
+  private loggedIn = false;
+  private recording: { dir: string; sessionRestored: boolean } | null = null;
+
+  /**
+   * @param options Login details, browser settings and prompt providers
+   */
+  constructor(options: AmazonOrderScraperOptions = {}) {
+    super();
+    // A replay never prompts: the recorded pages answer whatever is typed
+    this.options = options.replayHarPath
+      ? {
+        ...options,
+        credentials: {
+          username: options.credentials?.username || REPLAY_CREDENTIALS.username,
+          password: options.credentials?.password || REPLAY_CREDENTIALS.password
+        },
+        otpCode: options.otpCode || REPLAY_CREDENTIALS.otpCode,
+        totpSecret: undefined,
+        sessionPath: undefined,
+        record: false
+      }
+      : options;
+    this.credentialProvider = options.credentialProvider || inquirerCredentialProvider;
+    this.otpProvider = options.otpProvider || inquirerOtpProvider;
+    if (options.marketplace) {
+      selectMarketplace(options.marketplace);
+    }
+    if (options.totpSecret) {
+      // Fail on a mistyped secret now rather than halfway through the login
+      decodeBase32(options.totpSecret);
+    }
+
+    // Keep everything we are told from showing up in logs and HTML dumps
+    registerSecret(options.credentials?.username);
+    registerSecret(options.credentials?.password);
+    registerSecret(options.otpCode);
+    registerSecret(options.totpSecret);
+  }
+
+  /**
+   * Page the scraper is working in, for custom navigation after login
+   */
+  get page(): Page | null {
+    return this.currentPage;
+  }
+
+  /**
+   * Report progress to "progress" listeners
+   * @param event Progress event
+   */
+  private progress(event: ScraperProgressEvent): void {
+    this.emit('progress', event);
+  }
+
+  /**
+   * Give up on logging in: report why and close the browser
+   * @param error Why the login failed
+   * @returns Never; always throws the error
+   */
+  private async failLogin(error: ScraperError): Promise<never> {
+    logger.error(error.message);
+    this.progress({ type: 'login:failed', reason: error.message, error: error.name });
+    await this.close();
+    throw error;
+  }
+
+  /**
+   * Run a login step. When it runs into a CAPTCHA or another challenge in a
+   * visible browser, wait for the user to solve it there; the step then counts
+   * as done. Headless runs and replays fail with the CaptchaChallengeError instead.
+   * @param page Page the step works in
+   * @param step Login step to run
+   */
+  private async withChallengeHandling(page: Page, step: () => Promise<void>): Promise<void> {
+    try {
+      await step();
+    } catch (error) {
+      if (!(error instanceof CaptchaChallengeError) || this.options.headless || this.options.replayHarPath) {
+        throw error;
+      }
+      this.progress({ type: 'login:challenge', challenge: error.challenge });
+      await waitForChallengeSolved(page, error.challenge);
+    }
+  }
+
+  /**
+   * Open the browser and log in, reusing the saved session when it is still
+   * valid. Missing or rejected credentials and OTPs come from the providers.
+   * The browser is closed when the login fails.
+   * @throws UnknownAccountError, WrongPasswordError, OtpRejectedError,
+   *   OtpThrottledError, AccountLockedError, CaptchaChallengeError,
+   *   LoginAbortedError, NavigationTimeoutError or ScraperError, see errors.ts
+   */
+  async login(): Promise<void> {
+    if (this.loggedIn) {
+      return;
+    }
+    this.progress({ type: 'login:start' });
+    if (this.options.diagnosticsDir || this.options.record) {
+      startDiagnosticsRun(this.options.diagnosticsDir || FILES.DIAGNOSTICS_DIR);
+    }
+
+    // Initialize browser, restoring the session saved by a previous run
+    const recordDir = this.options.record ? getDiagnosticsDir() || undefined : undefined;
+    const { browser, page, sessionRestored } = await initBrowser({
+      storageStatePath: this.options.sessionPath,
+      headless: this.options.headless,
+      recordDir,
+      replayHarPath: this.options.replayHarPath
+    });
+    this.browser = browser;
+    this.currentPage = page;
+    this.recording = recordDir ? { dir: recordDir, sessionRestored } : null;
+
+    try {
+      // Reuse the saved session when it is still logged in
+      if (sessionRestored) {
+        logger.step('session-check');
+        if (await isSessionValid(page)) {
+          logger.info('Using saved session, skipping login');
+          this.loggedIn = true;
+          this.progress({ type: 'login:session-restored' });
+          return;
+        }
+
+        // Drop the stale cookies so Amazon shows a fresh sign-in form
+        await page.context().clearCookies();
+      }
+
+      // Navigate to Amazon login page
+      logger.step('username');
+      await this.withChallengeHandling(page, () => navigateToAmazonLogin(page));
+
+      // Wait for the page to fully load
+      await page.waitForTimeout(3000);
+
+      // Get credentials from the options or the provider
+      const credentials = await this.credentialProvider.getCredentials(this.options.credentials || {});
+      if (!credentials) {
+        throw new LoginAbortedError('No credentials provided');
+      }
+      registerSecret(credentials.username);
+      registerSecret(credentials.password);
+
+      // Enter the username, asking for a new one up to 3 times if Amazon rejects it
+      logger.info('Attempting to log in');
+      let username = credentials.username;
+      for (let usernameAttempts = 3; ; usernameAttempts--) {
+        try {
+          await this.withChallengeHandling(page, () => enterUsername(page, username));
+          break;
+        } catch (error) {
+          if (!(error instanceof UnknownAccountError) || usernameAttempts <= 1) {
+            throw error;
+          }
+          logger.info(`${error.message}. ${usernameAttempts - 1} attempts remaining.`);
+        }
+
+        const newCredentials = await this.credentialProvider.getCredentials({ password: credentials.password });
+        if (!newCredentials) {
+          throw new LoginAbortedError('No username provided');
+        }
+        registerSecret(newCredentials.username);
+        username = newCredentials.username;
+        logger.info('Retrying with new username');
+      }
+
+      // Username accepted, now enter password, asking for a new one up to 3 times
+      logger.step('password');
+      logger.info('Username accepted, proceeding to password entry');
+      let password = credentials.password;
+      for (let passwordAttempts = 3; ; passwordAttempts--) {
+        try {
+          await this.withChallengeHandling(page, () => enterPassword(page, password));
+          break;
+        } catch (error) {
+          if (!(error instanceof WrongPasswordError) || passwordAttempts <= 1) {
+            throw error;
+          }
+          logger.info(`${error.message}. ${passwordAttempts - 1} attempts remaining.`);
+        }
+
+        const newPassword = await this.credentialProvider.getPassword();
+        if (!newPassword) {
+          throw new LoginAbortedError('No password provided');
+        }
+        registerSecret(newPassword);
+        password = newPassword;
+        logger.info('Retrying with new password');
+      }
+
+      // Check if OTP is required after password validation
+      logger.step('mfa');
+      if (await isMFARequired(page)) {
+        const method = await getMFAMethod(page);
+        logger.info(`OTP verification required (${method})`);
+
+        // Authenticator codes can be computed when the shared secret is known;
+        // texted codes always come from the provider
+        const useTotp = !!this.options.totpSecret && method !== 'sms';
+
+        let totpAttempt = 0;
+        let suppliedOtp = this.options.otpCode;
+
+        for (let otpAttempts = 3; ; otpAttempts--) {
+          this.progress({ type: 'login:otp-required', attemptsLeft: otpAttempts, method });
+
+          let otpCode: string | null;
+          if (useTotp) {
+            // Retry on the neighbouring time steps in case our clock and Amazon's disagree
+            const stepOffset = TOTP_STEP_OFFSETS[totpAttempt++ % TOTP_STEP_OFFSETS.length];
+            logger.info(`Generating TOTP code${stepOffset ? ` for time step ${stepOffset > 0 ? '+' : ''}${stepOffset}` : ''}`);
+            otpCode = generateTotp(this.options.totpSecret as string, { stepOffset });
+          } else {
+            // Use the supplied OTP once, then ask the provider for a new one
+            otpCode = suppliedOtp || await this.otpProvider.getOtp(otpAttempts, method);
+            suppliedOtp = undefined;
+          }
+          if (!otpCode) {
+            throw new LoginAbortedError('No OTP provided');
+          }
+          registerSecret(otpCode);
+
+          // Submit OTP
+          logger.info('Submitting OTP code');
+          try {
+            const code = otpCode;
+            await this.withChallengeHandling(page, () => submitMFACode(page, code));
+            break;
+          } catch (error) {
+            if (!(error instanceof OtpRejectedError)) {
+              throw error;
+            }
+            if (otpAttempts <= 1) {
+              throw new OtpRejectedError(useTotp
+                ? 'Generated TOTP codes were rejected; check the TOTP secret and the system clock'
+                : 'Failed to verify OTP after multiple attempts');
+            }
+            logger.error('Invalid OTP code');
+          }
+        }
+      }
+
+      // Final check to verify we're logged in
+      logger.step('login-check');
+      await page.waitForTimeout(3000);
+
+      // Check if we're still on any login pages
+      const stillOnLoginPage = await page.isVisible('#ap_password, #ap_email, .auth-workflow');
+      if (stillOnLoginPage) {
+        throw new ScraperError('Still on login page after all steps. Login failed.');
+      }
+
+      logger.info('Login successful!');
+      this.loggedIn = true;
+      this.progress({ type: 'login:success' });
+
+      // Save the session so the next run can skip login and OTP
+      if (this.options.sessionPath) {
+        await saveSession(page, this.options.sessionPath);
+      }
+    } catch (error) {
+      if (error instanceof ScraperError) {
+        return await this.failLogin(error);
+      }
+      logger.error('Unexpected error during login:', error);
+      // Final error screenshot
+      await captureDiagnostics(page, 'login-unexpected-error');
+      return await this.failLogin(new ScraperError(`Unexpected error during login: ${(error as Error).message}`));
+    }
+  }
+
+  /**
+   * List orders from the order history, newest first. Requires a successful login().
+   * @param options Year range, order limit and date range; defaults to the last
+   *   five years and the default order limit. With details set, each order's
+   *   details page is opened too, see scrapeOrderDetails. With invoiceDir set,
+   *   each order's invoice is saved there, see downloadInvoices; this needs a
+   *   headless browser. With cancelled set, the cancelled orders filter is
+   *   crawled too, see scrapeCancelledOrders. With digital set, or
+   *   purchaseTypes asking for video or digital purchases, the digital orders
+   *   view is walked too.
+   * @returns Orders found and how far each year was walked
+   * @throws ScraperError before login(), or with invoiceDir in a headed browser
+   */
+  async listOrders(options: Partial<ScrapeOptions> = {}): Promise<ScrapeResult> {
+    const page = this.currentPage;
+    if (!this.loggedIn || !page) {
+      throw new ScraperError('Call login() before listOrders()');
+    }
+    // Chromium only prints PDFs headless, so printed invoices would be lost in a visible browser
+    if (options.invoiceDir && !this.options.headless) {
+      throw new ScraperError('Saving invoices needs a headless browser, start the scraper with headless set');
+    }
+
+    const toYear = options.toYear ?? new Date().getFullYear();
+    const scrapeOptions: ScrapeOptions = {
+      ...options,
+      toYear,
+      fromYear: options.fromYear ?? toYear - (SCRAPE_DEFAULTS.YEARS_BACK - 1),
+      maxOrders: options.maxOrders === undefined ? SCRAPE_DEFAULTS.MAX_ORDERS : options.maxOrders
+    };
+
+    const result = await this.scrapeOrders(page, scrapeOptions);
+    this.progress({ type: 'orders:done', count: result.orders.length });
+
+    if (scrapeOptions.details) {
+      logger.step('order-details');
+      const stats = await scrapeOrderDetails(page.context(), result.orders, {
+        concurrency: scrapeOptions.detailsConcurrency ?? SCRAPE_DEFAULTS.DETAILS_CONCURRENCY,
+        maxPages: scrapeOptions.maxDetailPages === undefined ? SCRAPE_DEFAULTS.MAX_DETAIL_PAGES : scrapeOptions.maxDetailPages
+      });
+      this.progress({ type: 'details:done', stats });
+    }
+
+    if (scrapeOptions.invoiceDir) {
+      logger.step('invoices');
+      const stats = await downloadInvoices(page.context(), result.orders, scrapeOptions.invoiceDir);
+      this.progress({ type: 'invoices:done', stats });
+    }
+    return result;
+  }
+
+  /**
+   * Walk the order history year by year
+   * @param page Logged-in page
+   * @param options Complete scrape options
+   * @returns Orders found and per-year statistics
+   */
+  private async scrapeOrders(page: Page, options: ScrapeOptions): Promise<ScrapeResult> {
+    // Navigate to order history
+    logger.step('order-history');
+    logger.info('Navigating to order history page...');
+    try {
+      await navigateToOrderHistory(page);
+    } catch (error) {
+      if (!(error instanceof NavigationTimeoutError)) {
+        throw error;
+      }
+      logger.error(`Failed to navigate to order history: ${error.message}`);
+
+      // Take a screenshot to see the current state
+      await captureDiagnostics(page, 'orders-page-state');
+
+      // Check URL to see if we might be on orders page despite detection failure
+      const currentUrl = page.url();
+      logger.info(`Current URL: ${currentUrl}`);
+
+      const possibleOrderUrls = [
+        'order-history',
+        'your-orders',
+        'gp/css/order-history',
+        'gp/your-account/order-history'
+      ];
+
+      const mightBeOnOrdersPage = possibleOrderUrls.some(urlPart => currentUrl.includes(urlPart));
+
+      if (mightBeOnOrdersPage) {
+        logger.info('URL suggests we might be on the orders page, proceeding with extraction attempt...');
+        const orders = filterOrdersByPurchaseType(
+          filterOrdersByDate(await extractOrders(page), options.since, options.until),
+          options.purchaseTypes
+        );
+        logger.info(`Extracted ${orders.length} order(s) from the current page`);
+        return { orders, years: [] };
+      }
+
+      throw error;
+    }
+
+    const result: ScrapeResult = { orders: [], years: [] };
+    const ordersCollected = result.orders;
+    const limitReached = () => options.maxOrders !== null && ordersCollected.length >= options.maxOrders;
+
+    // Never walk past the bounds of the requested date range
+    const newestYear = options.until ? Math.min(options.toYear, parseInt(options.until.slice(0, 4), 10)) : options.toYear;
+    const oldestYear = options.since ? Math.max(options.fromYear, parseInt(options.since.slice(0, 4), 10)) : options.fromYear;
+
+    // Iterate through years, newest first, until we have enough orders or reach the oldest year
+    for (let year = newestYear; year >= oldestYear && !limitReached(); year--) {
+      logger.step(`year-${year}`);
+      this.progress({ type: 'year:start', year });
+
+      // Walk every page of the year, collecting no more than the remaining limit
+      const remaining = options.maxOrders === null ? null : options.maxOrders - ordersCollected.length;
+      const { orders, stats, reachedKnownOrders } = await scrapeOrderYear(page, year, {
+        limit: remaining,
+        since: options.since,
+        until: options.until,
+        knownOrderKeys: options.knownOrderKeys,
+        purchaseTypes: options.purchaseTypes
+      });
+
+      // Add orders to our collection
+      ordersCollected.push(...orders);
+      result.years.push(stats);
+      this.progress({ type: 'year:done', stats });
+
+      // Everything older was already scraped by a previous run
+      if (reachedKnownOrders) {
+        break;
+      }
+    }
+
+    // Later passes only fill what is left of the limit; merging may reorder, so trim to the newest
+    const remainingLimit = () => options.maxOrders === null ? null : Math.max(0, options.maxOrders - result.orders.length);
+    const mergeWithinLimit = (orders: Order[]) => {
+      const merged = mergeOrders(result.orders, orders);
+      return options.maxOrders === null ? merged : merged.slice(0, options.maxOrders);
+    };
+
+    if (options.digital || needsDigitalOrders(options.purchaseTypes)) {
+      const digital = await this.scrapeDigitalOrders(page, options, remainingLimit(), newestYear, oldestYear);
+      result.orders = mergeWithinLimit(digital);
+      this.progress({ type: 'digital:done', count: digital.length });
+    }
+
+    if (options.cancelled && remainingLimit() !== 0) {
+      logger.step('cancelled-orders');
+      // The filter lists every year, so it is bounded by the years walked above
+      const firstDay = `${oldestYear}-01-01`;
+      const lastDay = `${newestYear}-12-31`;
+      const cancelled = await scrapeCancelledOrders(page, {
+        limit: remainingLimit(),
+        since: options.since && options.since > firstDay ? options.since : firstDay,
+        until: options.until && options.until < lastDay ? options.until : lastDay,
+        purchaseTypes: options.purchaseTypes
+      });
+      // Cancelled orders also listed under their year are replaced, as the filter tells more about them
+      result.orders = mergeWithinLimit(cancelled);
+      this.progress({ type: 'cancelled:done', count: cancelled.length });
+    }
+
+    return result;
+  }
+
+  /**
+   * Walk the digital orders view year by year, which lists the video, Kindle
+   * and other digital purchases the default order history may leave out
+   * @param page Logged-in page
+   * @param options Complete scrape options
+   * @param limit Maximum number of orders to collect, or null for all
+   * @param newestYear First year to walk
+   * @param oldestYear Last year to walk
+   * @returns Digital orders found, up to the limit
+   */
+  private async scrapeDigitalOrders(page: Page, options: ScrapeOptions, limit: number | null, newestYear: number, oldestYear: number): Promise<Order[]> {
+    const orders: Order[] = [];
+    for (let year = newestYear; year >= oldestYear; year--) {
+      if (limit !== null && orders.length >= limit) {
+        break;
+      }
+      logger.step(`digital-${year}`);
+      const remaining = limit === null ? null : limit - orders.length;
+      const result = await scrapeOrderYear(page, year, {
+        limit: remaining,
+        since: options.since,
+        until: options.until,
+        knownOrderKeys: options.knownOrderKeys,
+        purchaseTypes: options.purchaseTypes,
+        view: 'digital'
+      });
+      orders.push(...result.orders);
+      if (result.reachedKnownOrders) {
+        break;
+      }
+    }
+    return orders;
+  }
+
+  /**
+   * Close the browser, first saving the recording if the run is recorded.
+   * Safe to call more than once.
+   */
+  async close(): Promise<void> {
+    const browser = this.browser;
+    const page = this.currentPage;
+    const recording = this.recording;
+    this.browser = null;
+    this.currentPage = null;
+    this.recording = null;
+    this.loggedIn = false;
+    if (recording && page) {
+      try {
+        await finishRecording(page.context(), recording.dir, recording.sessionRestored);
+      } catch (error) {
+        logger.error('Could not save the recording:', error);
+      }
+    }
+    if (browser) {
+      await browser.close();
+    }
+    endDiagnosticsRun();
+  }
+}
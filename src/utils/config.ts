@@ -1,14 +1,11 @@
 /**
  * Configuration constants for the scraper
  */
+import { MARKETPLACES, buildMarketplaceUrls, setActiveMarketplace } from './marketplace';
+import { MarketplaceId } from './types';
 
-// URLs
-export const URLS = {
-  LOGIN: 'https://www.amazon.in/ap/signin?openid.pape.max_auth_age=0&openid.return_to=https%3A%2F%2Fwww.amazon.in%2F%3Fref_%3Dnav_signin&openid.identity=http%3A%2F%2Fspecs.openid.net%2Fauth%2F2.0%2Fidentifier_select&openid.assoc_handle=inflex&openid.mode=checkid_setup&openid.claimed_id=http%3A%2F%2Fspecs.openid.net%2Fauth%2F2.0%2Fidentifier_select&openid.ns=http%3A%2F%2Fspecs.openid.net%2Fauth%2F2.0',
-  ORDER_HISTORY: 'https://www.amazon.in/gp/css/order-history',
-  ORDER_HISTORY_YEAR: (year: number) => `https://www.amazon.in/your-orders/orders?timeFilter=year-${year}`,
-  BASE_URL: 'https://www.amazon.in'
-};
+// URLs, pointed at amazon.in until another marketplace is selected
+export const URLS = buildMarketplaceUrls(MARKETPLACES.in);
 
 // Selectors
 export const SELECTORS = {
@@ -18,6 +15,7 @@ export const SELECTORS = {
     PASSWORD_FIELD: '#ap_password',
     SIGN_IN_BUTTON: '#signInSubmit',
     INVALID_MOBILE_ERROR: '.a-alert-content:has-text("Invalid mobile number")',
+    INCORRECT_PASSWORD_ERROR: '.a-alert-content:has-text("Your password is incorrect")',
     ALERT_CONTENT: '.a-alert-content',
     ERROR_CONTAINER: '.a-alert-content, .a-box-inner .a-alert-container',
     AUTH_WORKFLOW: '#ap_password, #ap_email, .auth-workflow'
@@ -61,6 +59,28 @@ export const SELECTORS = {
       'enter the otp',
       'sent to your mobile'
     ],
+    // Wording that tells an authenticator-app prompt apart from a code sent by SMS
+    TOTP_TEXT_INDICATORS: [
+      'authenticator app',
+      'authenticator application',
+      'generated by your authenticator'
+    ],
+    SMS_TEXT_INDICATORS: [
+      'to your mobile',
+      'sent a text',
+      'text message',
+      'sent an otp',
+      'we texted',
+      'mobile number ending'
+    ],
+    // Alerts asking to wait before another code can be requested or entered
+    OTP_THROTTLED_TEXT_INDICATORS: [
+      'wait 60 seconds',
+      'too many attempts',
+      'exceeded the maximum number',
+      'try again later'
+    ],
+    RESEND_CODE_LINK: '#auth-get-new-otp-link, a:has-text("Resend OTP"), a:has-text("Resend code")',
     MFA_SELECTORS: [
       '#auth-mfa-otpcode',
       '.auth-mfa-form',
@@ -96,13 +116,96 @@ export const SELECTORS = {
       '.time-filter-dropdown',
       '#nav-orders'
     ],
+    ORDER_COUNT: '.num-orders',
     ORDER_CARD: '.order-card.js-order-card',
     BOX_GROUP: '.a-box-group',
     PRICE_ELEMENT: '.a-column.a-span2 .a-size-base',
     DATE_ELEMENT: '.a-column.a-span3 .a-size-base',
     DELIVERY_BOX: '.a-box.delivery-box',
     PRODUCT_TITLE: '.yohtmlc-product-title a',
-    MOVIE_ITEM: '.yohtmlc-item a'
+    MOVIE_ITEM: '.yohtmlc-item a',
+    ORDER_ID: '.yohtmlc-order-id',
+    ORDER_DETAILS_LINK: 'a.yohtmlc-order-details-link, a[href*="order-details"]',
+    INVOICE_LINK: 'a[href*="invoice"]',
+    ITEM_IMAGE: '.product-image img, .yohtmlc-item img',
+    ITEM_QUANTITY: '.product-image__qty, .item-view-qty',
+    ITEM_DETAIL_LINE: '.yohtmlc-item .a-size-small, .yohtmlc-item .a-row',
+    DELIVERY_STATUS: '.delivery-box__primary-text, .yohtmlc-shipment-status-primaryText',
+    STATUS_DETAIL: '.delivery-box__secondary-text, .yohtmlc-shipment-status-secondaryText',
+    PAGINATION: '.a-pagination',
+    PAGINATION_NEXT: '.a-pagination .a-last a',
+    PAGINATION_LAST_DISABLED: '.a-pagination .a-last.a-disabled'
+  },
+  // Order details page, opened for each order in --details mode
+  ORDER_DETAILS: {
+    PAGE_INDICATOR: '#orderDetails, #od-subtotals, [data-component="orderDetails"]',
+    SUMMARY_LINE: '#od-subtotals .a-row, [data-component="chargeSummary"] .od-line-item-row',
+    SUMMARY_LABEL: '.a-span7, .od-line-item-row-label',
+    SUMMARY_VALUE: '.a-span5, .od-line-item-row-content',
+    ITEM: '.yohtmlc-item, [data-component="purchasedItems"] .a-fixed-left-grid',
+    ITEM_TITLE: '.yohtmlc-product-title a, [data-component="itemTitle"] a, a.a-link-normal[href*="/dp/"]',
+    ITEM_PRICE: '.a-color-price, [data-component="unitPrice"] .a-offscreen',
+    ITEM_QUANTITY: '.item-view-qty, .od-item-view-qty',
+    PAYMENT_METHOD: '.pmts-payments-instrument-detail-box-paystationpaymentmethod, .pmts-payments-instrument-details',
+    SHIPPING_ADDRESS: '.displayAddressDiv li, [data-component="shippingAddress"] li'
+  },
+  // Links and wording that tell the type of a purchase, matched against the
+  // product links and the text of its order card; see classifyPurchase
+  PURCHASE_TYPE: {
+    GIFT_CARD_TEXT_INDICATORS: ['gift card', 'egift', 'geschenkkarte', 'geschenkgutschein'],
+    SUBSCRIPTION_TEXT_INDICATORS: [
+      'subscribe & save',
+      'subscribe and save',
+      'subscription',
+      'membership',
+      'kindle unlimited',
+      'spar-abo',
+      'abonnement',
+      'mitgliedschaft'
+    ],
+    VIDEO_LINKS: ['/gp/video/', '/video/detail/'],
+    VIDEO_TEXT_INDICATORS: ['prime video'],
+    GROCERY_LINKS: ['/alm/', '/fresh/'],
+    GROCERY_TEXT_INDICATORS: ['amazon fresh', 'amazon pantry', 'whole foods'],
+    DIGITAL_LINKS: ['/kindle-dbs/', '/digital/', '/music/player'],
+    DIGITAL_TEXT_INDICATORS: ['kindle edition', 'kindle-ausgabe', 'ebook', 'audible', 'digital music', 'mp3 music', 'digital order']
+  },
+  // Invoice popover of an order card, and the pages it links to
+  INVOICE: {
+    PDF_LINK: 'a[href*="/documents/download/"], a[href*=".pdf"]',
+    PRINT_LINK: 'a[href*="print.html"], a[href*="/invoice/print"]'
+  },
+  // Challenges only a person can solve; any visible selector or text indicator counts
+  CHALLENGE: {
+    CAPTCHA_SELECTORS: [
+      '#auth-captcha-image',
+      '#captchacharacters',
+      'input[name="guess"]',
+      'form[action*="validateCaptcha"]'
+    ],
+    CAPTCHA_TEXT_INDICATORS: [
+      'enter the characters you see',
+      'type the characters you see',
+      'characters as they are shown'
+    ],
+    PUZZLE_SELECTORS: [
+      'iframe[src*="arkoselabs"]',
+      '#cvf-arkose-frame',
+      '#aa-challenge-whole-page-iframe'
+    ],
+    PUZZLE_TEXT_INDICATORS: [
+      'solve this puzzle',
+      'solve the puzzle'
+    ],
+    DEVICE_APPROVAL_SELECTORS: [
+      '#resend-approval-link',
+      'form[action*="transactionapproval"]'
+    ],
+    DEVICE_APPROVAL_TEXT_INDICATORS: [
+      'approve the notification',
+      'approve the sign-in',
+      'waiting for your approval'
+    ]
   }
 };
 
@@ -117,5 +220,60 @@ export const TIMEOUTS = {
   ORDER_PAGE_CHECK: 3000,
   ORDER_PAGE_LOAD: 30000,
   YEAR_NAVIGATION: 5000,
-  ORDER_CONTENT: 8000
-}; 
\ No newline at end of file
+  ORDER_CONTENT: 8000,
+  CHALLENGE_SOLVE: 300000, // How long to wait for the user to solve a challenge in the browser
+  CHALLENGE_POLL: 2000,
+  ORDER_DETAILS_DELAY: 1500, // Pause between details pages opened by the same worker
+  INVOICE_DELAY: 1500 // Pause between invoices
+};
+
+// Files
+export const FILES = {
+  SESSION_STATE: 'amazon-session.json',
+  ORDER_OUTPUT: 'order-history-extract.json',
+  SYNC_STATE: 'order-sync-state.json',
+  HEALTH_REPORT: 'selector-health-report.json',
+  SPENDING_REPORT: 'spending-report.html',
+  DIAGNOSTICS_DIR: 'diagnostics',
+  RECORDING_HAR: 'recording.har',
+  RECORDING_TRACE: 'trace.zip',
+  INVOICE_DIR: 'invoices'
+};
+
+// Scrape defaults
+export const SCRAPE_DEFAULTS = {
+  MAX_ORDERS: 10,
+  YEARS_BACK: 5,
+  ORDERS_PER_PAGE: 10,
+  MAX_PAGES_PER_YEAR: 100,
+  DETAILS_CONCURRENCY: 2,
+  MAX_DETAIL_PAGES: 100
+};
+
+// Report defaults
+export const REPORT_DEFAULTS = {
+  TOP_PRODUCTS: 10,
+  PRODUCT_NAME_WIDTH: 50 // Longer product names are cut short in terminal tables
+};
+
+// Server defaults
+export const SERVER_DEFAULTS = {
+  HOST: '127.0.0.1', // Jobs carry credentials, so only local clients by default
+  PORT: 3000,
+  LOCAL_HOSTS: ['localhost', '127.0.0.1', '[::1]'], // Host headers accepted whatever the address listened on
+  TOKEN_BYTES: 24, // Length of the token generated when AMAZON_SCRAPER_TOKEN is not set
+  INPUT_TIMEOUT: 600000, // How long a job waits for credentials or an OTP before it fails
+  MAX_BODY_BYTES: 65536,
+  MAX_FINISHED_JOBS: 50 // Older completed and failed jobs are forgotten
+};
+
+/**
+ * Point URLS and the text-based login selectors at a marketplace
+ * @param id Marketplace to scrape
+ */
+export function selectMarketplace(id: MarketplaceId): void {
+  const marketplace = setActiveMarketplace(id);
+  Object.assign(URLS, buildMarketplaceUrls(marketplace));
+  SELECTORS.LOGIN.INVALID_MOBILE_ERROR = `.a-alert-content:has-text("${marketplace.loginTexts.invalidMobile}")`;
+  SELECTORS.LOGIN.INCORRECT_PASSWORD_ERROR = `.a-alert-content:has-text("${marketplace.loginTexts.incorrectPassword}")`;
+}
\ No newline at end of file
@@ -0,0 +1,150 @@
+/**
+ * Parsing of order date strings into ISO-8601 dates
+ */
+import { Order } from './types';
+import { getMarketplace } from './marketplace';
+
+/**
+ * English month names and abbreviations as shown on order pages, mapped to month
+ * numbers. Marketplaces in other languages add their own names on top.
+ */
+const MONTHS: Record<string, number> = {
+  january: 1, jan: 1,
+  february: 2, feb: 2,
+  march: 3, mar: 3,
+  april: 4, apr: 4,
+  may: 5,
+  june: 6, jun: 6,
+  july: 7, jul: 7,
+  august: 8, aug: 8,
+  september: 9, sep: 9, sept: 9,
+  october: 10, oct: 10,
+  november: 11, nov: 11,
+  december: 12, dec: 12
+};
+
+/**
+ * Build an ISO date string, rejecting impossible dates such as 31 February
+ * @returns Date in YYYY-MM-DD format or null if invalid
+ */
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse an order date such as "12 March 2024", "March 12, 2024", "12 Mar 2024" or "12. März 2024"
+ * @param text Date text as shown on the order page
+ * @param marketplace Marketplace whose month names to accept besides English ones
+ * @returns Date in YYYY-MM-DD format or null if the text is not a date (e.g. "N/A")
+ */
+export function parseOrderDate(text: string, marketplace = getMarketplace()): string | null {
+  const months: Record<string, number> = { ...MONTHS, ...marketplace.months };
+  const value = (text || '').trim().toLowerCase().replace(/^(order placed|bestellung aufgegeben)\s*/, '');
+  if (!value || value === 'n/a') {
+    return null;
+  }
+
+  // Already an ISO date
+  const isoMatch = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (isoMatch) {
+    return toIsoDate(+isoMatch[1], +isoMatch[2], +isoMatch[3]);
+  }
+
+  // Day first: "12 March 2024"
+  const dayFirst = value.match(/^(\d{1,2})\.?\s+(\p{L}+)\.?,?\s+(\d{4})$/u);
+  if (dayFirst && months[dayFirst[2]]) {
+    return toIsoDate(+dayFirst[3], months[dayFirst[2]], +dayFirst[1]);
+  }
+
+  // Month first: "March 12, 2024"
+  const monthFirst = value.match(/^(\p{L}+)\.?\s+(\d{1,2}),?\s+(\d{4})$/u);
+  if (monthFirst && months[monthFirst[1]]) {
+    return toIsoDate(+monthFirst[3], months[monthFirst[1]], +monthFirst[2]);
+  }
+
+  return null;
+}
+
+/**
+ * Check if a string is a valid YYYY-MM-DD date
+ * @param value Date string to check
+ * @returns Boolean indicating if the date is valid
+ */
+export function isIsoDate(value: string): boolean {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return !!match && toIsoDate(+match[1], +match[2], +match[3]) !== null;
+}
+
+/**
+ * Check if an ISO date lies within an inclusive date range
+ * @param date Date in YYYY-MM-DD format
+ * @param since Lower bound in YYYY-MM-DD format, if any
+ * @param until Upper bound in YYYY-MM-DD format, if any
+ * @returns Boolean indicating if the date is within the range
+ */
+export function isWithinDateRange(date: string, since?: string, until?: string): boolean {
+  // ISO dates compare correctly as strings
+  return (!since || date >= since) && (!until || date <= until);
+}
+
+/**
+ * Drop orders placed outside a date range. Orders whose date could not be
+ * parsed are kept, as there is no way to tell which side of the range they fall on.
+ * @param orders Orders to filter
+ * @param since Lower bound in YYYY-MM-DD format, if any
+ * @param until Upper bound in YYYY-MM-DD format, if any
+ * @returns Orders within the range
+ */
+export function filterOrdersByDate(orders: Order[], since?: string, until?: string): Order[] {
+  if (!since && !until) {
+    return orders;
+  }
+  return orders.filter(order => !order.orderDateIso || isWithinDateRange(order.orderDateIso, since, until));
+}
+
+/**
+ * Parse the date in an item status headline such as "Delivered 15 March",
+ * "Arriving Mar 18" or "Zugestellt am 3. Februar". Headlines usually leave
+ * out the year, which is taken to be the first one on or after the order date.
+ * @param text Status headline as shown on the order card
+ * @param orderDateIso Date the order was placed, in YYYY-MM-DD format
+ * @param marketplace Marketplace whose month names to accept besides English ones
+ * @returns Date in YYYY-MM-DD format, or null if the headline has no date
+ *   (e.g. "Arriving tomorrow") or its year cannot be told
+ */
+export function parseStatusDate(text: string, orderDateIso: string | null, marketplace = getMarketplace()): string | null {
+  const months: Record<string, number> = { ...MONTHS, ...marketplace.months };
+  const value = (text || '').toLowerCase();
+  const patterns = [
+    // Day first: "15 March", "3. Feb. 2024"
+    { regex: /\b(\d{1,2})\.?\s+(\p{L}+)\.?(?:,?\s+(\d{4}))?/gu, day: 1, month: 2 },
+    // Month first: "March 15", "Mar 15, 2024"
+    { regex: /(\p{L}+)\.?\s+(\d{1,2})\b(?:,?\s+(\d{4}))?/gu, day: 2, month: 1 }
+  ];
+
+  for (const pattern of patterns) {
+    for (const match of value.matchAll(pattern.regex)) {
+      const month = months[match[pattern.month]];
+      if (!month) {
+        continue;
+      }
+
+      const day = +match[pattern.day];
+      if (match[3]) {
+        return toIsoDate(+match[3], month, day);
+      }
+      if (!orderDateIso) {
+        return null;
+      }
+      // A status date never comes before the order, so an earlier one is in the following year
+      const orderYear = +orderDateIso.slice(0, 4);
+      const date = toIsoDate(orderYear, month, day);
+      return date && date < orderDateIso ? toIsoDate(orderYear + 1, month, day) : date;
+    }
+  }
+  return null;
+}
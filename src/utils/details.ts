@@ -0,0 +1,308 @@
+/**
+ * Deep mode: item prices, charges, payment and shipping from each order's details page
+ */
+import { BrowserContext, Page } from 'playwright';
+import { URLS, SELECTORS, TIMEOUTS } from './config';
+import { getMarketplace } from './marketplace';
+import { createMoney, parseMoney } from './money';
+import { logger } from './logger';
+import { captureDiagnostics } from './diagnostics';
+import { assertNoChallenge } from './challenge';
+import { CaptchaChallengeError, toNavigationError } from './errors';
+import {
+  Money,
+  Order,
+  OrderDetails,
+  OrderDetailsOptions,
+  OrderDetailsPageContent,
+  OrderDetailsStats,
+  OrderItem,
+  OrderSummaryLabels,
+  PaymentMethod
+} from './types';
+
+/**
+ * Tell what a line of the order summary is from its label
+ * @param label Label of the line, e.g. "Item(s) Subtotal:"
+ * @param amount Parsed amount of the line; negative amounts are promotions
+ * @param labels Label words of the marketplace, by default the active one's
+ * @returns Kind of line, or null for lines that repeat other ones such as "Total before tax"
+ */
+export function classifySummaryLine(
+  label: string,
+  amount: Money | null,
+  labels: OrderSummaryLabels = getMarketplace().summaryLabels
+): keyof OrderSummaryLabels | null {
+  const text = label.toLowerCase();
+  const mentions = (words: string[]) => words.some(word => text.includes(word));
+
+  // Checked most specific first: "Free Shipping" is a promotion, not a shipping charge,
+  // and a refund is not a promotion although it may be shown as a negative amount
+  if (mentions(labels.refund)) return 'refund';
+  if (mentions(labels.grandTotal)) return 'grandTotal';
+  if (mentions(labels.subtotal)) return 'subtotal';
+  if (mentions(labels.promotion) || (amount && amount.amount < 0)) return 'promotion';
+  if (mentions(labels.shipping)) return 'shipping';
+  if (mentions(labels.tax)) return 'tax';
+  return null;
+}
+
+/**
+ * Read the payment method, keeping no more of a card number than its last four digits
+ * @param text Payment method as shown, e.g. "Visa ending in 1234"
+ * @returns Payment method, or null if none is shown
+ */
+export function parsePaymentMethod(text: string): PaymentMethod | null {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (!normalized) {
+    return null;
+  }
+
+  const match = normalized.match(/(?:ending (?:in|with)|endet (?:mit|auf)|[*•xX]{2,})\s*(\d{4})\b/);
+  const type = (match ? normalized.slice(0, match.index) : normalized)
+    .replace(/\d/g, '')
+    .replace(/[\s:|*•-]+$/, '')
+    .trim();
+  return { type: type || 'Card', lastFour: match ? match[1] : null };
+}
+
+/**
+ * Add an amount to a running sum
+ * @param sum Sum so far, or null for none
+ * @param money Amount to add
+ * @returns New sum, whose raw text is the formatted amount as no single line shows it
+ */
+function addMoney(sum: Money | null, money: Money): Money {
+  if (!sum) {
+    return money;
+  }
+  return createMoney(sum.amount + money.amount, sum.currency);
+}
+
+/**
+ * Parse the text of an order details page
+ * @param content Text read by extractOrderDetails
+ * @param defaultCurrency Currency of amounts without a symbol, by default the marketplace's
+ * @returns Charges, payment and shipping of the order
+ */
+export function parseOrderDetails(content: OrderDetailsPageContent, defaultCurrency?: string): OrderDetails {
+  const details: OrderDetails = {
+    subtotal: null,
+    shipping: null,
+    tax: null,
+    discounts: null,
+    promotions: [],
+    grandTotal: null,
+    refundTotal: null,
+    paymentMethod: parsePaymentMethod(content.paymentMethod),
+    shippingAddress: content.shippingAddress.length > 0 ? content.shippingAddress : null
+  };
+
+  for (const line of content.summary) {
+    const amount = parseMoney(line.value, defaultCurrency);
+    if (!amount) {
+      continue;
+    }
+    switch (classifySummaryLine(line.label, amount)) {
+      case 'refund':
+        // Refunds are kept positive, they are subtracted from the total by getOrderNetTotal
+        details.refundTotal = addMoney(details.refundTotal, { ...amount, amount: Math.abs(amount.amount) });
+        break;
+      case 'grandTotal':
+        details.grandTotal = details.grandTotal || amount;
+        break;
+      case 'subtotal':
+        details.subtotal = details.subtotal || amount;
+        break;
+      case 'promotion': {
+        // Some pages show promotions without a minus sign
+        const discount = { ...amount, amount: -Math.abs(amount.amount) };
+        details.promotions.push({ label: line.label.replace(/:\s*$/, ''), amount: discount });
+        details.discounts = addMoney(details.discounts, discount);
+        break;
+      }
+      case 'shipping':
+        details.shipping = addMoney(details.shipping, amount);
+        break;
+      case 'tax':
+        details.tax = addMoney(details.tax, amount);
+        break;
+    }
+  }
+  return details;
+}
+
+/**
+ * Get the ASIN of a product link
+ * @param link Product link
+ * @returns ASIN, or null for links without one
+ */
+function asinOf(link: string | undefined): string | null {
+  const match = link ? link.match(/\/(?:dp|gp\/product)\/([A-Z0-9]{10})/) : null;
+  return match ? match[1] : null;
+}
+
+/**
+ * Add what the details page shows to an order: its charges, payment and
+ * shipping, and the price of each item. Items are matched on their product
+ * link, then their name; items the order card did not list are appended.
+ * @param order Order to update in place
+ * @param content Text read from the order's details page
+ */
+export function applyOrderDetails(order: Order, content: OrderDetailsPageContent): void {
+  const currency = order.total ? order.total.currency : undefined;
+  order.details = parseOrderDetails(content, currency);
+
+  for (const detailsItem of content.items) {
+    const asin = asinOf(detailsItem.link);
+    const name = detailsItem.productName.trim().toLowerCase();
+    let item: OrderItem | undefined = order.items.find(candidate => asin !== null && asinOf(candidate.link) === asin)
+      || order.items.find(candidate => candidate.productName.trim().toLowerCase() === name);
+    if (!item) {
+      item = { productName: detailsItem.productName };
+      if (detailsItem.link) item.link = detailsItem.link;
+      order.items.push(item);
+    }
+
+    const price = parseMoney(detailsItem.price, currency);
+    if (price) item.price = price;
+    if (item.quantity === undefined && detailsItem.quantity !== undefined) item.quantity = detailsItem.quantity;
+  }
+}
+
+/**
+ * Read the summary, items, payment method and shipping address of the order details page
+ * @param page Playwright page showing an order's details
+ * @returns Text of the page's parts, unparsed
+ */
+export async function extractOrderDetails(page: Page): Promise<OrderDetailsPageContent> {
+  return page.evaluate(({ selectors, baseUrl }) => {
+    // Read the whitespace-normalized text of an element
+    const textOf = (element: Element | null): string =>
+      element && element.textContent ? element.textContent.trim().replace(/\s+/g, ' ') : '';
+
+    const summary = Array.from(document.querySelectorAll(selectors.SUMMARY_LINE))
+      .map(line => ({
+        label: textOf(line.querySelector(selectors.SUMMARY_LABEL)),
+        value: textOf(line.querySelector(selectors.SUMMARY_VALUE))
+      }))
+      .filter(line => line.label && line.value);
+
+    const items: OrderDetailsPageContent['items'] = [];
+    for (const root of Array.from(document.querySelectorAll(selectors.ITEM))) {
+      const title = root.querySelector(selectors.ITEM_TITLE);
+      if (!title || !textOf(title)) continue;
+
+      const href = title.getAttribute('href');
+      const item: OrderDetailsPageContent['items'][number] = {
+        productName: textOf(title),
+        price: textOf(root.querySelector(selectors.ITEM_PRICE))
+      };
+      if (href) item.link = href.startsWith('http') ? href : `${baseUrl}${href}`;
+      const quantity = parseInt(textOf(root.querySelector(selectors.ITEM_QUANTITY)), 10);
+      if (!isNaN(quantity)) item.quantity = quantity;
+      items.push(item);
+    }
+
+    // Card brands are often only shown as a logo
+    const payment = document.querySelector(selectors.PAYMENT_METHOD);
+    let paymentMethod = textOf(payment);
+    const brand = payment ? payment.querySelector('img')?.getAttribute('alt') : null;
+    if (brand && !paymentMethod.toLowerCase().includes(brand.toLowerCase())) {
+      paymentMethod = `${brand} ${paymentMethod}`.trim();
+    }
+
+    const shippingAddress = Array.from(document.querySelectorAll(selectors.SHIPPING_ADDRESS))
+      .map(line => textOf(line))
+      .filter(line => line);
+
+    return { summary, items, paymentMethod, shippingAddress };
+  }, { selectors: SELECTORS.ORDER_DETAILS, baseUrl: URLS.BASE_URL });
+}
+
+/**
+ * Open an order's details page and read it
+ * @param page Page to open it in
+ * @param url Details page URL
+ * @returns Text of the page's parts, unparsed
+ * @throws NavigationTimeoutError if the page does not load, CaptchaChallengeError if Amazon shows a challenge instead
+ */
+async function openOrderDetails(page: Page, url: string): Promise<OrderDetailsPageContent> {
+  try {
+    await page.goto(url, { waitUntil: 'load', timeout: TIMEOUTS.ORDER_PAGE_LOAD });
+  } catch (error) {
+    throw toNavigationError(error, 'the order details page');
+  }
+  await assertNoChallenge(page);
+  try {
+    await page.waitForSelector(SELECTORS.ORDER_DETAILS.PAGE_INDICATOR, { timeout: TIMEOUTS.ORDER_CONTENT });
+  } catch (error) {
+    throw toNavigationError(error, 'the order details');
+  }
+  return extractOrderDetails(page);
+}
+
+/**
+ * Open the details page of each order and add its item prices, charges,
+ * payment and shipping to the order. Pages are opened by a few workers in
+ * their own tabs, pausing between pages; orders whose page fails are logged
+ * and left as they are. A challenge stops all workers, as more requests
+ * would only make Amazon more suspicious.
+ * @param context Logged-in browser context
+ * @param orders Orders to update in place
+ * @param options Number of pages open at once and the most pages to open
+ * @returns How many orders were scraped, failed or skipped
+ */
+export async function scrapeOrderDetails(
+  context: BrowserContext,
+  orders: Order[],
+  options: OrderDetailsOptions
+): Promise<OrderDetailsStats> {
+  const withLinks = orders.filter(order => order.detailsLink);
+  const queue = options.maxPages === null ? withLinks : withLinks.slice(0, options.maxPages);
+  const stats: OrderDetailsStats = { scraped: 0, failed: 0, skipped: orders.length - queue.length };
+  if (queue.length < withLinks.length) {
+    logger.warn(`Only opening the details of ${queue.length} of ${withLinks.length} orders, raise the page limit for more`);
+  }
+  if (queue.length === 0) {
+    return stats;
+  }
+
+  let next = 0;
+  let stopped = false;
+  const worker = async (): Promise<void> => {
+    const page = await context.newPage();
+    try {
+      for (let visited = 0; !stopped && next < queue.length; visited++) {
+        const order = queue[next++];
+        const label = order.orderId || order.detailsLink;
+        if (visited > 0) {
+          await page.waitForTimeout(TIMEOUTS.ORDER_DETAILS_DELAY);
+        }
+
+        try {
+          logger.debug(`Opening the details of order ${label}`);
+          applyOrderDetails(order, await openOrderDetails(page, order.detailsLink as string));
+          stats.scraped++;
+        } catch (error) {
+          stats.failed++;
+          logger.warn(`Could not read the details of order ${label}: ${(error as Error).message}`);
+          await captureDiagnostics(page, `order-details-${order.orderId || 'unknown'}`);
+          if (error instanceof CaptchaChallengeError) {
+            logger.warn('Stopping, the remaining orders keep their summary only');
+            stopped = true;
+          }
+        }
+      }
+    } finally {
+      await page.close().catch(() => undefined);
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, options.concurrency), queue.length);
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  stats.skipped += queue.length - next;
+  logger.info(`Order details: ${stats.scraped} scraped, ${stats.failed} failed, ${stats.skipped} skipped`);
+  return stats;
+}
@@ -0,0 +1,134 @@
+/**
+ * Per-run diagnostics directory: screenshots, HTML dumps and a step timeline
+ */
+import fs from 'fs';
+import path from 'path';
+import { Page } from 'playwright';
+import { FILES } from './config';
+import { addLogListener, getLogStep, getRedactionPatterns, logger, redact } from './logger';
+import { DiagnosticsCapture, TimelineEntry } from './types';
+
+const TIMELINE_FILE = 'timeline.ndjson';
+
+// Account details Amazon shows that are not registered secrets: the name in
+// the "Hello, Jane" greeting and the last digits of the mobile number
+const MASKED_PAGE_TEXT = [/Hello,\s/, /ending in \d+/i];
+
+interface DiagnosticsRun {
+  dir: string;
+  captures: number;
+  removeListener: () => void;
+}
+
+let activeRun: DiagnosticsRun | null = null;
+
+/**
+ * Append an entry to the active run's timeline
+ * @param entry Timeline entry
+ */
+function appendTimeline(entry: TimelineEntry): void {
+  if (activeRun) {
+    fs.appendFileSync(path.join(activeRun.dir, TIMELINE_FILE), JSON.stringify(entry) + '\n');
+  }
+}
+
+/**
+ * Make a string safe to use in a file name
+ * @param value Step or label
+ * @returns Lowercase name with anything but letters, digits and dashes replaced
+ */
+function toFileName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '') || 'page';
+}
+
+/**
+ * Start collecting diagnostics in a new timestamped directory, so runs no
+ * longer overwrite each other's screenshots. Every log entry from now on is
+ * added to the run's timeline.
+ * @param baseDir Directory holding one subdirectory per run
+ * @returns Directory of the new run
+ */
+export function startDiagnosticsRun(baseDir: string = FILES.DIAGNOSTICS_DIR): string {
+  endDiagnosticsRun();
+
+  const dir = path.join(baseDir, new Date().toISOString().replace(/[:.]/g, '-'));
+  fs.mkdirSync(dir, { recursive: true });
+  activeRun = {
+    dir,
+    captures: 0,
+    removeListener: addLogListener(entry => appendTimeline({ type: 'log', ...entry }))
+  };
+  logger.info(`Writing diagnostics to ${dir}`);
+  return dir;
+}
+
+/**
+ * Stop collecting diagnostics for the current run, if any
+ */
+export function endDiagnosticsRun(): void {
+  if (activeRun) {
+    activeRun.removeListener();
+    activeRun = null;
+  }
+}
+
+/**
+ * Get the directory of the run diagnostics are collected for
+ * @returns Run directory, or null when no run is active
+ */
+export function getDiagnosticsDir(): string | null {
+  return activeRun ? activeRun.dir : null;
+}
+
+/**
+ * Save a screenshot and a redacted HTML dump of the page, named after the
+ * current step, and link them from the timeline. Does nothing when no
+ * diagnostics run is active.
+ * @param page Playwright page instance
+ * @param label What the capture shows, e.g. "after-password-submit"
+ * @returns The capture, or null when no run is active
+ */
+export async function captureDiagnostics(page: Page, label: string): Promise<DiagnosticsCapture | null> {
+  if (!activeRun) {
+    return null;
+  }
+
+  const run = activeRun;
+  run.captures++;
+  const step = getLogStep();
+  const baseName = `${String(run.captures).padStart(3, '0')}-${toFileName(step || 'run')}-${toFileName(label)}`;
+  const capture: DiagnosticsCapture = {
+    time: new Date().toISOString(),
+    step,
+    label,
+    url: redact(page.url()),
+    screenshot: null,
+    html: null
+  };
+
+  // A failed capture must never break the run it is meant to diagnose
+  try {
+    // Typed usernames, passwords and codes are masked out of the image, and so
+    // is any text that would be redacted from the HTML, such as the email
+    // echoed on the password page
+    await page.screenshot({
+      path: path.join(run.dir, `${baseName}.png`),
+      mask: [
+        page.locator('input:not([type="submit"]):not([type="button"]):not([type="hidden"])'),
+        ...[...getRedactionPatterns(), ...MASKED_PAGE_TEXT].map(pattern => page.getByText(pattern))
+      ]
+    });
+    capture.screenshot = `${baseName}.png`;
+  } catch (error) {
+    logger.debug(`Could not take screenshot ${baseName}.png:`, error);
+  }
+  try {
+    fs.writeFileSync(path.join(run.dir, `${baseName}.html`), redact(await page.content()));
+    capture.html = `${baseName}.html`;
+  } catch (error) {
+    logger.debug(`Could not save HTML ${baseName}.html:`, error);
+  }
+
+  appendTimeline({ type: 'capture', ...capture });
+  return capture;
+}
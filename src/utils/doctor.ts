@@ -0,0 +1,275 @@
+/**
+ * Selector health check: evaluates every selector in SELECTORS against the
+ * login, MFA, order, order details, invoice and challenge pages to spot markup
+ * drift before extraction degrades
+ */
+import fs from 'fs';
+import path from 'path';
+import { Page } from 'playwright';
+import { URLS, SELECTORS, TIMEOUTS } from './config';
+import { getMarketplace } from './marketplace';
+import { isSessionValid } from './session';
+import {
+  DoctorPageName,
+  SelectorCheck,
+  FallbackCheck,
+  PageHealthReport,
+  SelectorHealthReport
+} from './types';
+import { logger } from './logger';
+
+/**
+ * Sections of SELECTORS checked on each page
+ */
+const PAGE_SECTIONS: Record<DoctorPageName, Array<keyof typeof SELECTORS>> = {
+  login: ['LOGIN'],
+  mfa: ['MFA'],
+  orders: ['ORDERS', 'PURCHASE_TYPE'],
+  details: ['ORDER_DETAILS'],
+  invoice: ['INVOICE'],
+  challenge: ['CHALLENGE']
+};
+
+/**
+ * Fallback lists that are alternatives to each other: a page shows only one
+ * kind of challenge, so drift is only reported when none of them has a winner
+ */
+const ALTERNATIVE_FALLBACKS: Record<DoctorPageName, string[]> = {
+  login: [],
+  mfa: [],
+  orders: [],
+  details: [],
+  invoice: [],
+  challenge: ['CHALLENGE.CAPTCHA_SELECTORS', 'CHALLENGE.PUZZLE_SELECTORS', 'CHALLENGE.DEVICE_APPROVAL_SELECTORS']
+};
+
+/**
+ * Pages that cannot be reached without logging in or opening an order, so
+ * they are only checked from a snapshot
+ */
+const SNAPSHOT_ONLY_PAGES: DoctorPageName[] = ['mfa', 'details', 'invoice', 'challenge'];
+
+/**
+ * Selectors the scraper cannot work without on each page. Others, such as
+ * error alerts or invoice links, legitimately match nothing on many pages.
+ */
+const REQUIRED_SELECTORS: Record<DoctorPageName, string[]> = {
+  login: ['LOGIN.EMAIL_FIELD', 'LOGIN.CONTINUE_BUTTON'],
+  mfa: [],
+  orders: ['ORDERS.ORDER_CARD', 'ORDERS.BOX_GROUP', 'ORDERS.PRICE_ELEMENT', 'ORDERS.DATE_ELEMENT'],
+  details: ['ORDER_DETAILS.PAGE_INDICATOR', 'ORDER_DETAILS.SUMMARY_LINE', 'ORDER_DETAILS.ITEM'],
+  invoice: [],
+  challenge: []
+};
+
+/**
+ * Snapshot file expected for each page in the snapshot directory
+ */
+export const SNAPSHOT_FILES: Record<DoctorPageName, string> = {
+  login: 'login.html',
+  mfa: 'mfa.html',
+  orders: 'orders.html',
+  details: 'order-details.html',
+  invoice: 'invoice-popover.html',
+  challenge: 'challenge.html'
+};
+
+/**
+ * Count the nodes a selector matches and whether the first one is visible
+ * @param page Playwright page instance
+ * @param selectorPath Dotted path of the selector in SELECTORS
+ * @param selector Selector to evaluate
+ * @returns Result of the check
+ */
+async function checkSelector(page: Page, selectorPath: string, selector: string): Promise<SelectorCheck> {
+  try {
+    const count = await page.locator(selector).count();
+    const visible = count > 0 && await page.isVisible(selector);
+    return { path: selectorPath, selector, count, visible };
+  } catch (error) {
+    return { path: selectorPath, selector, count: 0, visible: false, error: (error as Error).message.split('\n')[0] };
+  }
+}
+
+/**
+ * Evaluate every selector of the page's SELECTORS sections against the loaded
+ * page. For fallback lists the winner is the first visible entry, as in auth.ts
+ * and navigation.ts; lists named *_TEXT_INDICATORS are matched against the page
+ * text, and lists named *_LINKS are link targets, each counted on its own.
+ * @param page Playwright page instance with the page to check loaded
+ * @param pageName Page being checked
+ * @param source URL or snapshot file the page was loaded from
+ * @returns Health report for the page
+ */
+export async function checkPageSelectors(page: Page, pageName: DoctorPageName, source: string): Promise<PageHealthReport> {
+  const report: PageHealthReport = { page: pageName, source, selectors: [], fallbacks: [], textIndicators: [] };
+  const pageText = ((await page.textContent('body').catch(() => null)) || '').toLowerCase();
+
+  for (const sectionName of PAGE_SECTIONS[pageName]) {
+    for (const [key, value] of Object.entries(SELECTORS[sectionName])) {
+      const keyPath = `${sectionName}.${key}`;
+
+      if (typeof value === 'string') {
+        report.selectors.push(await checkSelector(page, keyPath, value));
+        continue;
+      }
+
+      if (key.endsWith('_TEXT_INDICATORS')) {
+        for (const text of value) {
+          report.textIndicators.push({ path: keyPath, text, found: pageText.includes(text.toLowerCase()) });
+        }
+        continue;
+      }
+
+      if (key.endsWith('_LINKS')) {
+        for (const [index, fragment] of value.entries()) {
+          report.selectors.push(await checkSelector(page, `${keyPath}[${index}]`, `a[href*="${fragment}"]`));
+        }
+        continue;
+      }
+
+      const fallback: FallbackCheck = { path: keyPath, winner: null, winnerIndex: null };
+      for (const [index, selector] of value.entries()) {
+        const check = await checkSelector(page, `${keyPath}[${index}]`, selector);
+        report.selectors.push(check);
+        if (check.visible && fallback.winner === null) {
+          fallback.winner = selector;
+          fallback.winnerIndex = index;
+        }
+      }
+      report.fallbacks.push(fallback);
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Report for a page that could not be loaded
+ * @param pageName Page that was skipped
+ * @param reason Why it was skipped
+ * @returns Empty health report recording the reason
+ */
+function skippedPage(pageName: DoctorPageName, reason: string): PageHealthReport {
+  return { page: pageName, source: null, skipped: reason, selectors: [], fallbacks: [], textIndicators: [] };
+}
+
+/**
+ * Check saved HTML snapshots of the pages in SNAPSHOT_FILES. Pages without a
+ * snapshot in the directory are reported as skipped.
+ * @param page Playwright page instance
+ * @param snapshotDir Directory holding any of the SNAPSHOT_FILES
+ * @returns Health report for all pages
+ */
+export async function runSnapshotHealthCheck(page: Page, snapshotDir: string): Promise<SelectorHealthReport> {
+  const pages: PageHealthReport[] = [];
+
+  for (const pageName of Object.keys(SNAPSHOT_FILES) as DoctorPageName[]) {
+    const snapshotPath = path.join(snapshotDir, SNAPSHOT_FILES[pageName]);
+    if (!fs.existsSync(snapshotPath)) {
+      pages.push(skippedPage(pageName, `No snapshot at ${snapshotPath}`));
+      continue;
+    }
+
+    logger.info(`Checking ${pageName} selectors against ${snapshotPath}`);
+    await page.setContent(fs.readFileSync(snapshotPath, 'utf8'));
+    pages.push(await checkPageSelectors(page, pageName, snapshotPath));
+  }
+
+  return { generatedAt: new Date().toISOString(), marketplace: getMarketplace().id, mode: 'snapshots', pages };
+}
+
+/**
+ * Check the live order and login pages. The order page needs a valid saved
+ * session; the other pages cannot be reached on their own, so they are only
+ * checked from a snapshot and reported as skipped.
+ * @param page Playwright page instance, with the saved session restored if there is one
+ * @returns Health report for all pages
+ */
+export async function runLiveHealthCheck(page: Page): Promise<SelectorHealthReport> {
+  const pages: PageHealthReport[] = [];
+
+  logger.info(`Checking orders selectors against ${URLS.ORDER_HISTORY}`);
+  if (await isSessionValid(page)) {
+    pages.push(await checkPageSelectors(page, 'orders', page.url()));
+  } else {
+    pages.push(skippedPage('orders', 'No valid saved session; run a scrape first to log in'));
+  }
+
+  // Sign out of this browser only, the saved session file is left alone
+  await page.context().clearCookies();
+  logger.info(`Checking login selectors against ${URLS.LOGIN}`);
+  await page.goto(URLS.LOGIN, { waitUntil: 'load', timeout: TIMEOUTS.ORDER_PAGE_LOAD });
+  pages.push(await checkPageSelectors(page, 'login', page.url()));
+
+  for (const pageName of SNAPSHOT_ONLY_PAGES) {
+    pages.push(skippedPage(pageName, `The ${pageName} page can only be checked from a snapshot (${SNAPSHOT_FILES[pageName]} with --snapshots)`));
+  }
+
+  return { generatedAt: new Date().toISOString(), marketplace: getMarketplace().id, mode: 'live', pages };
+}
+
+/**
+ * Find the drift in a report: invalid selectors, fallback lists where nothing
+ * is visible and required selectors that matched no nodes
+ * @param report Health report
+ * @returns Human-readable problems, empty when every checked page looks healthy
+ */
+export function findSelectorDrift(report: SelectorHealthReport): string[] {
+  const problems: string[] = [];
+  for (const pageReport of report.pages) {
+    const alternatives = ALTERNATIVE_FALLBACKS[pageReport.page];
+    for (const fallback of pageReport.fallbacks) {
+      if (fallback.winner === null && !alternatives.includes(fallback.path)) {
+        problems.push(`${pageReport.page}: no entry of ${fallback.path} is visible`);
+      }
+    }
+    const checkedAlternatives = pageReport.fallbacks.filter(fallback => alternatives.includes(fallback.path));
+    if (checkedAlternatives.length > 0 && checkedAlternatives.every(fallback => fallback.winner === null)) {
+      problems.push(`${pageReport.page}: no entry of any of ${alternatives.join(', ')} is visible`);
+    }
+    for (const check of pageReport.selectors) {
+      if (check.error) {
+        problems.push(`${pageReport.page}: ${check.path} is not a valid selector (${check.error})`);
+      } else if (check.count === 0 && REQUIRED_SELECTORS[pageReport.page].includes(check.path)) {
+        problems.push(`${pageReport.page}: required selector ${check.path} matched nothing`);
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * Format a health report for the terminal
+ * @param report Health report
+ * @returns Multi-line text with one line per selector
+ */
+export function formatHealthReport(report: SelectorHealthReport): string {
+  const lines = [`Selector health report for ${getMarketplace().domain} (${report.mode})`];
+
+  for (const pageReport of report.pages) {
+    lines.push('', `== ${pageReport.page} ==`);
+    if (pageReport.skipped) {
+      lines.push(`  skipped: ${pageReport.skipped}`);
+      continue;
+    }
+    lines.push(`  source: ${pageReport.source}`);
+
+    for (const check of pageReport.selectors) {
+      const status = check.error ? 'ERROR' : check.count === 0 ? 'MISS ' : check.visible ? 'OK   ' : 'HIDDEN';
+      lines.push(`  ${status} ${String(check.count).padStart(4)}  ${check.path}  ${check.selector}`);
+    }
+    for (const fallback of pageReport.fallbacks) {
+      lines.push(`  winner ${fallback.path}: ${fallback.winner === null ? 'none' : `[${fallback.winnerIndex}] ${fallback.winner}`}`);
+    }
+    const foundTexts = pageReport.textIndicators.filter(indicator => indicator.found).map(indicator => `"${indicator.text}"`);
+    if (pageReport.textIndicators.length > 0) {
+      lines.push(`  text indicators found: ${foundTexts.length > 0 ? foundTexts.join(', ') : 'none'}`);
+    }
+  }
+
+  const drift = findSelectorDrift(report);
+  lines.push('', drift.length > 0 ? `${drift.length} possible drift issues:` : 'No selector drift detected');
+  drift.forEach(problem => lines.push(`  - ${problem}`));
+  return lines.join('\n');
+}
@@ -0,0 +1,142 @@
+/**
+ * Error hierarchy and the process exit code of each failure
+ */
+import { ChallengeType } from './types';
+
+/**
+ * Process exit codes. 10-19 need a human to act before the next run,
+ * 20-29 are worth retrying later as they are.
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  ERROR: 1, // Unexpected failure
+  USAGE: 2, // Invalid flags or override file
+  SELECTOR_DRIFT: 3, // doctor found selectors that no longer match
+
+  UNKNOWN_ACCOUNT: 10,
+  WRONG_PASSWORD: 11,
+  OTP_REJECTED: 12,
+  CAPTCHA_CHALLENGE: 13,
+  ACCOUNT_LOCKED: 14,
+  LOGIN_ABORTED: 15, // A credential or OTP provider gave up
+
+  OTP_THROTTLED: 20,
+  NAVIGATION_TIMEOUT: 21,
+  EXTRACTION_EMPTY: 22
+};
+
+/**
+ * Custom error class for scraper-specific errors
+ */
+export class ScraperError extends Error {
+  exitCode = EXIT_CODES.ERROR;
+  retryable = false; // Whether running again later, unchanged, may succeed
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScraperError';
+  }
+}
+
+/**
+ * Amazon does not know the username, or rejected it as an email or phone number
+ */
+export class UnknownAccountError extends ScraperError {
+  name = 'UnknownAccountError';
+  exitCode = EXIT_CODES.UNKNOWN_ACCOUNT;
+}
+
+/**
+ * Amazon rejected the password
+ */
+export class WrongPasswordError extends ScraperError {
+  name = 'WrongPasswordError';
+  exitCode = EXIT_CODES.WRONG_PASSWORD;
+}
+
+/**
+ * Amazon rejected the one-time password
+ */
+export class OtpRejectedError extends ScraperError {
+  name = 'OtpRejectedError';
+  exitCode = EXIT_CODES.OTP_REJECTED;
+}
+
+/**
+ * Amazon asks to wait before another code can be requested or entered
+ */
+export class OtpThrottledError extends ScraperError {
+  name = 'OtpThrottledError';
+  exitCode = EXIT_CODES.OTP_THROTTLED;
+  retryable = true;
+}
+
+/**
+ * Amazon shows a CAPTCHA or another challenge that only a person can solve
+ */
+export class CaptchaChallengeError extends ScraperError {
+  name = 'CaptchaChallengeError';
+  exitCode = EXIT_CODES.CAPTCHA_CHALLENGE;
+  readonly challenge: ChallengeType;
+
+  constructor(message: string, challenge: ChallengeType) {
+    super(message);
+    this.challenge = challenge;
+  }
+}
+
+/**
+ * The account is locked or on hold and must be unlocked on Amazon
+ */
+export class AccountLockedError extends ScraperError {
+  name = 'AccountLockedError';
+  exitCode = EXIT_CODES.ACCOUNT_LOCKED;
+}
+
+/**
+ * The credential or OTP provider returned nothing, e.g. the user cancelled a prompt
+ */
+export class LoginAbortedError extends ScraperError {
+  name = 'LoginAbortedError';
+  exitCode = EXIT_CODES.LOGIN_ABORTED;
+}
+
+/**
+ * A page did not load, or did not show what was expected, in time
+ */
+export class NavigationTimeoutError extends ScraperError {
+  name = 'NavigationTimeoutError';
+  exitCode = EXIT_CODES.NAVIGATION_TIMEOUT;
+  retryable = true;
+}
+
+/**
+ * The order page says there are orders, but none could be extracted
+ */
+export class ExtractionEmptyError extends ScraperError {
+  name = 'ExtractionEmptyError';
+  exitCode = EXIT_CODES.EXTRACTION_EMPTY;
+  retryable = true;
+}
+
+/**
+ * Get the process exit code for an error
+ * @param error Anything thrown
+ * @returns The error's exit code, or EXIT_CODES.ERROR for errors outside the hierarchy
+ */
+export function getExitCode(error: unknown): number {
+  return error instanceof ScraperError ? error.exitCode : EXIT_CODES.ERROR;
+}
+
+/**
+ * Turn Playwright timeouts into NavigationTimeoutError; other errors are returned as they are
+ * @param error Anything thrown while navigating or waiting for a page
+ * @param what What was being waited for, e.g. "the password page"
+ * @returns Error to rethrow
+ */
+export function toNavigationError(error: unknown, what: string): unknown {
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return new NavigationTimeoutError(`Timed out waiting for ${what}: ${error.message.split('\n')[0]}`);
+  }
+  return error;
+}
@@ -0,0 +1,215 @@
+/**
+ * Output formats for scraped orders
+ */
+import path from 'path';
+import { Order, OrderExporter, OutputFormat } from './types';
+import { formatAmount } from './money';
+import { getOrderNetTotal } from './status';
+
+/**
+ * Columns of the flattened one-row-per-item view of orders
+ */
+const ITEM_COLUMNS = [
+  'orderId',
+  'orderDate',
+  'orderDateIso',
+  'price',
+  'totalAmount',
+  'currency',
+  'netAmount', // Total less refunds, see getOrderNetTotal
+  'purchaseType',
+  'detailsLink',
+  'invoiceLink',
+  'productName',
+  'link',
+  'imageUrl',
+  'deliveryStatus',
+  'status',
+  'statusDate',
+  'seller',
+  'quantity',
+  'itemPrice',
+  'refundAmount',
+  // Order-level charges and payment, filled in by --details
+  'subtotal',
+  'shipping',
+  'tax',
+  'discounts',
+  'paymentMethod',
+  'invoicePath'
+] as const;
+
+type ItemRow = Record<typeof ITEM_COLUMNS[number], string>;
+
+/**
+ * Flatten orders into one row per item, repeating the order-level fields on each row.
+ * Orders without items produce a single row with empty item fields.
+ * @param orders Orders to flatten
+ * @returns Rows of string values keyed by column
+ */
+export function flattenOrders(orders: Order[]): ItemRow[] {
+  const rows: ItemRow[] = [];
+  for (const order of orders) {
+    const details = order.details;
+    const payment = details ? details.paymentMethod : null;
+    const net = getOrderNetTotal(order);
+    const orderFields = {
+      orderId: order.orderId || '',
+      orderDate: order.orderDate,
+      orderDateIso: order.orderDateIso || '',
+      price: order.price,
+      totalAmount: order.total ? formatAmount(order.total) : '',
+      currency: order.total ? order.total.currency : '',
+      netAmount: net ? formatAmount(net) : '',
+      purchaseType: order.purchaseType || '',
+      detailsLink: order.detailsLink || '',
+      invoiceLink: order.invoiceLink || '',
+      subtotal: details && details.subtotal ? formatAmount(details.subtotal) : '',
+      shipping: details && details.shipping ? formatAmount(details.shipping) : '',
+      tax: details && details.tax ? formatAmount(details.tax) : '',
+      discounts: details && details.discounts ? formatAmount(details.discounts) : '',
+      paymentMethod: payment ? `${payment.type}${payment.lastFour ? ` ending in ${payment.lastFour}` : ''}` : '',
+      invoicePath: order.invoicePath || ''
+    };
+
+    const items = order.items.length > 0 ? order.items : [null];
+    for (const item of items) {
+      rows.push({
+        ...orderFields,
+        productName: item ? item.productName : '',
+        link: item && item.link ? item.link : '',
+        imageUrl: item && item.imageUrl ? item.imageUrl : '',
+        deliveryStatus: item && item.deliveryStatus ? item.deliveryStatus : '',
+        status: item && item.status ? item.status : '',
+        statusDate: item && item.statusDate ? item.statusDate : '',
+        seller: item && item.seller ? item.seller : '',
+        quantity: item && item.quantity !== undefined ? String(item.quantity) : '',
+        itemPrice: item && item.price ? formatAmount(item.price) : '',
+        refundAmount: item && item.refund ? formatAmount(item.refund) : ''
+      });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Quote a CSV field if it contains a delimiter, quote or line break
+ * @param value Field value
+ * @returns Escaped field
+ */
+export function escapeCsvField(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Escape a value for use inside a Markdown table cell
+ * @param value Cell value
+ * @returns Escaped cell
+ */
+export function escapeMarkdownCell(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\|/g, '\\|')
+    .replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Pretty-printed JSON array, the original output format
+ */
+export const jsonExporter: OrderExporter = {
+  format: 'json',
+  extensions: ['.json'],
+  serialize: (orders) => JSON.stringify(orders, null, 2),
+  parse: (content) => {
+    const orders = JSON.parse(content);
+    return Array.isArray(orders) ? orders : [];
+  }
+};
+
+/**
+ * Newline-delimited JSON, one order per line
+ */
+export const ndjsonExporter: OrderExporter = {
+  format: 'ndjson',
+  extensions: ['.ndjson', '.jsonl'],
+  serialize: (orders) => orders.map(order => JSON.stringify(order) + '\n').join(''),
+  parse: (content) => content
+    .split(/\r?\n/)
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line) as Order)
+};
+
+/**
+ * CSV with one row per item and the order-level fields repeated on each row
+ */
+export const csvExporter: OrderExporter = {
+  format: 'csv',
+  extensions: ['.csv'],
+  serialize: (orders) => {
+    const lines = [ITEM_COLUMNS.join(',')];
+    for (const row of flattenOrders(orders)) {
+      lines.push(ITEM_COLUMNS.map(column => escapeCsvField(row[column])).join(','));
+    }
+    return lines.join('\r\n') + '\r\n';
+  }
+};
+
+/**
+ * Human-readable Markdown report with a table of items
+ */
+export const markdownExporter: OrderExporter = {
+  format: 'markdown',
+  extensions: ['.md', '.markdown'],
+  serialize: (orders) => {
+    const columns: Array<[keyof ItemRow, string]> = [
+      ['orderDateIso', 'Date'],
+      ['orderId', 'Order'],
+      ['purchaseType', 'Type'],
+      ['productName', 'Product'],
+      ['quantity', 'Qty'],
+      ['itemPrice', 'Item price'],
+      ['price', 'Order total'],
+      ['deliveryStatus', 'Status'],
+      ['refundAmount', 'Refund']
+    ];
+    const itemCount = orders.reduce((sum, order) => sum + order.items.length, 0);
+
+    const lines = [
+      '# Order History',
+      '',
+      `${orders.length} orders, ${itemCount} items.`,
+      '',
+      `| ${columns.map(([, title]) => title).join(' | ')} |`,
+      `| ${columns.map(() => '---').join(' | ')} |`
+    ];
+    for (const row of flattenOrders(orders)) {
+      // Fall back to the display date when it couldn't be parsed
+      const cells = columns.map(([column]) => column === 'orderDateIso' && !row.orderDateIso ? row.orderDate : row[column]);
+      lines.push(`| ${cells.map(escapeMarkdownCell).join(' | ')} |`);
+    }
+    return lines.join('\n') + '\n';
+  }
+};
+
+export const EXPORTERS: OrderExporter[] = [jsonExporter, ndjsonExporter, csvExporter, markdownExporter];
+
+/**
+ * Choose the exporter for an output file
+ * @param format Explicitly requested format, if any
+ * @param outputPath Output file, whose extension picks the format when none is requested
+ * @returns Exporter to use, defaulting to JSON
+ */
+export function resolveExporter(format: OutputFormat | undefined, outputPath: string): OrderExporter {
+  if (format) {
+    const exporter = EXPORTERS.find(candidate => candidate.format === format);
+    if (exporter) {
+      return exporter;
+    }
+  }
+
+  const extension = path.extname(outputPath).toLowerCase();
+  return EXPORTERS.find(candidate => candidate.extensions.includes(extension)) || jsonExporter;
+}
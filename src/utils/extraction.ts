@@ -1,5 +1,11 @@
 import { Page } from 'playwright';
 import { Order, OrderItem } from './types';
+import { URLS, SELECTORS } from './config';
+import { parseMoney } from './money';
+import { parseOrderDate } from './dates';
+import { applyItemStatus } from './status';
+import { classifyPurchase } from './purchases';
+import { logger } from './logger';
 
 /**
  * Extract orders from the current page
@@ -9,105 +15,150 @@ import { Order, OrderItem } from './types';
 export async function extractOrders(page: Page): Promise<Order[]> {
   try {
     // Extract orders directly using page.evaluate to handle multiple items per order
-    const orders = await page.evaluate(() => {
+    const { orders, cardTexts } = await page.evaluate(({ selectors, baseUrl }) => {
       const result: Array<Order> = [];
-      const baseUrl = 'https://www.amazon.in';
-      
+      // Text of each order's card, for telling its purchase type outside the browser context
+      const texts: string[] = [];
+
+      // Make a link absolute
+      const absoluteUrl = (href: string | null): string | undefined => {
+        if (!href) return undefined;
+        return href.startsWith('http') ? href : `${baseUrl}${href}`;
+      };
+
+      // Read the trimmed text of the first element matching a selector
+      const textOf = (root: Element, selector: string): string => {
+        const element = root.querySelector(selector);
+        return element && element.textContent ? element.textContent.trim().replace(/\s+/g, ' ') : '';
+      };
+
+      // Read the absolute link of the first element matching a selector
+      const linkOf = (root: Element, selector: string): string | undefined => {
+        const element = root.querySelector(selector);
+        return element ? absoluteUrl(element.getAttribute('href')) : undefined;
+      };
+
+      // Find a "Label: value" line such as "Sold by: Example Retail"
+      const labelledText = (root: Element, label: string): string => {
+        const lines = Array.from(root.querySelectorAll(selectors.ITEM_DETAIL_LINE));
+        for (const line of lines) {
+          const text = (line.textContent || '').trim().replace(/\s+/g, ' ');
+          if (text.toLowerCase().startsWith(label.toLowerCase())) {
+            return text.slice(label.length).replace(/^[\s:]+/, '').trim();
+          }
+        }
+        return '';
+      };
+
+      // Extract a single item from the element holding its title, image and details
+      const extractItem = (root: Element): OrderItem | null => {
+        // Try for regular product first, then movie/digital content
+        const productElement = root.querySelector(selectors.PRODUCT_TITLE) || root.querySelector(selectors.MOVIE_ITEM);
+        if (!productElement || !productElement.textContent) return null;
+
+        const item: OrderItem = {
+          productName: productElement.textContent.trim(),
+          link: absoluteUrl(productElement.getAttribute('href')) || ''
+        };
+
+        const image = root.querySelector(selectors.ITEM_IMAGE);
+        const imageUrl = image ? image.getAttribute('data-a-hires') || image.getAttribute('src') : null;
+        if (imageUrl) item.imageUrl = imageUrl;
+
+        const deliveryStatus = textOf(root, selectors.DELIVERY_STATUS);
+        if (deliveryStatus) item.deliveryStatus = deliveryStatus;
+
+        const statusDetail = textOf(root, selectors.STATUS_DETAIL);
+        if (statusDetail) item.statusDetail = statusDetail;
+
+        const seller = labelledText(root, 'Sold by');
+        if (seller) item.seller = seller;
+
+        const quantity = parseInt(textOf(root, selectors.ITEM_QUANTITY), 10);
+        if (!isNaN(quantity)) item.quantity = quantity;
+
+        return item;
+      };
+
       // Find all order cards
-      const orderCards = Array.from(document.querySelectorAll('.order-card.js-order-card'));
-      
+      const orderCards = Array.from(document.querySelectorAll(selectors.ORDER_CARD));
+
       orderCards.forEach(orderCard => {
         // Extract common information for the order
-        const orderGroup = orderCard.querySelector('.a-box-group');
+        const orderGroup = orderCard.querySelector(selectors.BOX_GROUP);
         if (!orderGroup) return;
-        
+
         // Extract price - same for all items in the order
-        const priceElement = orderGroup.querySelector('.a-column.a-span2 .a-size-base');
-        const price = priceElement && priceElement.textContent ? priceElement.textContent.trim() : 'N/A';
-        
+        const price = textOf(orderGroup, selectors.PRICE_ELEMENT) || 'N/A';
+
         // Extract the actual date using the correct selector
-        const dateElement = orderGroup.querySelector('.a-column.a-span3 .a-size-base');
-        const orderDate = dateElement && dateElement.textContent ? dateElement.textContent.trim() : 'N/A';
-        
-        // Check for multiple delivery boxes (multiple items in one order)
-        const deliveryBoxes = orderGroup.querySelectorAll('.a-box.delivery-box');
-        
+        const orderDate = textOf(orderGroup, selectors.DATE_ELEMENT) || 'N/A';
+
+        // Extract the order number, falling back to searching the card header text
+        const orderIdPattern = /\b[A-Z0-9]\d{2}-\d{7}-\d{7}\b/;
+        const orderIdMatch = textOf(orderGroup, selectors.ORDER_ID).match(orderIdPattern)
+          || (orderCard.textContent || '').match(orderIdPattern);
+
         // Create order object with common data
         const orderEntry: Order = {
+          orderId: orderIdMatch ? orderIdMatch[0] : null,
           orderDate,
+          orderDateIso: null, // Parsed outside the browser context
           price,
+          total: null, // Parsed outside the browser context
           items: [] // Will hold all items in this order
         };
-        
+
+        const detailsLink = linkOf(orderGroup, selectors.ORDER_DETAILS_LINK);
+        if (detailsLink) orderEntry.detailsLink = detailsLink;
+
+        const invoiceLink = linkOf(orderGroup, selectors.INVOICE_LINK);
+        if (invoiceLink) orderEntry.invoiceLink = invoiceLink;
+
+        // Check for multiple delivery boxes (multiple items in one order)
+        const deliveryBoxes = orderGroup.querySelectorAll(selectors.DELIVERY_BOX);
+
         if (deliveryBoxes.length > 0) {
           // Multiple items case: iterate through each delivery box
           deliveryBoxes.forEach(box => {
-            // Try to extract product info
-            let productName = '';
-            let link = '';
-            
-            // Try for regular product
-            const productElement = box.querySelector('.yohtmlc-product-title a');
-            if (productElement && productElement.textContent) {
-              productName = productElement.textContent.trim();
-              const href = productElement.getAttribute('href') || '';
-              // Make link absolute
-              link = href.startsWith('http') ? href : `${baseUrl}${href}`;
-            }
-            
             // Only add if we found a product name
-            if (productName) {
-              orderEntry.items.push({
-                productName,
-                link
-              } as OrderItem);
+            const item = extractItem(box);
+            if (item) {
+              orderEntry.items.push(item);
             }
           });
         } else {
           // Single item case or movie/digital content
-          let productName = '';
-          let link = '';
-          
-          // Try for regular product first
-          const productElement = orderGroup.querySelector('.yohtmlc-product-title a');
-          if (productElement && productElement.textContent) {
-            productName = productElement.textContent.trim();
-            const href = productElement.getAttribute('href') || '';
-            // Make link absolute
-            link = href.startsWith('http') ? href : `${baseUrl}${href}`;
-          } else {
-            // Try for movie/digital content
-            const movieElement = orderGroup.querySelector('.yohtmlc-item a');
-            if (movieElement && movieElement.textContent) {
-              productName = movieElement.textContent.trim();
-              const href = movieElement.getAttribute('href') || '';
-              // Make link absolute
-              link = href.startsWith('http') ? href : `${baseUrl}${href}`;
-            }
-          }
-          
-          // Only add if we found a product name
-          if (productName) {
-            orderEntry.items.push({
-              productName,
-              link
-            } as OrderItem);
+          const item = extractItem(orderGroup);
+          if (item) {
+            orderEntry.items.push(item);
           }
         }
-        
+
         // Only add orders that have items
         if (orderEntry.items.length > 0) {
           result.push(orderEntry);
+          texts.push((orderCard.textContent || '').trim().replace(/\s+/g, ' '));
         }
       });
-      
-      return result;
+
+      return { orders: result, cardTexts: texts };
+    }, { selectors: SELECTORS.ORDERS, baseUrl: URLS.BASE_URL });
+
+    // Parse the raw date, price and status text into structured values
+    orders.forEach((order, index) => {
+      order.orderDateIso = parseOrderDate(order.orderDate);
+      order.total = parseMoney(order.price);
+      order.purchaseType = classifyPurchase(order, cardTexts[index]);
+      for (const item of order.items) {
+        applyItemStatus(item, order.orderDateIso);
+      }
     });
-    
-    console.log(`Extracted ${orders.length} orders with a total of ${orders.reduce((sum, order) => sum + order.items.length, 0)} items`);
+
+    logger.info(`Extracted ${orders.length} orders with a total of ${orders.reduce((sum, order) => sum + order.items.length, 0)} items`);
     return orders;
   } catch (error) {
-    console.error('Error extracting orders:', error);
+    logger.error('Error extracting orders:', error);
     return [];
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,190 @@
+/**
+ * Invoice download: each order's invoice saved as a PDF, named by order date and ID
+ */
+import fs from 'fs';
+import path from 'path';
+import { BrowserContext, Page } from 'playwright';
+import { URLS, SELECTORS, TIMEOUTS } from './config';
+import { logger } from './logger';
+import { captureDiagnostics } from './diagnostics';
+import { assertNoChallenge } from './challenge';
+import { CaptchaChallengeError, ScraperError, toNavigationError } from './errors';
+import { InvoiceDownloadStats, Order } from './types';
+
+// Printable order summaries, which are printed to PDF rather than downloaded
+const PRINT_URL_PATTERN = /print\.html|\/invoice\/print/;
+
+/**
+ * Name an order's invoice file, without the extension
+ * @param order Scraped order
+ * @returns e.g. "2024-03-12_408-1234567-1234567", or null for orders without an ID
+ */
+export function getInvoiceBaseName(order: Order): string | null {
+  if (!order.orderId) {
+    return null;
+  }
+  return `${order.orderDateIso || 'undated'}_${order.orderId.replace(/[^A-Za-z0-9-]/g, '-')}`;
+}
+
+/**
+ * Find an invoice saved by an earlier run. Only PDFs count.
+ * @param dir Invoice directory
+ * @param baseName File name without the extension, see getInvoiceBaseName
+ * @returns Path of the saved invoice, or null if there is none
+ */
+export function findSavedInvoice(dir: string, baseName: string): string | null {
+  const filePath = path.join(dir, `${baseName}.pdf`);
+  return fs.existsSync(filePath) ? filePath : null;
+}
+
+/**
+ * Open an invoice page and check that Amazon shows it
+ * @param page Playwright page instance
+ * @param url Invoice popover or printable summary
+ * @throws NavigationTimeoutError if the page does not load, CaptchaChallengeError if Amazon shows a challenge instead
+ */
+async function openInvoicePage(page: Page, url: string): Promise<void> {
+  try {
+    await page.goto(url, { waitUntil: 'load', timeout: TIMEOUTS.ORDER_PAGE_LOAD });
+  } catch (error) {
+    throw toNavigationError(error, 'the invoice page');
+  }
+  await assertNoChallenge(page);
+}
+
+/**
+ * Download a PDF from inside the page, so it is sent with the page's cookies and
+ * goes through the same routing as the page (a replay never reaches Amazon)
+ * @param page Page on the same site as the PDF
+ * @param url PDF URL
+ * @returns PDF file content
+ * @throws ScraperError if the response is not a PDF
+ */
+async function fetchPdf(page: Page, url: string): Promise<Buffer> {
+  const response = await page.evaluate(async (href) => {
+    const result = await fetch(href, { credentials: 'include' });
+    const bytes = new Uint8Array(await result.arrayBuffer());
+    // Encode in chunks, as a single String.fromCharCode call overflows on large files
+    let binary = '';
+    for (let index = 0; index < bytes.length; index += 0x8000) {
+      binary += String.fromCharCode(...Array.from(bytes.subarray(index, index + 0x8000)));
+    }
+    return { status: result.status, contentType: result.headers.get('content-type') || '', base64: btoa(binary) };
+  }, url);
+
+  const content = Buffer.from(response.base64, 'base64');
+  if (response.status !== 200 || content.subarray(0, 4).toString('latin1') !== '%PDF') {
+    throw new ScraperError(`The invoice download returned ${response.status} ${response.contentType || 'without a content type'}, not a PDF`);
+  }
+  return content;
+}
+
+/**
+ * Print the page to a PDF
+ * @param page Page showing a printable invoice, in a headless browser
+ * @param basePath File path without the extension
+ * @returns Path of the saved file
+ * @throws ScraperError if the page cannot be printed, e.g. in a headed browser
+ */
+async function printInvoice(page: Page, basePath: string): Promise<string> {
+  try {
+    await page.pdf({ path: `${basePath}.pdf`, format: 'A4', printBackground: true });
+    return `${basePath}.pdf`;
+  } catch (error) {
+    throw new ScraperError(`Could not print the invoice to PDF: ${(error as Error).message.split('\n')[0]}`);
+  }
+}
+
+/**
+ * Save an order's invoice. The invoice popover of an order card links to
+ * invoice PDFs and a printable order summary: the first PDF is downloaded,
+ * otherwise the summary is printed.
+ * @param page Playwright page instance
+ * @param url Invoice popover or printable summary
+ * @param basePath File path without the extension
+ * @returns Path of the saved file
+ * @throws ScraperError if the page links to no invoice, e.g. one that is not issued yet
+ */
+async function saveInvoice(page: Page, url: string, basePath: string): Promise<string> {
+  await openInvoicePage(page, url);
+
+  const pdfLink = await page.$(SELECTORS.INVOICE.PDF_LINK);
+  const pdfHref = pdfLink ? await pdfLink.getAttribute('href') : null;
+  if (pdfHref) {
+    const content = await fetchPdf(page, new URL(pdfHref, page.url()).toString());
+    fs.writeFileSync(`${basePath}.pdf`, content);
+    return `${basePath}.pdf`;
+  }
+
+  const printLink = await page.$(SELECTORS.INVOICE.PRINT_LINK);
+  const printHref = printLink ? await printLink.getAttribute('href') : null;
+  if (printHref) {
+    await openInvoicePage(page, new URL(printHref, page.url()).toString());
+  } else if (!PRINT_URL_PATTERN.test(page.url())) {
+    throw new ScraperError('The invoice page links to no invoice');
+  }
+  return printInvoice(page, basePath);
+}
+
+/**
+ * Save the invoice of each order into a directory, and record its path on the
+ * order. Orders without an invoice link get their printable order summary,
+ * which Chromium only prints to PDF in a headless browser.
+ * Invoices saved by earlier runs are not downloaded again. Failures are logged
+ * and the order is left without an invoice; a challenge stops the downloads.
+ * @param context Logged-in browser context
+ * @param orders Orders to update in place
+ * @param dir Directory to save the invoices in, created if needed
+ * @returns How many invoices were downloaded, already saved, failed or missing
+ */
+export async function downloadInvoices(context: BrowserContext, orders: Order[], dir: string): Promise<InvoiceDownloadStats> {
+  const stats: InvoiceDownloadStats = { downloaded: 0, existing: 0, failed: 0, missing: 0 };
+  fs.mkdirSync(dir, { recursive: true });
+
+  let page: Page | null = null;
+  try {
+    for (const order of orders) {
+      const baseName = getInvoiceBaseName(order);
+      if (!baseName || !order.orderId) {
+        stats.missing++;
+        continue;
+      }
+
+      const saved = findSavedInvoice(dir, baseName);
+      if (saved) {
+        order.invoicePath = saved;
+        stats.existing++;
+        continue;
+      }
+
+      // Invoices are opened in their own tab, pausing between them
+      if (page) {
+        await page.waitForTimeout(TIMEOUTS.INVOICE_DELAY);
+      } else {
+        page = await context.newPage();
+      }
+
+      try {
+        const url = order.invoiceLink || URLS.ORDER_SUMMARY_PRINT(order.orderId);
+        order.invoicePath = await saveInvoice(page, url, path.join(dir, baseName));
+        stats.downloaded++;
+        logger.info(`Saved the invoice of order ${order.orderId} to ${order.invoicePath}`);
+      } catch (error) {
+        stats.failed++;
+        logger.warn(`Could not save the invoice of order ${order.orderId}: ${(error as Error).message}`);
+        await captureDiagnostics(page, `invoice-${order.orderId}`);
+        if (error instanceof CaptchaChallengeError) {
+          logger.warn('Stopping, the remaining invoices are not downloaded');
+          break;
+        }
+      }
+    }
+  } finally {
+    if (page) {
+      await page.close().catch(() => undefined);
+    }
+  }
+
+  logger.info(`Invoices: ${stats.downloaded} downloaded, ${stats.existing} already saved, ${stats.failed} failed, ${stats.missing} without an order ID`);
+  return stats;
+}
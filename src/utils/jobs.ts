@@ -0,0 +1,413 @@
+/**
+ * Scrape jobs for the server: queued runs whose login asks for credentials
+ * and OTPs through submitted input rather than terminal prompts
+ */
+import crypto from 'crypto';
+import { SERVER_DEFAULTS } from './config';
+import { AmazonOrderScraper } from './client';
+import { isIsoDate } from './dates';
+import { PURCHASE_TYPES } from './purchases';
+import { logger } from './logger';
+import { getExitCode, ScraperError } from './errors';
+import {
+  Credentials,
+  JobScraper,
+  MfaMethod,
+  Order,
+  PurchaseType,
+  ScrapeJobInput,
+  ScrapeJobInputRequest,
+  ScrapeJobManagerOptions,
+  ScrapeJobOptions,
+  ScrapeJobRequest,
+  ScrapeJobStatus
+} from './types';
+
+/**
+ * A job and what only the manager sees of it
+ */
+interface ScrapeJob {
+  status: ScrapeJobStatus;
+  request: ScrapeJobRequest;
+  orders: Order[] | null;
+  // Takes the submitted input while the job is paused; throws ScraperError on invalid input
+  submit: ((input: ScrapeJobInput) => void) | null;
+}
+
+/**
+ * Check that an object has only known fields
+ * @param value Parsed JSON value
+ * @param name Name of the object in error messages
+ * @param fields Known fields
+ * @returns The object
+ * @throws ScraperError if the value is not an object or has other fields
+ */
+function expectObject(value: unknown, name: string, fields: string[]): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ScraperError(`${name} must be an object`);
+  }
+  const unknown = Object.keys(value).find(key => !fields.includes(key));
+  if (unknown) {
+    throw new ScraperError(`Unknown field "${unknown}" in ${name}`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Read an optional field of a given type
+ * @param object Object holding the field
+ * @param field Field name
+ * @param type Expected type
+ * @returns Field value, or undefined if it is not set
+ * @throws ScraperError if the field has another type
+ */
+function readField<T extends 'string' | 'boolean' | 'number'>(
+  object: Record<string, unknown>,
+  field: string,
+  type: T
+): (T extends 'string' ? string : T extends 'boolean' ? boolean : number) | undefined {
+  const value = object[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== type || (type === 'number' && !Number.isInteger(value)) || (type === 'string' && value === '')) {
+    throw new ScraperError(`${field} must be ${type === 'number' ? 'an integer' : type === 'string' ? 'a non-empty string' : 'a boolean'}`);
+  }
+  return value as (T extends 'string' ? string : T extends 'boolean' ? boolean : number);
+}
+
+/**
+ * Read a limit that may be null for no limit
+ * @param object Object holding the field
+ * @param field Field name
+ * @returns Limit, null for no limit, or undefined if it is not set
+ */
+function readLimit(object: Record<string, unknown>, field: string): number | null | undefined {
+  if (object[field] === null) {
+    return null;
+  }
+  const value = readField(object, field, 'number');
+  if (value !== undefined && value < 0) {
+    throw new ScraperError(`${field} cannot be negative`);
+  }
+  return value;
+}
+
+/**
+ * Validate the body of a request to start a scrape job, e.g.
+ * { "scrape": { "maxOrders": 50, "since": "2024-01-01" }, "credentials": { "username": "..." } }
+ * @param body Parsed JSON body; an empty body scrapes with the defaults
+ * @returns Job request
+ * @throws ScraperError if a field is unknown or invalid
+ */
+export function parseScrapeJobRequest(body: unknown): ScrapeJobRequest {
+  const request = expectObject(body ?? {}, 'the request', ['scrape', 'credentials', 'otpCode']);
+  const scrapeFields = expectObject(request.scrape ?? {}, 'scrape', [
+    'fromYear', 'toYear', 'maxOrders', 'since', 'until', 'details', 'detailsConcurrency',
+    'maxDetailPages', 'cancelled', 'digital', 'purchaseTypes'
+  ]);
+
+  const scrape: ScrapeJobOptions = {
+    fromYear: readField(scrapeFields, 'fromYear', 'number'),
+    toYear: readField(scrapeFields, 'toYear', 'number'),
+    maxOrders: readLimit(scrapeFields, 'maxOrders'),
+    since: readField(scrapeFields, 'since', 'string'),
+    until: readField(scrapeFields, 'until', 'string'),
+    details: readField(scrapeFields, 'details', 'boolean'),
+    detailsConcurrency: readField(scrapeFields, 'detailsConcurrency', 'number'),
+    maxDetailPages: readLimit(scrapeFields, 'maxDetailPages'),
+    cancelled: readField(scrapeFields, 'cancelled', 'boolean'),
+    digital: readField(scrapeFields, 'digital', 'boolean')
+  };
+  for (const field of ['since', 'until'] as const) {
+    const value = scrape[field];
+    if (value !== undefined && !isIsoDate(value)) {
+      throw new ScraperError(`${field} must be a date in YYYY-MM-DD format, got "${value}"`);
+    }
+  }
+  if (scrape.since && scrape.until && scrape.since > scrape.until) {
+    throw new ScraperError(`since (${scrape.since}) cannot be after until (${scrape.until})`);
+  }
+  if (scrape.fromYear !== undefined && scrape.toYear !== undefined && scrape.fromYear > scrape.toYear) {
+    throw new ScraperError(`fromYear (${scrape.fromYear}) cannot be after toYear (${scrape.toYear})`);
+  }
+  if (scrape.detailsConcurrency !== undefined && scrape.detailsConcurrency < 1) {
+    throw new ScraperError('detailsConcurrency must be at least 1');
+  }
+  if (scrapeFields.purchaseTypes !== undefined) {
+    const types = scrapeFields.purchaseTypes;
+    if (!Array.isArray(types) || types.length === 0 || types.some(type => !PURCHASE_TYPES.includes(type as PurchaseType))) {
+      throw new ScraperError(`purchaseTypes must be a list of: ${PURCHASE_TYPES.join(', ')}`);
+    }
+    scrape.purchaseTypes = types as PurchaseType[];
+  }
+
+  // Leave out unset fields, so they do not replace the scraper's defaults
+  const parsed: ScrapeJobRequest = {
+    scrape: Object.fromEntries(Object.entries(scrape).filter(([, value]) => value !== undefined)) as ScrapeJobOptions
+  };
+  if (request.credentials !== undefined) {
+    const credentials = expectObject(request.credentials, 'credentials', ['username', 'password']);
+    parsed.credentials = {};
+    const username = readField(credentials, 'username', 'string');
+    const password = readField(credentials, 'password', 'string');
+    if (username) parsed.credentials.username = username;
+    if (password) parsed.credentials.password = password;
+  }
+  const otpCode = readField(request, 'otpCode', 'string');
+  if (otpCode) {
+    parsed.otpCode = otpCode;
+  }
+  return parsed;
+}
+
+/**
+ * Validate submitted credentials or an OTP
+ * @param body Parsed JSON body, e.g. { "otp": "123456" }
+ * @returns Submitted input
+ * @throws ScraperError if a field is unknown or not a non-empty string
+ */
+export function parseScrapeJobInput(body: unknown): ScrapeJobInput {
+  const fields = expectObject(body ?? {}, 'the input', ['username', 'password', 'otp']);
+  const input: ScrapeJobInput = {};
+  for (const field of ['username', 'password', 'otp'] as const) {
+    const value = readField(fields, field, 'string');
+    if (value) {
+      input[field] = value;
+    }
+  }
+  return input;
+}
+
+/**
+ * Runs scrape jobs one at a time, as the marketplace and diagnostics settings
+ * are process-wide. A job's login pauses in the awaiting_credentials or
+ * awaiting_otp state whenever the scraper would prompt on the terminal, until
+ * the input is submitted or SERVER_DEFAULTS.INPUT_TIMEOUT passes.
+ *
+ *   const jobs = new ScrapeJobManager({ scraper: { headless: true, sessionPath } });
+ *   const { id } = jobs.createJob(parseScrapeJobRequest({ scrape: { maxOrders: 50 } }));
+ *   // ...once getJob(id).state is 'awaiting_otp'
+ *   jobs.submitInput(id, 'otp', { otp: '123456' });
+ */
+export class ScrapeJobManager {
+  private readonly options: ScrapeJobManagerOptions;
+  private readonly jobs = new Map<string, ScrapeJob>();
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param options Scraper options shared by every job
+   */
+  constructor(options: ScrapeJobManagerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Queue a scrape job
+   * @param request Validated job request, see parseScrapeJobRequest
+   * @returns Status of the queued job
+   */
+  createJob(request: ScrapeJobRequest): ScrapeJobStatus {
+    const job: ScrapeJob = {
+      status: {
+        id: crypto.randomUUID(),
+        state: 'queued',
+        createdAt: new Date().toISOString(),
+        startedAt: null,
+        finishedAt: null,
+        input: null,
+        progress: [],
+        orderCount: null,
+        years: [],
+        error: null
+      },
+      request,
+      orders: null,
+      submit: null
+    };
+    this.jobs.set(job.status.id, job);
+    this.queue = this.queue.then(() => this.run(job));
+    logger.info(`Queued scrape job ${job.status.id}`);
+    return this.snapshot(job);
+  }
+
+  /**
+   * Get a job's status
+   * @param id Job ID
+   * @returns Job status, or null if there is no such job
+   */
+  getJob(id: string): ScrapeJobStatus | null {
+    const job = this.jobs.get(id);
+    return job ? this.snapshot(job) : null;
+  }
+
+  /**
+   * List all jobs, oldest first
+   * @returns Job statuses
+   */
+  listJobs(): ScrapeJobStatus[] {
+    return Array.from(this.jobs.values()).map(job => this.snapshot(job));
+  }
+
+  /**
+   * Get the orders of a completed job
+   * @param id Job ID
+   * @returns Orders, or null if there is no such job or it has not completed
+   */
+  getOrders(id: string): Order[] | null {
+    return this.jobs.get(id)?.orders ?? null;
+  }
+
+  /**
+   * Submit the credentials or OTP a paused job waits for, resuming its login
+   * @param id Job ID
+   * @param type Kind of input submitted
+   * @param input Submitted values
+   * @returns Boolean indicating if the job was waiting for this kind of input
+   * @throws ScraperError if the input lacks what the job waits for
+   */
+  submitInput(id: string, type: ScrapeJobInputRequest['type'], input: ScrapeJobInput): boolean {
+    const job = this.jobs.get(id);
+    if (!job || !job.submit || job.status.input?.type !== type) {
+      return false;
+    }
+    job.submit(input);
+    return true;
+  }
+
+  /**
+   * Copy a job's status, so callers cannot change it
+   * @param job Job
+   * @returns Job status
+   */
+  private snapshot(job: ScrapeJob): ScrapeJobStatus {
+    return { ...job.status, progress: [...job.status.progress], years: [...job.status.years] };
+  }
+
+  /**
+   * Pause a job until its input is submitted
+   * @param job Job to pause
+   * @param input What the job waits for
+   * @param accept Turns the submitted input into the value the scraper asked for; throws ScraperError if it lacks something
+   * @returns Accepted value, or null when nothing was submitted in time, which aborts the login
+   */
+  private waitForInput<T>(job: ScrapeJob, input: ScrapeJobInputRequest, accept: (input: ScrapeJobInput) => T): Promise<T | null> {
+    return new Promise(resolve => {
+      const resume = (value: T | null) => {
+        clearTimeout(timer);
+        job.submit = null;
+        job.status.input = null;
+        job.status.state = 'logging_in';
+        resolve(value);
+      };
+      const timer = setTimeout(() => {
+        logger.warn(`Scrape job ${job.status.id} got no ${input.type} in time`);
+        resume(null);
+      }, this.options.inputTimeout ?? SERVER_DEFAULTS.INPUT_TIMEOUT);
+
+      job.submit = submitted => resume(accept(submitted));
+      job.status.input = input;
+      job.status.state = input.type === 'otp' ? 'awaiting_otp' : 'awaiting_credentials';
+      logger.info(`Scrape job ${job.status.id} is waiting for ${input.type === 'otp' ? 'an OTP' : 'credentials'}`);
+    });
+  }
+
+  /**
+   * Build the scraper of a job, asking for missing credentials and OTPs through submitted input
+   * @param job Job to build the scraper for
+   * @returns Scraper
+   */
+  private createScraper(job: ScrapeJob): JobScraper {
+    const shared = this.options.scraper;
+    const options = {
+      ...shared,
+      credentials: { ...shared.credentials, ...job.request.credentials },
+      otpCode: job.request.otpCode,
+      credentialProvider: {
+        getCredentials: async (known: Partial<Credentials>) => {
+          if (known.username && known.password) {
+            return { username: known.username, password: known.password };
+          }
+          const missing = (['username', 'password'] as const).filter(field => !known[field]);
+          return this.waitForInput(job, { type: 'credentials', missing }, input => {
+            const username = input.username || known.username;
+            const password = input.password || known.password;
+            if (!username || !password) {
+              throw new ScraperError(`The job is waiting for: ${missing.join(', ')}`);
+            }
+            return { username, password };
+          });
+        },
+        getPassword: () => this.waitForInput(job, { type: 'credentials', missing: ['password'] }, input => {
+          if (!input.password) {
+            throw new ScraperError('The job is waiting for: password');
+          }
+          return input.password;
+        })
+      },
+      otpProvider: {
+        getOtp: (attemptsLeft: number, method: MfaMethod) =>
+          this.waitForInput(job, { type: 'otp', attemptsLeft, method }, input => {
+            const otp = input.otp?.trim();
+            if (!otp) {
+              throw new ScraperError('The job is waiting for: otp');
+            }
+            return otp;
+          })
+      }
+    };
+    return this.options.createScraper ? this.options.createScraper(options) : new AmazonOrderScraper(options);
+  }
+
+  /**
+   * Run a job to the end. Failures are recorded on the job, never thrown.
+   * @param job Queued job
+   */
+  private async run(job: ScrapeJob): Promise<void> {
+    const status = job.status;
+    status.state = 'logging_in';
+    status.startedAt = new Date().toISOString();
+    logger.info(`Starting scrape job ${status.id}`);
+
+    let scraper: JobScraper | null = null;
+    try {
+      scraper = this.createScraper(job);
+      scraper.on('progress', event => status.progress.push(event));
+      await scraper.login();
+      status.state = 'scraping';
+      const result = await scraper.listOrders(job.request.scrape);
+      job.orders = result.orders;
+      status.orderCount = result.orders.length;
+      status.years = result.years;
+      status.state = 'completed';
+      logger.info(`Scrape job ${status.id} completed with ${result.orders.length} order(s)`);
+    } catch (error) {
+      status.state = 'failed';
+      status.error = {
+        name: (error as Error).name || 'Error',
+        message: (error as Error).message || String(error),
+        exitCode: getExitCode(error)
+      };
+      logger.error(`Scrape job ${status.id} failed:`, error);
+    } finally {
+      status.input = null;
+      job.submit = null;
+      status.finishedAt = new Date().toISOString();
+      if (scraper) {
+        await scraper.close().catch(error => logger.warn('Could not close the browser:', error));
+      }
+      this.forgetFinishedJobs();
+    }
+  }
+
+  /**
+   * Drop the oldest finished jobs beyond SERVER_DEFAULTS.MAX_FINISHED_JOBS
+   */
+  private forgetFinishedJobs(): void {
+    const finished = Array.from(this.jobs.values())
+      .filter(job => job.status.state === 'completed' || job.status.state === 'failed');
+    for (const job of finished.slice(0, Math.max(0, finished.length - SERVER_DEFAULTS.MAX_FINISHED_JOBS))) {
+      this.jobs.delete(job.status.id);
+    }
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Levelled logging with optional JSON output and redaction of credentials,
+ * OTPs and account identifiers
+ */
+import { LogEntry, LogLevel } from './types';
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100
+};
+
+export const LOG_LEVELS = Object.keys(LEVEL_ORDER) as LogLevel[];
+
+const REDACTED = '[REDACTED]';
+
+// Email addresses and bare phone numbers; order IDs contain dashes and are left alone
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const PHONE_PATTERN = /(?<![\w-])\+?\d{10,15}(?![\w-])/g;
+
+const settings = { level: 'info' as LogLevel, json: false };
+const secrets = new Set<string>();
+const listeners = new Set<(entry: LogEntry) => void>();
+let currentStep: string | null = null;
+
+/**
+ * Set the minimum level and output format
+ * @param options level to log at or above, and json for one JSON object per line on stderr
+ */
+export function configureLogger(options: { level?: LogLevel; json?: boolean }): void {
+  if (options.level) settings.level = options.level;
+  if (options.json !== undefined) settings.json = options.json;
+}
+
+/**
+ * Register a value that must never appear in logs or diagnostics, such as a
+ * password, username or OTP
+ * @param value Secret to redact; empty and very short values are ignored
+ */
+export function registerSecret(value: string | null | undefined): void {
+  if (value && value.trim().length >= 3) {
+    secrets.add(value.trim());
+  }
+}
+
+/**
+ * Forget all registered secrets
+ */
+export function clearSecrets(): void {
+  secrets.clear();
+}
+
+/**
+ * Remove registered secrets, email addresses and phone numbers from text
+ * @param text Text to redact
+ * @returns Redacted text
+ */
+export function redact(text: string): string {
+  let result = text;
+  // Longest first, so a password containing the username is removed whole
+  for (const secret of Array.from(secrets).sort((a, b) => b.length - a.length)) {
+    result = result.split(secret).join(REDACTED);
+  }
+  return result.replace(EMAIL_PATTERN, REDACTED).replace(PHONE_PATTERN, REDACTED);
+}
+
+/**
+ * Get patterns for everything redact() removes, so the same text can be found
+ * on a page and masked out of screenshots
+ * @returns One pattern per registered secret, plus email addresses and phone numbers
+ */
+export function getRedactionPatterns(): RegExp[] {
+  return [
+    ...Array.from(secrets).map(secret => new RegExp(secret.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))),
+    new RegExp(EMAIL_PATTERN.source),
+    new RegExp(PHONE_PATTERN.source)
+  ];
+}
+
+/**
+ * Receive every log entry, whatever the level, e.g. for a timeline
+ * @param listener Called with each redacted entry
+ * @returns Function that removes the listener
+ */
+export function addLogListener(listener: (entry: LogEntry) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Get the step the run is currently in
+ * @returns Step name, or null before the first step
+ */
+export function getLogStep(): string | null {
+  return currentStep;
+}
+
+/**
+ * Turn a log detail into text
+ * @param detail Error, string or other value passed after the message
+ * @returns Text form of the detail
+ */
+function formatDetail(detail: unknown): string {
+  if (detail instanceof Error) {
+    return settings.level === 'debug' && detail.stack ? detail.stack : `${detail.name}: ${detail.message}`;
+  }
+  if (typeof detail === 'string') {
+    return detail;
+  }
+  try {
+    return JSON.stringify(detail);
+  } catch {
+    return String(detail);
+  }
+}
+
+/**
+ * Pass a log entry to the listeners and write it out if its level is enabled
+ * @param level Entry level
+ * @param message Log message
+ * @param details Further values, formatted like console.log arguments
+ */
+function write(level: Exclude<LogLevel, 'silent'>, message: string, details: unknown[]): void {
+  const text = redact([message, ...details.map(formatDetail)].join(' '));
+  const entry: LogEntry = { time: new Date().toISOString(), level, step: currentStep, message: text };
+  listeners.forEach(listener => listener(entry));
+
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[settings.level]) {
+    return;
+  }
+  if (settings.json) {
+    process.stderr.write(JSON.stringify(entry) + '\n');
+  } else if (level === 'error') {
+    console.error(text);
+  } else if (level === 'warn') {
+    console.warn(text);
+  } else {
+    console.log(text);
+  }
+}
+
+export const logger = {
+  debug: (message: string, ...details: unknown[]) => write('debug', message, details),
+  info: (message: string, ...details: unknown[]) => write('info', message, details),
+  warn: (message: string, ...details: unknown[]) => write('warn', message, details),
+  error: (message: string, ...details: unknown[]) => write('error', message, details),
+
+  /**
+   * Start a new step of the run; later entries and diagnostics are tagged with it
+   * @param name Short step name, e.g. "password"
+   */
+  step: (name: string) => {
+    currentStep = name;
+    write('debug', `Step: ${name}`, []);
+  }
+};
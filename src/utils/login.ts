@@ -1,114 +1,143 @@
 import { Page } from 'playwright';
 import { URLS, SELECTORS, TIMEOUTS } from './config';
+import { getMarketplace } from './marketplace';
+import { logger } from './logger';
+import { captureDiagnostics } from './diagnostics';
+import { AccountLockedError, NavigationTimeoutError, ScraperError, toNavigationError, UnknownAccountError, WrongPasswordError } from './errors';
+import { assertNoChallenge } from './challenge';
 
 /**
  * Navigate to Amazon login page
  * @param page Playwright page instance
+ * @throws NavigationTimeoutError if the sign-in page does not load
+ * @throws CaptchaChallengeError if Amazon shows a bot check instead
  */
 export async function navigateToAmazonLogin(page: Page): Promise<void> {
-  await page.goto(URLS.LOGIN, { 
-    waitUntil: 'load'
-  });
+  try {
+    await page.goto(URLS.LOGIN, { 
+      waitUntil: 'load'
+    });
+  } catch (error) {
+    throw toNavigationError(error, 'the sign-in page');
+  }
   
   // Add a short delay after page load for any JS to initialize
   await page.waitForTimeout(TIMEOUTS.PAGE_LOAD);
+  await assertNoChallenge(page);
+}
+
+/**
+ * Check an alert for words that mean the account is locked or on hold
+ * @param page Playwright page instance
+ * @param errorText Text of the alert shown
+ * @throws AccountLockedError if the alert says the account is locked
+ */
+async function checkAccountLocked(page: Page, errorText: string): Promise<void> {
+  const lowerErrorText = errorText.toLowerCase();
+  if (getMarketplace().loginTexts.accountLockedKeywords.some(keyword => lowerErrorText.includes(keyword))) {
+    await captureDiagnostics(page, 'account-locked');
+    throw new AccountLockedError(`Account locked: ${errorText.trim()}`);
+  }
 }
 
 /**
- * Enter username (email or phone)
+ * Enter username (email or phone) and continue to the password page
  * @param page Playwright page instance
  * @param username User's email or phone number
- * @returns Boolean indicating success
+ * @throws UnknownAccountError if Amazon rejects the username, AccountLockedError
+ *   if the account is locked, CaptchaChallengeError if Amazon shows a challenge,
+ *   NavigationTimeoutError if the password page does not appear
  */
-export async function enterUsername(page: Page, username: string): Promise<boolean> {
+export async function enterUsername(page: Page, username: string): Promise<void> {
   try {
     // Check the current state of login form
-    console.log("Checking current state of login form...");
+    logger.info("Checking current state of login form...");
     
     // Take a screenshot to debug
-    await page.screenshot({ path: 'login-page-state.png' });
+    await captureDiagnostics(page, 'login-page-state');
     
     // Debug - log the current URL
-    console.log(`Current URL: ${page.url()}`);
+    logger.info(`Current URL: ${page.url()}`);
     
     // Check specifically for the "Invalid mobile number" error
     const hasInvalidMobileError = await page.isVisible(SELECTORS.LOGIN.INVALID_MOBILE_ERROR);
     if (hasInvalidMobileError) {
-      console.error('Invalid mobile number detected');
-      await page.screenshot({ path: 'invalid-mobile-error.png' });
-      return false;
+      await captureDiagnostics(page, 'invalid-mobile-error');
+      throw new UnknownAccountError('Invalid mobile number');
     }
     
     // Wait for the visible email field
     await page.fill(SELECTORS.LOGIN.EMAIL_FIELD, username);
-    console.log(`Entered username: ${username}`);
+    logger.info('Entered username');
     
     // Click the continue button
     await page.click(SELECTORS.LOGIN.CONTINUE_BUTTON);
-    console.log('Clicked continue button');
+    logger.info('Clicked continue button');
     
     // Wait briefly for any navigation or DOM changes
     await page.waitForTimeout(TIMEOUTS.ELEMENT_WAIT);
+    await assertNoChallenge(page);
     
     // Check specifically for the "Invalid mobile number" error
     const hasInvalidMobileErrorAfterContinue = await page.isVisible(SELECTORS.LOGIN.INVALID_MOBILE_ERROR);
     if (hasInvalidMobileErrorAfterContinue) {
-      console.error('Invalid mobile number detected');
-      await page.screenshot({ path: 'invalid-mobile-error.png' });
-      return false;
+      await captureDiagnostics(page, 'invalid-mobile-error');
+      throw new UnknownAccountError('Invalid mobile number');
     }
     
     // Check for any other alert messages
     const hasOtherAlert = await page.isVisible(SELECTORS.LOGIN.ALERT_CONTENT);
     if (hasOtherAlert) {
       const errorText = await page.textContent(SELECTORS.LOGIN.ALERT_CONTENT) || '';
-      console.log(`Alert found after continuing: "${errorText}"`);
+      logger.info(`Alert found after continuing: "${errorText}"`);
+      await checkAccountLocked(page, errorText);
       
       // Check for specific error messages that indicate credential problems
-      if (errorText.toLowerCase().includes('find') || 
-          errorText.toLowerCase().includes('cannot') || 
-          errorText.toLowerCase().includes('problem') ||
-          errorText.toLowerCase().includes('invalid')) {
-        console.error(`Username error: ${errorText}`);
-        await page.screenshot({ path: 'username-error.png' });
-        return false;
+      const lowerErrorText = errorText.toLowerCase();
+      if (getMarketplace().loginTexts.usernameErrorKeywords.some(keyword => lowerErrorText.includes(keyword))) {
+        await captureDiagnostics(page, 'username-error');
+        throw new UnknownAccountError(`Username rejected: ${errorText.trim()}`);
       }
     }
     
     // Look for the password field to confirm we've moved to the next step
     const onPasswordPage = await page.isVisible(SELECTORS.LOGIN.PASSWORD_FIELD, { timeout: TIMEOUTS.PASSWORD_FIELD });
     if (onPasswordPage) {
-      console.log('Successfully transitioned to password page');
-      return true;
+      logger.info('Successfully transitioned to password page');
+      return;
     }
     
-    return false;
+    throw new NavigationTimeoutError('Password page did not appear after entering the username');
   } catch (error) {
-    console.error('Error entering username:', error);
-    return false;
+    throw toNavigationError(error, 'the password page');
   }
 }
 
 /**
- * Enter password 
+ * Enter password and sign in
  * @param page Playwright page instance
  * @param password User's password
- * @returns Boolean indicating success
+ * @throws WrongPasswordError if Amazon rejects the password or the sign-in does
+ *   not get past the login page, AccountLockedError if the account is locked,
+ *   CaptchaChallengeError if Amazon shows a challenge
  */
-export async function enterPassword(page: Page, password: string): Promise<boolean> {
+export async function enterPassword(page: Page, password: string): Promise<void> {
   try {
     // Fill in the password
     await page.fill(SELECTORS.LOGIN.PASSWORD_FIELD, password);
     
     // Click sign-in button
-    console.log("Clicking sign-in button...");
+    logger.info("Clicking sign-in button...");
     await page.click(SELECTORS.LOGIN.SIGN_IN_BUTTON);
     
     // Wait briefly for error message or navigation
     await page.waitForTimeout(TIMEOUTS.ELEMENT_WAIT);
     
     // Take a screenshot for debugging
-    await page.screenshot({ path: 'after-password-submit.png' });
+    await captureDiagnostics(page, 'after-password-submit');
+    
+    // A CAPTCHA or approval prompt would otherwise only surface as a navigation timeout
+    await assertNoChallenge(page);
     
     // Check if we're on the OTP verification page
     // Import the isMFARequired function from auth.ts
@@ -116,42 +145,40 @@ export async function enterPassword(page: Page, password: string): Promise<boole
     const isOnOTPPage = await isMFARequired(page);
     
     if (isOnOTPPage) {
-      console.log("OTP verification required. This is not a password error.");
-      // Return true as the password was correct, we just need OTP now
-      return true;
+      logger.info("OTP verification required. This is not a password error.");
+      // The password was correct, we just need OTP now
+      return;
     }
     
     // First check specifically for the "Your password is incorrect" error message
-    const incorrectPasswordError = await page.isVisible('.a-alert-content:has-text("Your password is incorrect")');
+    const incorrectPasswordError = await page.isVisible(SELECTORS.LOGIN.INCORRECT_PASSWORD_ERROR);
     if (incorrectPasswordError) {
-      console.error('Incorrect password detected');
-      await page.screenshot({ path: 'incorrect-password-error.png' });
-      return false;
+      await captureDiagnostics(page, 'incorrect-password-error');
+      throw new WrongPasswordError('Incorrect password');
     }
     
     // Check for other error messages
     const otherErrorVisible = await page.isVisible(SELECTORS.LOGIN.ERROR_CONTAINER);
     if (otherErrorVisible) {
       const errorText = await page.textContent(SELECTORS.LOGIN.ERROR_CONTAINER) || '';
-      console.error(`Login error: ${errorText.trim()}`);
+      logger.info(`Login error: ${errorText.trim()}`);
+      await checkAccountLocked(page, errorText);
       
       // Skip checking password errors if the error is about OTP
-      if (errorText.toLowerCase().includes('code') || 
-          errorText.toLowerCase().includes('verification') || 
-          errorText.toLowerCase().includes('otp') ||
-          errorText.toLowerCase().includes('wait 60 seconds')) {
-        console.log("Detected OTP-related message, not treating as password error");
-        return true;
+      const lowerErrorText = errorText.toLowerCase();
+      if (getMarketplace().loginTexts.otpKeywords.some(keyword => lowerErrorText.includes(keyword))) {
+        logger.info("Detected OTP-related message, not treating as password error");
+        return;
       }
       
-      return false;
+      throw new WrongPasswordError(`Sign-in rejected: ${errorText.trim()}`);
     }
     
     // If no error, wait for navigation to complete
-    console.log("Checking for successful login...");
+    logger.info("Checking for successful login...");
     
     // Take screenshot before navigation check
-    await page.screenshot({ path: 'pre-navigation-check.png' });
+    await captureDiagnostics(page, 'pre-navigation-check');
     
     try {
       // Check current URL to see if we've already navigated
@@ -159,8 +186,8 @@ export async function enterPassword(page: Page, password: string): Promise<boole
       
       // If we're already navigated to a non-login URL, we're successful
       if (!currentUrl.includes('/ap/signin') && !currentUrl.includes('/ap/password')) {
-        console.log(`Already navigated to: ${currentUrl}`);
-        return true;
+        logger.info(`Already navigated to: ${currentUrl}`);
+        return;
       }
       
       // Use Promise.race with timeout instead of waitForNavigation
@@ -181,42 +208,45 @@ export async function enterPassword(page: Page, password: string): Promise<boole
       ]);
       
       const result = await navigationCheck;
-      console.log(`Login navigation result: ${result}`);
+      logger.info(`Login navigation result: ${result}`);
       
       // Take post-navigation screenshot
-      await page.screenshot({ path: 'post-navigation-check.png' });
+      await captureDiagnostics(page, 'post-navigation-check');
+      await assertNoChallenge(page);
       
       // Final verification that we're not on login page
       const stillOnLoginPage = await page.isVisible(SELECTORS.LOGIN.AUTH_WORKFLOW, { timeout: 5000 })
         .catch(() => false);
       
       if (stillOnLoginPage) {
-        console.log("Still detected on login page, login may have failed");
-        return false;
+        throw new WrongPasswordError('Still on the login page after signing in');
       }
       
       // If we're on a non-login URL, we're successful
       const finalUrl = page.url();
-      console.log(`Final URL: ${finalUrl}`);
-      return !finalUrl.includes('/ap/signin') && !finalUrl.includes('/ap/password');
-      
+      logger.info(`Final URL: ${finalUrl}`);
+      if (finalUrl.includes('/ap/signin') || finalUrl.includes('/ap/password')) {
+        throw new WrongPasswordError('Still on the login page after signing in');
+      }
     } catch (error) {
-      console.error('Error during navigation check:', error);
+      if (error instanceof ScraperError) {
+        throw error;
+      }
+      logger.warn('Error during navigation check:', error);
       
       // Check if we landed on the homepage despite the error
       const homePageCheck = await page.isVisible('#nav-logo, #navbar', { timeout: 5000 })
         .catch(() => false);
       
       if (homePageCheck) {
-        console.log("Detected Amazon homepage elements, considering login successful");
-        return true;
+        logger.info("Detected Amazon homepage elements, considering login successful");
+        return;
       }
       
-      return false;
+      throw toNavigationError(error, 'the page after signing in');
     }
   } catch (error) {
-    console.error('Error entering password:', error);
-    return false;
+    throw toNavigationError(error, 'the page after signing in');
   }
 }
 
@@ -231,12 +261,12 @@ export async function checkInvalidCredentials(page: Page): Promise<boolean> {
     const hasError = await page.isVisible(SELECTORS.LOGIN.ALERT_CONTENT);
     if (hasError) {
       const errorText = await page.textContent(SELECTORS.LOGIN.ALERT_CONTENT) || '';
-      console.error(`Login error: ${errorText}`);
+      logger.error(`Login error: ${errorText}`);
       return true;
     }
     return false;
   } catch (error) {
-    console.error('Error checking invalid credentials:', error);
+    logger.error('Error checking invalid credentials:', error);
     return false;
   }
 } 
\ No newline at end of file
@@ -0,0 +1,177 @@
+/**
+ * Supported Amazon storefronts and their locale-specific settings
+ */
+import { ItemStatusTexts, Marketplace, MarketplaceId, OrderSummaryLabels } from './types';
+
+/**
+ * German month names and abbreviations as shown on amazon.de order pages
+ */
+const GERMAN_MONTHS: Record<string, number> = {
+  januar: 1, jan: 1,
+  februar: 2, feb: 2,
+  'märz': 3, 'mär': 3, maerz: 3,
+  april: 4, apr: 4,
+  mai: 5,
+  juni: 6, jun: 6,
+  juli: 7, jul: 7,
+  august: 8, aug: 8,
+  september: 9, sep: 9, sept: 9,
+  oktober: 10, okt: 10,
+  november: 11, nov: 11,
+  dezember: 12, dez: 12
+};
+
+/**
+ * Error texts shown by the English-language sign-in pages
+ */
+const ENGLISH_LOGIN_TEXTS: Marketplace['loginTexts'] = {
+  invalidMobile: 'Invalid mobile number',
+  incorrectPassword: 'Your password is incorrect',
+  usernameErrorKeywords: ['find', 'cannot', 'problem', 'invalid'],
+  otpKeywords: ['code', 'verification', 'otp', 'wait 60 seconds'],
+  accountLockedKeywords: ['locked', 'on hold', 'has been suspended', 'deactivated']
+};
+
+/**
+ * Summary line labels of the English-language order details pages. Tax words
+ * are specific enough not to match "Total before tax".
+ */
+const ENGLISH_SUMMARY_LABELS: OrderSummaryLabels = {
+  grandTotal: ['grand total', 'order total'],
+  refund: ['refund'],
+  subtotal: ['subtotal'],
+  promotion: ['promotion', 'discount', 'coupon', 'savings', 'free shipping', 'free delivery', 'reward'],
+  shipping: ['shipping', 'postage', 'delivery'],
+  tax: ['estimated tax', 'tax to be collected', 'sales tax', 'vat', 'gst']
+};
+
+/**
+ * Item status headlines of the English-language order pages
+ */
+const ENGLISH_STATUS_TEXTS: ItemStatusTexts = {
+  refunded: ['refunded', 'refund issued', 'refund completed'],
+  returned: ['returned', 'return complete', 'return received'],
+  'return-started': ['return started', 'return in progress', 'return requested', 'replacement'],
+  cancelled: ['cancelled', 'canceled'],
+  delivered: ['delivered'],
+  'in-transit': ['arriving', 'shipped', 'dispatched', 'out for delivery', 'on the way', 'not yet shipped', 'expected by']
+};
+
+export const MARKETPLACES: Record<MarketplaceId, Marketplace> = {
+  in: {
+    id: 'in',
+    domain: 'amazon.in',
+    assocHandle: 'inflex',
+    currency: 'INR',
+    locale: 'en-IN',
+    phonePattern: /^\d{10}$/,
+    months: {},
+    loginTexts: ENGLISH_LOGIN_TEXTS,
+    summaryLabels: ENGLISH_SUMMARY_LABELS,
+    statusTexts: ENGLISH_STATUS_TEXTS
+  },
+  com: {
+    id: 'com',
+    domain: 'amazon.com',
+    assocHandle: 'usflex',
+    currency: 'USD',
+    locale: 'en-US',
+    phonePattern: /^\+?\d{10,15}$/,
+    months: {},
+    loginTexts: ENGLISH_LOGIN_TEXTS,
+    summaryLabels: ENGLISH_SUMMARY_LABELS,
+    statusTexts: ENGLISH_STATUS_TEXTS
+  },
+  'co.uk': {
+    id: 'co.uk',
+    domain: 'amazon.co.uk',
+    assocHandle: 'gbflex',
+    currency: 'GBP',
+    locale: 'en-GB',
+    phonePattern: /^\+?\d{10,15}$/,
+    months: {},
+    loginTexts: ENGLISH_LOGIN_TEXTS,
+    summaryLabels: ENGLISH_SUMMARY_LABELS,
+    statusTexts: ENGLISH_STATUS_TEXTS
+  },
+  de: {
+    id: 'de',
+    domain: 'amazon.de',
+    assocHandle: 'deflex',
+    currency: 'EUR',
+    locale: 'de-DE',
+    phonePattern: /^\+?\d{10,15}$/,
+    months: GERMAN_MONTHS,
+    loginTexts: {
+      invalidMobile: 'Ungültige Mobiltelefonnummer',
+      incorrectPassword: 'Ihr Passwort ist falsch',
+      usernameErrorKeywords: ['finden', 'nicht', 'problem', 'ungültig'],
+      otpKeywords: ['code', 'bestätigung', 'verifizierung', 'otp', '60 sekunden'],
+      accountLockedKeywords: ['gesperrt', 'deaktiviert', 'ausgesetzt']
+    },
+    summaryLabels: {
+      grandTotal: ['gesamtsumme', 'endbetrag'],
+      refund: ['erstattung', 'erstattet'],
+      subtotal: ['zwischensumme'],
+      promotion: ['rabatt', 'gutschein', 'aktion', 'nachlass', 'versandkostenfrei'],
+      shipping: ['versand', 'verpackung', 'lieferung'],
+      tax: ['mwst', 'umsatzsteuer']
+    },
+    statusTexts: {
+      refunded: ['erstattet', 'erstattung veranlasst'],
+      returned: ['zurückgegeben', 'rücksendung abgeschlossen', 'rücksendung erhalten'],
+      'return-started': ['rücksendung gestartet', 'rücksendung angefordert', 'ersatz'],
+      cancelled: ['storniert'],
+      delivered: ['zugestellt', 'geliefert am'],
+      'in-transit': ['unterwegs', 'versandt', 'verschickt', 'lieferung', 'voraussichtlich', 'wird geliefert']
+    }
+  }
+};
+
+export const MARKETPLACE_IDS = Object.keys(MARKETPLACES) as MarketplaceId[];
+
+let activeMarketplace: Marketplace = MARKETPLACES.in;
+
+/**
+ * Get the storefront the scraper is working against
+ * @returns Active marketplace
+ */
+export function getMarketplace(): Marketplace {
+  return activeMarketplace;
+}
+
+/**
+ * Set the storefront the scraper is working against. Use selectMarketplace
+ * from config.ts instead, which also points URLS and SELECTORS at it.
+ * @param id Marketplace to activate
+ * @returns Activated marketplace
+ */
+export function setActiveMarketplace(id: MarketplaceId): Marketplace {
+  activeMarketplace = MARKETPLACES[id];
+  return activeMarketplace;
+}
+
+/**
+ * Build the storefront URLs of a marketplace
+ * @param marketplace Marketplace to build URLs for
+ * @returns URLs in the shape of URLS in config.ts
+ */
+export function buildMarketplaceUrls(marketplace: Marketplace) {
+  const baseUrl = `https://www.${marketplace.domain}`;
+  const returnTo = encodeURIComponent(`${baseUrl}/?ref_=nav_signin`);
+  const openIdSelect = encodeURIComponent('http://specs.openid.net/auth/2.0/identifier_select');
+  const openIdNs = encodeURIComponent('http://specs.openid.net/auth/2.0');
+
+  return {
+    LOGIN: `${baseUrl}/ap/signin?openid.pape.max_auth_age=0&openid.return_to=${returnTo}&openid.identity=${openIdSelect}&openid.assoc_handle=${marketplace.assocHandle}&openid.mode=checkid_setup&openid.claimed_id=${openIdSelect}&openid.ns=${openIdNs}`,
+    ORDER_HISTORY: `${baseUrl}/gp/css/order-history`,
+    ORDER_HISTORY_YEAR: (year: number, startIndex = 0) =>
+      `${baseUrl}/your-orders/orders?timeFilter=year-${year}${startIndex > 0 ? `&startIndex=${startIndex}` : ''}`,
+    DIGITAL_ORDER_HISTORY_YEAR: (year: number, startIndex = 0) =>
+      `${baseUrl}/gp/your-account/order-history?digitalOrders=1&unifiedOrders=0&orderFilter=year-${year}${startIndex > 0 ? `&startIndex=${startIndex}` : ''}`,
+    ORDER_HISTORY_CANCELLED: (startIndex = 0) =>
+      `${baseUrl}/your-orders/orders?timeFilter=cancelled${startIndex > 0 ? `&startIndex=${startIndex}` : ''}`,
+    ORDER_SUMMARY_PRINT: (orderId: string) => `${baseUrl}/gp/css/summary/print.html?orderID=${encodeURIComponent(orderId)}`,
+    BASE_URL: baseUrl
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Parsing of price strings into structured money values
+ */
+import { Money } from './types';
+import { getMarketplace } from './marketplace';
+
+/**
+ * Currency symbols and codes mapped to ISO 4217 codes, ordered so that
+ * "US$" is matched before "$" and "Rs." before "Rs"
+ */
+const CURRENCY_TOKENS: Array<[string, string]> = [
+  ['US$', 'USD'],
+  ['Rs.', 'INR'],
+  ['Rs', 'INR'],
+  ['INR', 'INR'],
+  ['USD', 'USD'],
+  ['GBP', 'GBP'],
+  ['EUR', 'EUR'],
+  ['JPY', 'JPY'],
+  ['₹', 'INR'],
+  ['$', 'USD'],
+  ['£', 'GBP'],
+  ['€', 'EUR'],
+  ['¥', 'JPY']
+];
+
+/**
+ * Decimal places for currencies that don't use two
+ */
+const MINOR_UNIT_DIGITS: Record<string, number> = {
+  JPY: 0
+};
+
+/**
+ * Words Amazon shows instead of an amount for zero-value orders
+ */
+const FREE_TEXTS = ['free', 'gratis', 'kostenlos'];
+
+/**
+ * Detect the currency of a price string
+ * @param text Raw price text
+ * @returns ISO currency code or null if no symbol or code is present
+ */
+export function detectCurrency(text: string): string | null {
+  for (const [token, code] of CURRENCY_TOKENS) {
+    if (text.includes(token)) {
+      return code;
+    }
+  }
+  return null;
+}
+
+/**
+ * Split a number string into integer and fraction digits, working out whether
+ * "," or "." is the decimal separator. Handles Indian grouping ("1,23,456.00"),
+ * western grouping ("1,234.56") and continental grouping ("1.234,56").
+ * @param numberText Number text containing only digits, "," and "."
+ * @returns Integer and fraction digits or null if the text is not a number
+ */
+function splitNumber(numberText: string): { integer: string; fraction: string } | null {
+  if (!/\d/.test(numberText)) {
+    return null;
+  }
+
+  const lastComma = numberText.lastIndexOf(',');
+  const lastDot = numberText.lastIndexOf('.');
+  let decimalIndex = -1;
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    // Both separators present: whichever comes last is the decimal separator
+    decimalIndex = Math.max(lastComma, lastDot);
+  } else if (lastComma !== -1 || lastDot !== -1) {
+    // A single separator type is a decimal point only if it appears once and is
+    // followed by one or two digits, otherwise it groups thousands
+    const separator = lastComma !== -1 ? ',' : '.';
+    const index = Math.max(lastComma, lastDot);
+    const occurrences = numberText.split(separator).length - 1;
+    const digitsAfter = numberText.length - index - 1;
+    if (occurrences === 1 && digitsAfter > 0 && digitsAfter <= 2) {
+      decimalIndex = index;
+    }
+  }
+
+  const integerPart = decimalIndex === -1 ? numberText : numberText.slice(0, decimalIndex);
+  const fractionPart = decimalIndex === -1 ? '' : numberText.slice(decimalIndex + 1);
+
+  return {
+    integer: integerPart.replace(/[.,]/g, '') || '0',
+    fraction: fractionPart.replace(/[.,]/g, '')
+  };
+}
+
+/**
+ * Parse a price string such as "₹1,23,456.00", "$19.99", "EUR 12,50" or "FREE"
+ * @param raw Raw price text as shown on the page
+ * @param defaultCurrency Currency to assume when the text has no symbol or code, by default the marketplace's
+ * @returns Parsed money value or null if the text holds no amount (e.g. "N/A")
+ */
+export function parseMoney(raw: string, defaultCurrency = getMarketplace().currency): Money | null {
+  const text = (raw || '').trim();
+  if (!text || text.toUpperCase() === 'N/A') {
+    return null;
+  }
+
+  const currency = detectCurrency(text) || defaultCurrency;
+
+  if (FREE_TEXTS.includes(text.toLowerCase())) {
+    return { amount: 0, currency, raw };
+  }
+
+  const numberMatch = text.match(/\d[\d.,]*/);
+  if (!numberMatch) {
+    return null;
+  }
+
+  const parts = splitNumber(numberMatch[0].replace(/[.,]$/, ''));
+  if (!parts) {
+    return null;
+  }
+
+  // Build the amount from digit strings to avoid floating point rounding
+  const minorDigits = MINOR_UNIT_DIGITS[currency] ?? 2;
+  const fraction = parts.fraction.padEnd(minorDigits, '0');
+  let amount = parseInt(parts.integer + fraction.slice(0, minorDigits), 10);
+  if (fraction.length > minorDigits && parseInt(fraction[minorDigits], 10) >= 5) {
+    amount += 1;
+  }
+
+  // A minus sign may come before or after the currency symbol ("-₹100", "₹-100")
+  const isNegative = /[-−]/.test(text.slice(0, numberMatch.index));
+  return { amount: isNegative ? -amount : amount, currency, raw };
+}
+
+/**
+ * Format the amount of a money value in major units
+ * @param money Parsed money value
+ * @returns Decimal amount without currency, e.g. "1299.00"
+ */
+export function formatAmount(money: Money): string {
+  const minorDigits = MINOR_UNIT_DIGITS[money.currency] ?? 2;
+  return (money.amount / Math.pow(10, minorDigits)).toFixed(minorDigits);
+}
+
+/**
+ * Format a money value for display
+ * @param money Parsed money value
+ * @returns Amount in major units with currency code, e.g. "INR 1299.00"
+ */
+export function formatMoney(money: Money): string {
+  return `${money.currency} ${formatAmount(money)}`;
+}
+
+/**
+ * Build a money value for a computed amount, such as a sum, which no page shows
+ * @param amount Amount in minor units
+ * @param currency ISO currency code
+ * @returns Money value whose raw text is the formatted amount
+ */
+export function createMoney(amount: number, currency: string): Money {
+  return { amount, currency, raw: formatMoney({ amount, currency, raw: '' }) };
+}
@@ -1,12 +1,16 @@
 import { Page } from 'playwright';
 import { URLS, SELECTORS, TIMEOUTS } from './config';
+import { logger } from './logger';
+import { captureDiagnostics } from './diagnostics';
+import { NavigationTimeoutError, toNavigationError } from './errors';
+import { OrderHistoryView } from './types';
 
 /**
  * Navigate to Amazon order history
  * @param page Playwright page instance
- * @returns Boolean indicating success
+ * @throws NavigationTimeoutError if the order history does not appear
  */
-export async function navigateToOrderHistory(page: Page): Promise<boolean> {
+export async function navigateToOrderHistory(page: Page): Promise<void> {
   try {
     // Look for and click on Orders link
     const orderButton = await page.$(SELECTORS.ORDERS.ORDER_BUTTON);
@@ -15,19 +19,19 @@ export async function navigateToOrderHistory(page: Page): Promise<boolean> {
       await orderButton.click();
       
       // Instead of waiting for navigation, wait for order page content to appear
-      console.log('Waiting for order page elements to appear...');
+      logger.info('Waiting for order page elements to appear...');
       try {
         // Wait longer and check more frequently
         let orderPageLoaded = false;
         for (let attempt = 0; attempt < 10 && !orderPageLoaded; attempt++) {
-          console.log(`Order page check attempt ${attempt + 1}...`);
+          logger.info(`Order page check attempt ${attempt + 1}...`);
           
           // Check the URL first as the most reliable indicator
           const currentUrl = page.url();
           if (currentUrl.includes('order-history') || 
               currentUrl.includes('your-orders') || 
               currentUrl.includes('gp/css/order-history')) {
-            console.log(`Order page URL detected: ${currentUrl}`);
+            logger.info(`Order page URL detected: ${currentUrl}`);
             await page.waitForTimeout(TIMEOUTS.ORDER_PAGE_CHECK); // Give page content time to load
             orderPageLoaded = true;
             break;
@@ -38,7 +42,7 @@ export async function navigateToOrderHistory(page: Page): Promise<boolean> {
             try {
               const isVisible = await page.isVisible(selector, { timeout: TIMEOUTS.ORDER_PAGE_CHECK });
               if (isVisible) {
-                console.log(`Order page loaded, found indicator: ${selector}`);
+                logger.info(`Order page loaded, found indicator: ${selector}`);
                 orderPageLoaded = true;
                 break;
               }
@@ -53,48 +57,47 @@ export async function navigateToOrderHistory(page: Page): Promise<boolean> {
         }
         
         // Take a screenshot of the current state
-        await page.screenshot({ path: 'order-page-check.png' });
+        await captureDiagnostics(page, 'order-page-check');
         
         if (orderPageLoaded) {
-          return true;
+          return;
         }
-        
-        console.error('Timed out waiting for orders page content');
-        return false;
       } catch (error) {
-        console.error('Error while waiting for orders page:', error);
+        logger.warn('Error while waiting for orders page:', error);
         
         // Take a screenshot to see what's on the page
-        await page.screenshot({ path: 'orders-page-error.png' });
+        await captureDiagnostics(page, 'orders-page-error');
         
         // Check if we're on the orders page despite the error
         const url = page.url();
         if (url.includes('order-history') || url.includes('your-orders')) {
-          console.log('URL indicates we might be on the orders page, proceeding');
-          return true;
+          logger.info('URL indicates we might be on the orders page, proceeding');
+          return;
         }
         
-        return false;
+        throw error;
       }
+      
+      throw new NavigationTimeoutError('Timed out waiting for orders page content');
     }
     
     // Direct navigation as last resort
-    console.log('Using direct URL navigation to orders page...');
+    logger.info('Using direct URL navigation to orders page...');
     await page.goto(URLS.ORDER_HISTORY, { 
       waitUntil: 'load',
       timeout: TIMEOUTS.ORDER_PAGE_LOAD
     });
     
     // Wait for any order page elements after direct navigation
-    console.log('Checking for order page elements after direct navigation...');
+    logger.info('Checking for order page elements after direct navigation...');
     
     // Look for any order page indicators
     for (const selector of SELECTORS.ORDERS.ORDER_PAGE_INDICATORS) {
       try {
         const isVisible = await page.isVisible(selector, { timeout: TIMEOUTS.ORDER_PAGE_CHECK });
         if (isVisible) {
-          console.log(`Order page loaded after direct navigation, found: ${selector}`);
-          return true;
+          logger.info(`Order page loaded after direct navigation, found: ${selector}`);
+          return;
         }
       } catch {
         // Continue trying other selectors
@@ -104,33 +107,44 @@ export async function navigateToOrderHistory(page: Page): Promise<boolean> {
     // If we got here, check the URL as a last resort
     const currentUrl = page.url();
     if (currentUrl.includes('order-history') || currentUrl.includes('your-orders')) {
-      console.log('URL indicates we might be on the orders page, proceeding');
-      return true;
+      logger.info('URL indicates we might be on the orders page, proceeding');
+      return;
     }
     
-    return false;
+    throw new NavigationTimeoutError(`Order history did not load, ended up on ${currentUrl}`);
   } catch (error) {
-    console.error('Error navigating to order history:', error);
-    return false;
+    throw toNavigationError(error, 'the order history');
   }
 }
 
+/**
+ * Build the URL of a page of a year's orders
+ * @param view Order history listing
+ * @param year Year whose orders are listed
+ * @param startIndex Index of the first order on the page
+ * @returns Page URL
+ */
+export function getOrderYearUrl(view: OrderHistoryView, year: number, startIndex = 0): string {
+  return view === 'digital' ? URLS.DIGITAL_ORDER_HISTORY_YEAR(year, startIndex) : URLS.ORDER_HISTORY_YEAR(year, startIndex);
+}
+
 /**
  * Select a specific year for orders
  * @param page Playwright page instance
  * @param year Year to select
- * @returns Boolean indicating success
+ * @param view Order history listing, the default one or the digital orders view
+ * @throws NavigationTimeoutError if the year's order page does not load
  */
-export async function selectOrderYear(page: Page, year: number): Promise<boolean> {
+export async function selectOrderYear(page: Page, year: number, view: OrderHistoryView = 'orders'): Promise<void> {
   try {
     // Amazon uses query parameters or path segments for year filtering
-    await page.goto(URLS.ORDER_HISTORY_YEAR(year), {
+    await page.goto(getOrderYearUrl(view, year), {
       waitUntil: 'load',
       timeout: TIMEOUTS.ORDER_PAGE_LOAD
     });
     
     // Wait for order content after direct navigation
-    console.log('Waiting for order content after direct year navigation...');
+    logger.info('Waiting for order content after direct year navigation...');
     await page.waitForTimeout(TIMEOUTS.YEAR_NAVIGATION);
     
     // Check if we see any orders
@@ -140,16 +154,13 @@ export async function selectOrderYear(page: Page, year: number): Promise<boolean
     );
     
     if (orderElementsVisible) {
-      console.log(`Successfully accessed ${year} orders via direct URL`);
-      return true;
+      logger.info(`Successfully accessed ${year} orders via direct URL`);
     } else {
-      // Take a screenshot to see what's happening
-      await page.screenshot({ path: `year-direct-navigation-${year}.png` });
-      console.warn(`Direct navigation to ${year} shows no visible orders, but continuing`);
-      return true; // Return true anyway to allow scraping to continue
+      // Take a screenshot to see what's happening; the year may simply have no orders
+      await captureDiagnostics(page, `year-direct-navigation-${year}`);
+      logger.warn(`Direct navigation to ${year} shows no visible orders, but continuing`);
     }
   } catch (error) {
-    console.error(`Error selecting year ${year}:`, error);
-    return false;
+    throw toNavigationError(error, `the ${year} orders`);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,179 @@
+/**
+ * Loading of selector, timeout and URL overrides from an external file
+ */
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { URLS, SELECTORS, TIMEOUTS } from './config';
+import { ConfigOverrides, ScraperError } from './types';
+
+/**
+ * Sections of config.ts that an override file may change
+ */
+const OVERRIDABLE_SECTIONS: Record<keyof ConfigOverrides, Record<string, unknown>> = {
+  SELECTORS,
+  TIMEOUTS,
+  URLS
+};
+
+/**
+ * Describe the type of a value for error messages
+ * @param value Value to describe
+ * @returns Type name, distinguishing arrays and null from objects
+ */
+function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Check a plain object from an override file against its default counterpart,
+ * which acts as the schema: every key must exist in the defaults and every
+ * value must have the same shape as the default it replaces.
+ * @param value Value from the override file
+ * @param defaults Default value from config.ts
+ * @param keyPath Dotted path of the value, used in error messages
+ * @param errors Collected error messages
+ */
+function validateAgainstDefaults(value: unknown, defaults: unknown, keyPath: string, errors: string[]): void {
+  if (typeof defaults === 'function') {
+    errors.push(`${keyPath} is computed and cannot be overridden`);
+    return;
+  }
+
+  if (Array.isArray(defaults)) {
+    if (!Array.isArray(value)) {
+      errors.push(`${keyPath} must be an array of selectors, got ${typeName(value)}`);
+    } else if (value.length === 0 || value.some(entry => typeof entry !== 'string' || !entry.trim())) {
+      errors.push(`${keyPath} must be a non-empty array of non-empty strings`);
+    }
+    return;
+  }
+
+  if (typeof defaults === 'object' && defaults !== null) {
+    if (typeName(value) !== 'object') {
+      errors.push(`${keyPath} must be an object, got ${typeName(value)}`);
+      return;
+    }
+    for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+      if (!Object.prototype.hasOwnProperty.call(defaults, key)) {
+        const known = Object.keys(defaults).join(', ');
+        errors.push(`Unknown key ${keyPath}.${key} (expected one of: ${known})`);
+        continue;
+      }
+      validateAgainstDefaults(entry, (defaults as Record<string, unknown>)[key], `${keyPath}.${key}`, errors);
+    }
+    return;
+  }
+
+  if (typeof defaults === 'number') {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      errors.push(`${keyPath} must be a non-negative integer number of milliseconds, got ${JSON.stringify(value)}`);
+    }
+    return;
+  }
+
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push(`${keyPath} must be a non-empty string, got ${JSON.stringify(value)}`);
+  } else if (keyPath.startsWith('URLS.') && !/^https?:\/\//.test(value)) {
+    errors.push(`${keyPath} must be an http(s) URL, got "${value}"`);
+  }
+}
+
+/**
+ * Validate the contents of an override file
+ * @param value Parsed file contents
+ * @param source File the overrides came from, used in error messages
+ * @returns The overrides, typed
+ * @throws ScraperError listing every problem found
+ */
+export function validateConfigOverrides(value: unknown, source?: string): ConfigOverrides {
+  const errors: string[] = [];
+
+  if (typeName(value) !== 'object') {
+    errors.push(`Overrides must be an object with ${Object.keys(OVERRIDABLE_SECTIONS).join(', ')} sections, got ${typeName(value)}`);
+  } else {
+    for (const [section, entry] of Object.entries(value as Record<string, unknown>)) {
+      if (!Object.prototype.hasOwnProperty.call(OVERRIDABLE_SECTIONS, section)) {
+        errors.push(`Unknown section ${section} (expected one of: ${Object.keys(OVERRIDABLE_SECTIONS).join(', ')})`);
+        continue;
+      }
+      validateAgainstDefaults(entry, OVERRIDABLE_SECTIONS[section as keyof ConfigOverrides], section, errors);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ScraperError(`Invalid config overrides${source ? ` in ${source}` : ''}:\n  - ${errors.join('\n  - ')}`);
+  }
+  return value as ConfigOverrides;
+}
+
+/**
+ * Read and validate an override file. Files ending in .yaml or .yml are parsed
+ * as YAML, everything else as JSON.
+ * @param filePath Override file
+ * @returns Validated overrides
+ * @throws ScraperError if the file cannot be read, parsed or validated
+ */
+export function loadConfigOverrides(filePath: string): ConfigOverrides {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new ScraperError(`Could not read config overrides from ${filePath}: ${(error as Error).message}`);
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  let parsed: unknown;
+  try {
+    parsed = extension === '.yaml' || extension === '.yml' ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new ScraperError(`Could not parse config overrides in ${filePath}: ${(error as Error).message}`);
+  }
+
+  return validateConfigOverrides(parsed, filePath);
+}
+
+/**
+ * Deep-merge an override object into a config section. Arrays are replaced
+ * rather than merged, so a fallback list can be reordered or trimmed.
+ * @param target Config section to change in place
+ * @param overrides Validated overrides for the section
+ */
+function mergeInto(target: Record<string, unknown>, overrides: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(overrides)) {
+    const current = target[key];
+    if (typeName(value) === 'object' && typeName(current) === 'object') {
+      mergeInto(current as Record<string, unknown>, value as Record<string, unknown>);
+    } else {
+      target[key] = Array.isArray(value) ? [...value] : value;
+    }
+  }
+}
+
+/**
+ * Apply validated overrides to SELECTORS, TIMEOUTS and URLS. Call this after
+ * selectMarketplace so the overrides win over the marketplace defaults.
+ * @param overrides Overrides returned by loadConfigOverrides
+ * @returns Dotted paths of the settings that were overridden
+ */
+export function applyConfigOverrides(overrides: ConfigOverrides): string[] {
+  const applied: string[] = [];
+  const collectPaths = (value: unknown, keyPath: string) => {
+    if (typeName(value) === 'object') {
+      Object.entries(value as Record<string, unknown>).forEach(([key, entry]) => collectPaths(entry, `${keyPath}.${key}`));
+    } else {
+      applied.push(keyPath);
+    }
+  };
+
+  for (const section of Object.keys(OVERRIDABLE_SECTIONS) as Array<keyof ConfigOverrides>) {
+    const sectionOverrides = overrides[section];
+    if (sectionOverrides) {
+      mergeInto(OVERRIDABLE_SECTIONS[section], sectionOverrides);
+      collectPaths(sectionOverrides, section);
+    }
+  }
+  return applied;
+}
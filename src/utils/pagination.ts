@@ -0,0 +1,217 @@
+import { Page } from 'playwright';
+import { URLS, SELECTORS, TIMEOUTS, SCRAPE_DEFAULTS } from './config';
+import { Order, OrderHistoryView, YearScrapeResult, YearScrapeStats, YearPageOptions } from './types';
+import { getOrderYearUrl, selectOrderYear } from './navigation';
+import { extractOrders } from './extraction';
+import { filterOrdersByDate } from './dates';
+import { filterOrdersByPurchaseType } from './purchases';
+import { getOrderKey } from './sync';
+import { logger } from './logger';
+import { captureDiagnostics } from './diagnostics';
+import { ExtractionEmptyError, toNavigationError } from './errors';
+
+/**
+ * Follow the pagination control of an order history listing to its next page
+ * @param page Playwright page instance
+ * @param fallbackUrl URL of the next page, opened when the "Next" link has no href
+ * @param label What is being listed, for the log, e.g. "2024 orders"
+ * @param pageIndex Zero-based index of the page to open
+ * @returns Boolean indicating if there was a next page to open
+ */
+async function openNextListingPage(page: Page, fallbackUrl: string, label: string, pageIndex: number): Promise<boolean> {
+  try {
+    // Years with a single page of orders have no pagination control
+    const hasPagination = await page.isVisible(SELECTORS.ORDERS.PAGINATION);
+    if (!hasPagination) {
+      return false;
+    }
+
+    const isLastPage = await page.isVisible(SELECTORS.ORDERS.PAGINATION_LAST_DISABLED);
+    if (isLastPage) {
+      return false;
+    }
+
+    // Prefer the "Next" link, falling back to the startIndex query parameter
+    const nextLink = await page.$(SELECTORS.ORDERS.PAGINATION_NEXT);
+    const href = nextLink ? await nextLink.getAttribute('href') : null;
+    const nextUrl = href ? new URL(href, URLS.BASE_URL).toString() : fallbackUrl;
+
+    logger.info(`Opening page ${pageIndex + 1} of ${label}...`);
+    await page.goto(nextUrl, {
+      waitUntil: 'load',
+      timeout: TIMEOUTS.ORDER_PAGE_LOAD
+    });
+    await page.waitForTimeout(TIMEOUTS.PAGE_LOAD);
+    return true;
+  } catch (error) {
+    logger.error(`Error opening page ${pageIndex + 1} of ${label}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Move to the next page of the order history for a year
+ * @param page Playwright page instance
+ * @param year Year whose orders are being listed
+ * @param pageIndex Zero-based index of the page to open
+ * @param view Order history listing being walked
+ * @returns Boolean indicating if there was a next page to open
+ */
+export async function goToNextOrderPage(
+  page: Page,
+  year: number,
+  pageIndex: number,
+  view: OrderHistoryView = 'orders'
+): Promise<boolean> {
+  const fallbackUrl = getOrderYearUrl(view, year, pageIndex * SCRAPE_DEFAULTS.ORDERS_PER_PAGE);
+  return openNextListingPage(page, fallbackUrl, `${year} ${view === 'digital' ? 'digital orders' : 'orders'}`, pageIndex);
+}
+
+/**
+ * Read the number of orders the order history says a year has
+ * @param page Playwright page instance showing the year's first page
+ * @returns Order count, or null if the page does not show one
+ */
+export async function readOrderCount(page: Page): Promise<number | null> {
+  const text = await page.textContent(SELECTORS.ORDERS.ORDER_COUNT, { timeout: TIMEOUTS.ELEMENT_WAIT }).catch(() => null);
+  const match = text ? text.replace(/[.,\s]/g, '').match(/\d+/) : null;
+  return match ? parseInt(match[0], 10) : null;
+}
+
+/**
+ * Extract the orders of a year, walking every page of its order history
+ * @param page Playwright page instance
+ * @param year Year to scrape
+ * @param options Order limit, date range, purchase types, orders already known
+ *   from previous runs and the listing to walk
+ * @returns Orders found and how many pages were visited
+ * @throws NavigationTimeoutError if the year does not load, ExtractionEmptyError
+ *   if the year has orders but none could be extracted
+ */
+export async function scrapeOrderYear(page: Page, year: number, options: YearPageOptions): Promise<YearScrapeResult> {
+  const orders: Order[] = [];
+  const stats: YearScrapeStats = { year, pages: 0, ordersVisited: 0, ordersCollected: 0 };
+  let reachedKnownOrders = false;
+  const view = options.view || 'orders';
+
+  await selectOrderYear(page, year, view);
+
+  let previousFirstOrderId: string | null = null;
+  for (let pageIndex = 0; pageIndex < SCRAPE_DEFAULTS.MAX_PAGES_PER_YEAR; pageIndex++) {
+    if (pageIndex > 0 && !(await goToNextOrderPage(page, year, pageIndex, view))) {
+      break;
+    }
+
+    const pageOrders = await extractOrders(page);
+    stats.pages++;
+
+    // No orders on a page that counts some means the order cards are no longer recognised
+    if (pageIndex === 0 && pageOrders.length === 0) {
+      const orderCount = await readOrderCount(page);
+      if (orderCount) {
+        await captureDiagnostics(page, `extraction-empty-${year}`);
+        throw new ExtractionEmptyError(`The ${year} order history lists ${orderCount} order(s), but none could be extracted`);
+      }
+    }
+
+    // Stop if the page didn't change, e.g. a "Next" link that leads back to the same page
+    const firstOrderId = pageOrders.length > 0 ? pageOrders[0].orderId : null;
+    if (pageIndex > 0 && firstOrderId && firstOrderId === previousFirstOrderId) {
+      logger.warn(`Page ${pageIndex + 1} of ${year} repeats the previous page, stopping`);
+      stats.pages--;
+      break;
+    }
+    previousFirstOrderId = firstOrderId;
+    stats.ordersVisited += pageOrders.length;
+
+    // Drop orders outside the date range, of other purchase types and those already scraped by a previous run
+    const knownOrderKeys = options.knownOrderKeys;
+    const newOrders = knownOrderKeys
+      ? pageOrders.filter(order => !knownOrderKeys.has(getOrderKey(order)))
+      : pageOrders;
+    orders.push(...filterOrdersByPurchaseType(filterOrdersByDate(newOrders, options.since, options.until), options.purchaseTypes));
+
+    // A page made up entirely of known orders means everything older was scraped before
+    if (knownOrderKeys && pageOrders.length > 0 && newOrders.length === 0) {
+      logger.info(`Page ${pageIndex + 1} of ${year} only has known orders, stopping`);
+      reachedKnownOrders = true;
+    }
+
+    if (reachedKnownOrders) {
+      break;
+    }
+
+    if (options.limit !== null && orders.length >= options.limit) {
+      orders.splice(options.limit);
+      break;
+    }
+
+    // Orders are listed newest first, so later pages are all older than the lower bound
+    const lastDate = pageOrders.length > 0 ? pageOrders[pageOrders.length - 1].orderDateIso : null;
+    if (options.since && lastDate && lastDate < options.since) {
+      break;
+    }
+  }
+
+  stats.ordersCollected = orders.length;
+  logger.info(`Year ${year}: visited ${stats.pages} page(s) and ${stats.ordersVisited} order(s), collected ${stats.ordersCollected}`);
+  return { orders, stats, reachedKnownOrders };
+}
+
+/**
+ * Extract the orders listed under the cancelled orders filter, which the
+ * yearly order history leaves out. Items whose status headline does not say
+ * what happened are marked as cancelled, as the filter lists nothing else.
+ * @param page Playwright page instance
+ * @param options Order limit, date range and purchase types; known orders are not skipped, as
+ *   an order may have been cancelled since it was first scraped
+ * @returns Cancelled orders, newest first
+ * @throws NavigationTimeoutError if the cancelled orders do not load
+ */
+export async function scrapeCancelledOrders(page: Page, options: YearPageOptions): Promise<Order[]> {
+  const orders: Order[] = [];
+  try {
+    await page.goto(URLS.ORDER_HISTORY_CANCELLED(), { waitUntil: 'load', timeout: TIMEOUTS.ORDER_PAGE_LOAD });
+  } catch (error) {
+    throw toNavigationError(error, 'the cancelled orders');
+  }
+
+  let previousFirstOrderId: string | null = null;
+  for (let pageIndex = 0; pageIndex < SCRAPE_DEFAULTS.MAX_PAGES_PER_YEAR; pageIndex++) {
+    const fallbackUrl = URLS.ORDER_HISTORY_CANCELLED(pageIndex * SCRAPE_DEFAULTS.ORDERS_PER_PAGE);
+    if (pageIndex > 0 && !(await openNextListingPage(page, fallbackUrl, 'cancelled orders', pageIndex))) {
+      break;
+    }
+
+    const pageOrders = await extractOrders(page);
+    const firstOrderId = pageOrders.length > 0 ? pageOrders[0].orderId : null;
+    if (pageIndex > 0 && firstOrderId && firstOrderId === previousFirstOrderId) {
+      logger.warn(`Page ${pageIndex + 1} of cancelled orders repeats the previous page, stopping`);
+      break;
+    }
+    previousFirstOrderId = firstOrderId;
+
+    for (const order of pageOrders) {
+      for (const item of order.items) {
+        if (!item.status || item.status === 'unknown') {
+          item.status = 'cancelled';
+        }
+      }
+    }
+    orders.push(...filterOrdersByPurchaseType(filterOrdersByDate(pageOrders, options.since, options.until), options.purchaseTypes));
+
+    if (options.limit !== null && orders.length >= options.limit) {
+      orders.splice(options.limit);
+      break;
+    }
+
+    // Orders are listed newest first, so later pages are all older than the lower bound
+    const lastDate = pageOrders.length > 0 ? pageOrders[pageOrders.length - 1].orderDateIso : null;
+    if (options.since && lastDate && lastDate < options.since) {
+      break;
+    }
+  }
+
+  logger.info(`Cancelled orders: collected ${orders.length}`);
+  return orders;
+}
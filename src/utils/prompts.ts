@@ -0,0 +1,114 @@
+/**
+ * Interactive terminal prompts, the default credential and OTP providers
+ */
+import inquirer from 'inquirer';
+import { validateCredentials, validatePassword } from './validators';
+import { getMarketplace } from './marketplace';
+import { CredentialProvider, Credentials, MfaMethod, OtpProvider } from './types';
+import { logger } from './logger';
+
+/**
+ * Prompt user for any credentials that were not supplied up front
+ * @param known Credentials already supplied through flags or environment variables
+ * @returns Complete credentials or null if user cancels
+ */
+export async function promptForCredentials(known: Partial<Credentials> = {}, attemptsLeft = 5): Promise<Credentials | null> {
+  if (attemptsLeft <= 0) {
+    logger.error('Maximum attempts reached. Exiting...');
+    return null;
+  }
+
+  if (known.username && known.password) {
+    return { username: known.username, password: known.password };
+  }
+
+  const { username } = known.username ? known : await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'username',
+      message: `Enter your ${getMarketplace().domain} email or phone number:`,
+      validate: (input) => {
+        const { isValid } = validateCredentials(input);
+        if (isValid) return true;
+        return 'Please enter a valid email or phone number.';
+      }
+    }
+  ]);
+
+  const { password } = known.password ? known : await inquirer.prompt([
+    {
+      type: 'password',
+      name: 'password',
+      message: 'Enter your password:',
+      mask: '*',
+      validate: (input) => {
+        return validatePassword(input) || 'Password cannot be empty.';
+      }
+    }
+  ]);
+
+  return { username: username as string, password: password as string };
+}
+
+/**
+ * Prompt user for OTP code
+ * @param attemptsLeft Number of attempts remaining
+ * @param method Where the code comes from, used in the prompt text
+ * @returns OTP code or null if user cancels
+ */
+export async function promptForMFA(attemptsLeft: number, method: MfaMethod = 'sms'): Promise<string | null> {
+  const source = method === 'totp' ? 'shown in your authenticator app' : 'sent to your mobile';
+  const questions = [
+    {
+      type: 'input',
+      name: 'otpCode',
+      message: `Enter the OTP ${source} (${attemptsLeft} attempts left):`,
+    }
+  ];
+
+  try {
+    const answers = await inquirer.prompt(questions);
+    return answers.otpCode;
+  } catch (error) {
+    logger.error('Error prompting for OTP:', error);
+    return null;
+  }
+}
+
+/**
+ * Prompt user for password only
+ * @returns Password or null if user cancels
+ */
+export async function promptForPassword(): Promise<string | null> {
+  const questions = [
+    {
+      type: 'password',
+      name: 'password',
+      message: 'Enter your password:',
+      mask: '*'
+    }
+  ];
+
+  try {
+    const answers = await inquirer.prompt(questions);
+    return answers.password;
+  } catch (error) {
+    logger.error('Error prompting for password:', error);
+    return null;
+  }
+}
+
+/**
+ * Credential provider that asks on the terminal
+ */
+export const inquirerCredentialProvider: CredentialProvider = {
+  getCredentials: (known) => promptForCredentials(known),
+  getPassword: () => promptForPassword()
+};
+
+/**
+ * OTP provider that asks on the terminal
+ */
+export const inquirerOtpProvider: OtpProvider = {
+  getOtp: (attemptsLeft, method) => promptForMFA(attemptsLeft, method)
+};
@@ -0,0 +1,65 @@
+/**
+ * Purchase types: physical products, video, digital content, gift cards, groceries and subscriptions
+ */
+import { SELECTORS } from './config';
+import { Order, PurchaseType } from './types';
+
+export const PURCHASE_TYPES: PurchaseType[] = ['physical', 'video', 'digital', 'gift-card', 'grocery', 'subscription'];
+
+// Digital orders have their own order number series, e.g. "D01-1234567-1234567"
+const DIGITAL_ORDER_ID_PATTERN = /^D\d{2}-/;
+
+/**
+ * Tell the type of a purchase from its product links and the wording of its
+ * order card. Gift cards and subscriptions are checked first, as they may
+ * link to video or digital products; orders matching nothing are physical.
+ * @param order Extracted order
+ * @param cardText Whitespace-normalized text of the order card, if available
+ * @returns Type of the purchase
+ */
+export function classifyPurchase(order: Order, cardText = ''): PurchaseType {
+  // Read on every call, as override files replace the lists
+  const indicators = SELECTORS.PURCHASE_TYPE;
+  const text = [cardText, ...order.items.map(item => `${item.productName} ${item.seller || ''}`)].join(' ').toLowerCase();
+  const links = order.items.map(item => item.link || '');
+  const mentions = (words: string[]) => words.some(word => text.includes(word.toLowerCase()));
+  const linksTo = (paths: string[]) => links.some(link => paths.some(fragment => link.includes(fragment)));
+
+  if (mentions(indicators.GIFT_CARD_TEXT_INDICATORS)) return 'gift-card';
+  if (mentions(indicators.SUBSCRIPTION_TEXT_INDICATORS)) return 'subscription';
+  if (linksTo(indicators.VIDEO_LINKS) || mentions(indicators.VIDEO_TEXT_INDICATORS)) return 'video';
+  if (linksTo(indicators.GROCERY_LINKS) || mentions(indicators.GROCERY_TEXT_INDICATORS)) return 'grocery';
+  if (
+    (order.orderId && DIGITAL_ORDER_ID_PATTERN.test(order.orderId))
+    || linksTo(indicators.DIGITAL_LINKS)
+    || mentions(indicators.DIGITAL_TEXT_INDICATORS)
+  ) {
+    return 'digital';
+  }
+  return 'physical';
+}
+
+/**
+ * Keep the orders of some purchase types only. Orders that were never
+ * classified, e.g. ones read back from an older output file, are classified
+ * from their items.
+ * @param orders Orders to filter
+ * @param types Purchase types to keep; all orders are kept if none are given
+ * @returns Orders of the given types
+ */
+export function filterOrdersByPurchaseType(orders: Order[], types?: PurchaseType[]): Order[] {
+  if (!types || types.length === 0) {
+    return orders;
+  }
+  return orders.filter(order => types.includes(order.purchaseType || classifyPurchase(order)));
+}
+
+/**
+ * Check whether a type filter asks for purchases that Amazon lists in the
+ * digital orders view rather than the default order history
+ * @param types Purchase types to keep, if any
+ * @returns Boolean indicating if the digital orders view should be walked
+ */
+export function needsDigitalOrders(types?: PurchaseType[]): boolean {
+  return !!types && types.some(type => type === 'video' || type === 'digital');
+}
@@ -0,0 +1,228 @@
+/**
+ * Record a run as a HAR and a Playwright trace, and replay a HAR with no network
+ */
+import fs from 'fs';
+import path from 'path';
+import { BrowserContext } from 'playwright';
+import { FILES } from './config';
+import { logger, redact } from './logger';
+import { HarCookie, HarEntry, HarFile, HarNameValue, ScraperError } from './types';
+
+const REDACTED = '[REDACTED]';
+
+// Headers whose whole value is a credential
+const SECRET_HEADERS = ['cookie', 'set-cookie', 'authorization', 'proxy-authorization', 'x-amz-access-token'];
+
+// Headers that describe the recorded body rather than the one we fulfill with
+const SKIPPED_REPLAY_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding'];
+
+/**
+ * Scrub a list of headers: credentials are dropped whole, other values redacted
+ * @param headers HAR headers
+ * @returns Scrubbed headers
+ */
+function scrubHeaders(headers: HarNameValue[]): HarNameValue[] {
+  return headers.map(({ name, value }) => ({
+    name,
+    value: SECRET_HEADERS.includes(name.toLowerCase()) ? REDACTED : redact(value)
+  }));
+}
+
+/**
+ * Scrub the cookies Playwright parses out of the Cookie and Set-Cookie headers;
+ * every value is a session token
+ * @param cookies HAR cookies, if recorded
+ * @returns Cookies with redacted values
+ */
+function scrubCookies(cookies: HarCookie[] | undefined): HarCookie[] | undefined {
+  return cookies?.map(cookie => ({ ...cookie, value: REDACTED }));
+}
+
+/**
+ * Redact query parameter values, which may hold a URL-encoded email or phone number
+ * @param url Request URL
+ * @returns URL with the same path and redacted parameter values
+ */
+function scrubUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return redact(url);
+  }
+  for (const [name, value] of Array.from(parsed.searchParams.entries())) {
+    if (redact(value) !== value) {
+      parsed.searchParams.set(name, REDACTED);
+    }
+  }
+  return parsed.toString();
+}
+
+/**
+ * Remove credentials, OTPs and account identifiers from a recording, so it can
+ * be shared or turned into a test fixture. Form submissions are dropped
+ * entirely as they carry the typed username, password and codes; the replayer
+ * does not need them.
+ * @param har Recorded HAR
+ * @returns Scrubbed copy of the HAR
+ */
+export function scrubHar(har: HarFile): HarFile {
+  const entries = har.log.entries.map((entry): HarEntry => {
+    const { request, response } = entry;
+    return {
+      ...entry,
+      request: {
+        ...request,
+        url: scrubUrl(request.url),
+        headers: scrubHeaders(request.headers),
+        cookies: scrubCookies(request.cookies),
+        queryString: request.queryString?.map(({ name, value }) => ({ name, value: redact(value) })),
+        postData: request.postData && { mimeType: request.postData.mimeType, text: REDACTED }
+      },
+      response: {
+        ...response,
+        headers: scrubHeaders(response.headers),
+        cookies: scrubCookies(response.cookies),
+        redirectURL: response.redirectURL && scrubUrl(response.redirectURL),
+        // Binary bodies are base64 encoded and left as they are
+        content: response.content.text !== undefined && response.content.encoding !== 'base64'
+          ? { ...response.content, text: redact(response.content.text) }
+          : response.content
+      }
+    };
+  });
+  return { ...har, log: { ...har.log, entries } };
+}
+
+/**
+ * Read a HAR file
+ * @param harPath Path to the HAR
+ * @returns Parsed HAR
+ * @throws ScraperError if the file is missing or not a HAR
+ */
+export function loadHar(harPath: string): HarFile {
+  let har: HarFile;
+  try {
+    har = JSON.parse(fs.readFileSync(harPath, 'utf8'));
+  } catch (error) {
+    throw new ScraperError(`Could not read recording ${harPath}: ${(error as Error).message}`);
+  }
+  if (!har || !har.log || !Array.isArray(har.log.entries)) {
+    throw new ScraperError(`${harPath} is not a HAR file`);
+  }
+  return har;
+}
+
+/**
+ * Start recording a trace; the HAR itself is recorded by the context, see initBrowser
+ * @param context Context created with recordHar pointing into the recording directory
+ */
+export async function startRecording(context: BrowserContext): Promise<void> {
+  await context.tracing.start({ screenshots: true, snapshots: true });
+}
+
+/**
+ * Stop recording: save the trace, close the context so the HAR is written, and
+ * scrub the HAR in place. The trace cannot be scrubbed and keeps what was typed.
+ * @param context Recorded context; it is closed
+ * @param dir Recording directory
+ * @param sessionRestored Whether the run started from a saved session, so the replay does too
+ * @returns Paths of the HAR and the trace
+ */
+export async function finishRecording(
+  context: BrowserContext,
+  dir: string,
+  sessionRestored: boolean
+): Promise<{ harPath: string; tracePath: string }> {
+  const harPath = path.join(dir, FILES.RECORDING_HAR);
+  const tracePath = path.join(dir, FILES.RECORDING_TRACE);
+
+  await context.tracing.stop({ path: tracePath });
+  await context.close();
+
+  const har = scrubHar(loadHar(harPath));
+  har.log._sessionRestored = sessionRestored;
+  fs.writeFileSync(harPath, JSON.stringify(har, null, 2));
+
+  logger.info(`Recorded network traffic to ${harPath} (scrubbed) and trace to ${tracePath}`);
+  logger.warn(`${tracePath} is not scrubbed and contains your credentials; do not share it`);
+  return { harPath, tracePath };
+}
+
+/**
+ * Find recorded responses for requests. Requests match entries with the same
+ * method, origin and path; an entry with the exact URL is preferred, since
+ * query strings carry session tokens that differ between runs. Entries are
+ * served in recorded order, so a sign-in form posted twice gets the password
+ * page and then the verification page, and the last one is repeated once all
+ * have been served.
+ * @param har Recording to serve from
+ * @returns Function returning the entry for a request, or null if none was recorded
+ */
+export function createHarReplayer(har: HarFile): (method: string, url: string) => HarEntry | null {
+  const queues = new Map<string, { entries: HarEntry[]; served: Set<HarEntry> }>();
+  const keyOf = (method: string, url: string): string => {
+    try {
+      const { origin, pathname } = new URL(url);
+      return `${method.toUpperCase()} ${origin}${pathname}`;
+    } catch {
+      return `${method.toUpperCase()} ${url}`;
+    }
+  };
+
+  // Requests that failed while recording have no response to serve
+  for (const entry of har.log.entries.filter(entry => entry.response.status > 0)) {
+    const key = keyOf(entry.request.method, entry.request.url);
+    const queue = queues.get(key) || { entries: [], served: new Set<HarEntry>() };
+    queue.entries.push(entry);
+    queues.set(key, queue);
+  }
+
+  return (method, url) => {
+    const queue = queues.get(keyOf(method, url));
+    if (!queue) {
+      return null;
+    }
+    const pending = queue.entries.filter(entry => !queue.served.has(entry));
+    const entry = pending.find(candidate => candidate.request.url === url)
+      || pending[0]
+      || queue.entries[queue.entries.length - 1];
+    queue.served.add(entry);
+    return entry;
+  };
+}
+
+/**
+ * Serve every request of a context from a recording. Requests that were not
+ * recorded fail as if offline, so a replay never reaches Amazon.
+ * @param context Browser context to route
+ * @param har Recording to serve from
+ */
+export async function installHarReplay(context: BrowserContext, har: HarFile): Promise<void> {
+  const findEntry = createHarReplayer(har);
+
+  await context.route('**/*', async route => {
+    const request = route.request();
+    const entry = findEntry(request.method(), request.url());
+    if (!entry) {
+      logger.debug(`Not in recording, blocked: ${request.method()} ${request.url()}`);
+      await route.abort('internetdisconnected');
+      return;
+    }
+
+    const { response } = entry;
+    const headers: Record<string, string> = {};
+    for (const { name, value } of response.headers) {
+      const key = name.toLowerCase();
+      if (!SKIPPED_REPLAY_HEADERS.includes(key)) {
+        headers[key] = headers[key] ? `${headers[key]}\n${value}` : value;
+      }
+    }
+    const text = response.content.text || '';
+    await route.fulfill({
+      status: response.status,
+      headers,
+      body: response.content.encoding === 'base64' ? Buffer.from(text, 'base64') : text
+    });
+  });
+}
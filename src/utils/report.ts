@@ -0,0 +1,419 @@
+/**
+ * Spending analytics: totals by year and month, average order value, top
+ * products and year-over-year changes, as terminal tables and an HTML report
+ */
+import { REPORT_DEFAULTS } from './config';
+import { createMoney, formatMoney } from './money';
+import { getItemRefund, getOrderNetTotal, isOrderCancelled } from './status';
+import {
+  CurrencySpending,
+  Money,
+  Order,
+  PeriodSpending,
+  ProductSpending,
+  SpendingReport,
+  SpendingReportOptions,
+  YearOverYearChange
+} from './types';
+
+// An order that counts towards spend, with its net total
+interface PricedOrder {
+  order: Order;
+  net: Money;
+}
+
+/**
+ * List every period from the first to the last one, so gaps show up as zero spend
+ * @param first First period, "YYYY" or "YYYY-MM"
+ * @param last Last period, in the same format
+ * @returns Periods in order
+ */
+function periodRange(first: string, last: string): string[] {
+  const periods: string[] = [];
+  if (first.length === 4) {
+    for (let year = +first; year <= +last; year++) {
+      periods.push(String(year));
+    }
+    return periods;
+  }
+
+  let year = +first.slice(0, 4);
+  let month = +first.slice(5, 7);
+  for (let period = first; period <= last; period = `${year}-${String(month).padStart(2, '0')}`) {
+    periods.push(period);
+    month = month === 12 ? 1 : month + 1;
+    year = month === 1 ? year + 1 : year;
+  }
+  return periods;
+}
+
+/**
+ * Sum spend per period
+ * @param entries Period and amount of each order
+ * @param currency Currency of the amounts
+ * @returns Spend of every period from the first to the last, oldest first
+ */
+function sumByPeriod(entries: Array<{ period: string; amount: number }>, currency: string): PeriodSpending[] {
+  if (entries.length === 0) {
+    return [];
+  }
+  const sums = new Map<string, { orders: number; amount: number }>();
+  for (const entry of entries) {
+    const sum = sums.get(entry.period) || { orders: 0, amount: 0 };
+    sum.orders++;
+    sum.amount += entry.amount;
+    sums.set(entry.period, sum);
+  }
+
+  const periods = Array.from(sums.keys()).sort();
+  return periodRange(periods[0], periods[periods.length - 1]).map(period => {
+    const sum = sums.get(period) || { orders: 0, amount: 0 };
+    return { period, orders: sum.orders, total: createMoney(sum.amount, currency) };
+  });
+}
+
+/**
+ * Compare the spend of each year with the year before
+ * @param byYear Spend per year, oldest first and without gaps
+ * @returns Change of every year but the first
+ */
+function compareYears(byYear: PeriodSpending[]): YearOverYearChange[] {
+  return byYear.slice(1).map((year, index) => {
+    const previous = byYear[index];
+    const change = year.total.amount - previous.total.amount;
+    return {
+      year: year.period,
+      previousYear: previous.period,
+      change: createMoney(change, year.total.currency),
+      changePercent: previous.total.amount === 0 ? null : Math.round((change / previous.total.amount) * 1000) / 10
+    };
+  });
+}
+
+/**
+ * Rank products by what was spent on them. An item's spend is its price times
+ * its quantity, less its refund (see getItemRefund); the price is only known after --details, so
+ * single-item orders fall back to the order's net total. Items of other
+ * orders without a price are left out.
+ * @param orders Orders paid in one currency, with their net totals
+ * @param currency Currency of the orders
+ * @param limit Number of products to return
+ * @returns Products with the highest spend first
+ */
+function rankProducts(orders: PricedOrder[], currency: string, limit: number): ProductSpending[] {
+  const products = new Map<string, ProductSpending & { amount: number }>();
+  for (const { order, net } of orders) {
+    for (const item of order.items) {
+      if (item.status === 'cancelled') {
+        continue;
+      }
+      let amount: number | null = null;
+      if (item.price && item.price.currency === currency) {
+        const refund = getItemRefund(item);
+        amount = item.price.amount * (item.quantity ?? 1) - (refund && refund.currency === currency ? refund.amount : 0);
+      } else if (order.items.length === 1) {
+        amount = net.amount;
+      }
+      if (amount === null) {
+        continue;
+      }
+
+      const key = item.productName.trim().toLowerCase();
+      const product = products.get(key)
+        || { productName: item.productName.trim(), orders: 0, quantity: 0, total: createMoney(0, currency), amount: 0 };
+      product.orders++;
+      product.quantity += item.quantity ?? 1;
+      product.amount += amount;
+      products.set(key, product);
+    }
+  }
+
+  return Array.from(products.values())
+    .sort((a, b) => b.amount - a.amount || a.productName.localeCompare(b.productName))
+    .slice(0, limit)
+    .map(({ amount, ...product }) => ({ ...product, total: createMoney(amount, currency) }));
+}
+
+/**
+ * Build the spending analytics of the orders paid in one currency
+ * @param orders Orders paid in the currency, none of them cancelled, with their net totals
+ * @param currency ISO currency code
+ * @param topProducts Number of products to rank
+ * @returns Spending of the currency
+ */
+function buildCurrencySpending(orders: PricedOrder[], currency: string, topProducts: number): CurrencySpending {
+  let total = 0;
+  const years: Array<{ period: string; amount: number }> = [];
+  const months: Array<{ period: string; amount: number }> = [];
+  for (const { order, net: { amount } } of orders) {
+    total += amount;
+    if (order.orderDateIso) {
+      years.push({ period: order.orderDateIso.slice(0, 4), amount });
+      months.push({ period: order.orderDateIso.slice(0, 7), amount });
+    }
+  }
+
+  const byYear = sumByPeriod(years, currency);
+  return {
+    currency,
+    orders: orders.length,
+    total: createMoney(total, currency),
+    averageOrderValue: orders.length > 0 ? createMoney(Math.round(total / orders.length), currency) : null,
+    byYear,
+    byMonth: sumByPeriod(months, currency),
+    yearOverYear: compareYears(byYear),
+    topProducts: rankProducts(orders, currency, topProducts),
+    undatedOrders: orders.length - years.length
+  };
+}
+
+/**
+ * Build spending analytics from scraped orders. Spend is what each order cost
+ * once refunds are taken off (see getOrderNetTotal); cancelled orders and
+ * orders without a known net total are left out. Amounts in different currencies are
+ * never added up: each currency gets its own figures.
+ * @param orders Scraped orders, from an export file or the database
+ * @param options Number of top products and the time of the report
+ * @returns Spending report
+ */
+export function buildSpendingReport(orders: Order[], options: SpendingReportOptions = {}): SpendingReport {
+  const report: SpendingReport = {
+    generatedAt: (options.now || new Date()).toISOString(),
+    orders: orders.length,
+    cancelledOrders: 0,
+    unpricedOrders: 0,
+    currencies: []
+  };
+
+  const byCurrency = new Map<string, PricedOrder[]>();
+  for (const order of orders) {
+    if (isOrderCancelled(order)) {
+      report.cancelledOrders++;
+      continue;
+    }
+    const net = getOrderNetTotal(order);
+    if (!net) {
+      report.unpricedOrders++;
+      continue;
+    }
+    byCurrency.set(net.currency, [...(byCurrency.get(net.currency) || []), { order, net }]);
+  }
+
+  const topProducts = options.topProducts ?? REPORT_DEFAULTS.TOP_PRODUCTS;
+  report.currencies = Array.from(byCurrency.entries())
+    .map(([currency, currencyOrders]) => buildCurrencySpending(currencyOrders, currency, topProducts))
+    .sort((a, b) => b.orders - a.orders);
+  return report;
+}
+
+/**
+ * Lay out rows as a plain-text table, with numbers aligned to the right
+ * @param headers Column titles
+ * @param rows Cell text of each row
+ * @param rightAligned Indexes of the columns aligned to the right
+ * @returns Table lines
+ */
+function formatTable(headers: string[], rows: string[][], rightAligned: number[]): string[] {
+  const widths = headers.map((header, column) => Math.max(header.length, ...rows.map(row => row[column].length)));
+  const formatRow = (cells: string[]) => cells
+    .map((cell, column) => rightAligned.includes(column) ? cell.padStart(widths[column]) : cell.padEnd(widths[column]))
+    .join('  ')
+    .trimEnd();
+  return [formatRow(headers), widths.map(width => '-'.repeat(width)).join('  '), ...rows.map(formatRow)];
+}
+
+/**
+ * Format a year-over-year change
+ * @param change Change of a year, if it has a previous year
+ * @returns e.g. "+12.5%", "-INR 300.00" when nothing was spent the year before, or "" for the first year
+ */
+function formatChange(change: YearOverYearChange | undefined): string {
+  if (!change) {
+    return '';
+  }
+  if (change.changePercent === null) {
+    return `+${formatMoney(change.change)}`;
+  }
+  return `${change.changePercent > 0 ? '+' : ''}${change.changePercent.toFixed(1)}%`;
+}
+
+/**
+ * Cut a product name short for a table column
+ * @param name Product name
+ * @returns Name of at most REPORT_DEFAULTS.PRODUCT_NAME_WIDTH characters
+ */
+function shortenName(name: string): string {
+  const width = REPORT_DEFAULTS.PRODUCT_NAME_WIDTH;
+  return name.length > width ? `${name.slice(0, width - 1)}…` : name;
+}
+
+/**
+ * Format a spending report as terminal tables
+ * @param report Report built by buildSpendingReport
+ * @returns Report text
+ */
+export function formatSpendingReport(report: SpendingReport): string {
+  const lines = [`Spending report: ${report.orders} orders (${report.cancelledOrders} cancelled, ${report.unpricedOrders} without a known total left out)`];
+  if (report.currencies.length === 0) {
+    lines.push('', 'No orders with a total to report on');
+  }
+
+  for (const spending of report.currencies) {
+    lines.push(
+      '',
+      `== ${spending.currency} ==`,
+      `Orders: ${spending.orders}  Total: ${formatMoney(spending.total)}  ` +
+        `Average order value: ${spending.averageOrderValue ? formatMoney(spending.averageOrderValue) : 'n/a'}`
+    );
+    if (spending.undatedOrders > 0) {
+      lines.push(`${spending.undatedOrders} order(s) without a date are in the total only`);
+    }
+
+    lines.push('', 'By year');
+    lines.push(...formatTable(
+      ['Year', 'Orders', 'Spend', 'Change'],
+      spending.byYear.map(year => [
+        year.period,
+        String(year.orders),
+        formatMoney(year.total),
+        formatChange(spending.yearOverYear.find(change => change.year === year.period))
+      ]),
+      [1, 2, 3]
+    ));
+
+    lines.push('', 'By month');
+    lines.push(...formatTable(
+      ['Month', 'Orders', 'Spend'],
+      spending.byMonth.map(month => [month.period, String(month.orders), formatMoney(month.total)]),
+      [1, 2]
+    ));
+
+    lines.push('', 'Top products');
+    lines.push(...formatTable(
+      ['#', 'Product', 'Orders', 'Qty', 'Spend'],
+      spending.topProducts.map((product, index) => [
+        String(index + 1),
+        shortenName(product.productName),
+        String(product.orders),
+        String(product.quantity),
+        formatMoney(product.total)
+      ]),
+      [0, 2, 3, 4]
+    ));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Escape text for HTML
+ * @param text Text to escape
+ * @returns Text safe to put in HTML content and attribute values
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Draw a bar chart as inline SVG, so the report needs no scripts or network
+ * @param title Chart title, read out by screen readers
+ * @param periods Spend of each period, drawn left to right
+ * @returns SVG markup
+ */
+function barChart(title: string, periods: PeriodSpending[]): string {
+  const height = 220;
+  const chartHeight = 170;
+  const barWidth = periods.length > 24 ? 14 : 32;
+  const gap = Math.max(4, Math.round(barWidth / 4));
+  const width = Math.max(320, periods.length * (barWidth + gap) + gap);
+  const max = Math.max(1, ...periods.map(period => period.total.amount));
+  // Label every period of short charts, otherwise January of each year
+  const labelled = (period: string) => periods.length <= 24 || period.endsWith('-01') || period.length === 4;
+
+  const bars = periods.map((period, index) => {
+    const x = gap + index * (barWidth + gap);
+    const barHeight = Math.max(0, Math.round((Math.max(0, period.total.amount) / max) * chartHeight));
+    const label = labelled(period.period)
+      ? `<text x="${x + barWidth / 2}" y="${height - 8}" text-anchor="middle">${escapeHtml(period.period)}</text>`
+      : '';
+    return `<rect x="${x}" y="${chartHeight + 10 - barHeight}" width="${barWidth}" height="${barHeight}">` +
+      `<title>${escapeHtml(`${period.period}: ${formatMoney(period.total)}, ${period.orders} order(s)`)}</title></rect>${label}`;
+  });
+
+  return `<svg class="chart" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}" role="img" aria-label="${escapeHtml(title)}">` +
+    `${bars.join('')}<line x1="0" y1="${chartHeight + 10}" x2="${width}" y2="${chartHeight + 10}"/></svg>`;
+}
+
+/**
+ * Render a spending report as a standalone HTML page with charts. The page
+ * has no scripts and loads nothing, so it opens offline.
+ * @param report Report built by buildSpendingReport
+ * @returns HTML document
+ */
+export function renderSpendingReportHtml(report: SpendingReport): string {
+  const table = (headers: string[], rows: string[][]) =>
+    `<table><thead><tr>${headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>` +
+    `<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+
+  const sections = report.currencies.map(spending => `
+  <section>
+    <h2>${escapeHtml(spending.currency)}</h2>
+    <div class="figures">
+      <div><span>Orders</span><strong>${spending.orders}</strong></div>
+      <div><span>Total spend</span><strong>${escapeHtml(formatMoney(spending.total))}</strong></div>
+      <div><span>Average order value</span><strong>${spending.averageOrderValue ? escapeHtml(formatMoney(spending.averageOrderValue)) : 'n/a'}</strong></div>
+    </div>
+    <h3>Spend by year</h3>
+    ${barChart(`${spending.currency} spend by year`, spending.byYear)}
+    ${table(['Year', 'Orders', 'Spend', 'Change'], spending.byYear.map(year => [
+      year.period,
+      String(year.orders),
+      formatMoney(year.total),
+      formatChange(spending.yearOverYear.find(change => change.year === year.period))
+    ]))}
+    <h3>Spend by month</h3>
+    ${barChart(`${spending.currency} spend by month`, spending.byMonth)}
+    ${table(['Month', 'Orders', 'Spend'], spending.byMonth.map(month => [month.period, String(month.orders), formatMoney(month.total)]))}
+    <h3>Top products</h3>
+    ${table(['#', 'Product', 'Orders', 'Qty', 'Spend'], spending.topProducts.map((product, index) => [
+      String(index + 1),
+      product.productName,
+      String(product.orders),
+      String(product.quantity),
+      formatMoney(product.total)
+    ]))}
+  </section>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Spending report</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; color: #222; padding: 0 1rem; }
+    .figures { display: flex; gap: 2rem; margin: 1rem 0; }
+    .figures span { display: block; color: #666; font-size: 0.85rem; }
+    .figures strong { font-size: 1.4rem; }
+    .chart { display: block; max-width: 100%; height: auto; overflow: visible; margin: 0.5rem 0 1rem; }
+    .chart rect { fill: #ff9900; }
+    .chart line { stroke: #999; }
+    .chart text { font-size: 10px; fill: #555; }
+    table { border-collapse: collapse; margin-bottom: 1.5rem; }
+    th, td { padding: 0.25rem 0.75rem; border-bottom: 1px solid #ddd; text-align: left; }
+    td:not(:nth-child(2)), th:not(:nth-child(2)) { text-align: right; }
+    footer { color: #666; font-size: 0.85rem; }
+  </style>
+</head>
+<body>
+  <h1>Spending report</h1>
+  <p>${report.orders} orders; ${report.cancelledOrders} cancelled and ${report.unpricedOrders} without a known total are left out. Spend is net of refunds.</p>
+${sections || '  <p>No orders with a total to report on.</p>'}
+  <footer>Generated ${escapeHtml(report.generatedAt)}</footer>
+</body>
+</html>
+`;
+}
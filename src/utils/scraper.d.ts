@@ -1,25 +1,125 @@
-import { Page as PlaywrightPage, Browser } from 'playwright';
+import { Page as PlaywrightPage, Browser, BrowserContext as PlaywrightBrowserContext } from 'playwright';
+import { EventEmitter } from 'events';
+import { Server } from 'http';
 
 export type Page = PlaywrightPage;
 
+export const EXIT_CODES: {
+  SUCCESS: number;
+  ERROR: number;
+  USAGE: number;
+  SELECTOR_DRIFT: number;
+  UNKNOWN_ACCOUNT: number;
+  WRONG_PASSWORD: number;
+  OTP_REJECTED: number;
+  CAPTCHA_CHALLENGE: number;
+  ACCOUNT_LOCKED: number;
+  LOGIN_ABORTED: number;
+  OTP_THROTTLED: number;
+  NAVIGATION_TIMEOUT: number;
+  EXTRACTION_EMPTY: number;
+};
+
 export class ScraperError extends Error {
+  exitCode: number;
+  retryable: boolean;
   constructor(message: string);
 }
+export class UnknownAccountError extends ScraperError {}
+export class WrongPasswordError extends ScraperError {}
+export class OtpRejectedError extends ScraperError {}
+export class OtpThrottledError extends ScraperError {}
+export class CaptchaChallengeError extends ScraperError {
+  readonly challenge: ChallengeType;
+  constructor(message: string, challenge: ChallengeType);
+}
+export class AccountLockedError extends ScraperError {}
+export class LoginAbortedError extends ScraperError {}
+export class NavigationTimeoutError extends ScraperError {}
+export class ExtractionEmptyError extends ScraperError {}
+export function getExitCode(error: unknown): number;
+export function toNavigationError(error: unknown, what: string): unknown;
 
 export interface OrderItem {
   productName: string;
   link?: string;
+  imageUrl?: string;
+  deliveryStatus?: string;
+  statusDetail?: string;
+  status?: ItemStatus;
+  statusDate?: string;
+  refund?: Money;
+  seller?: string;
+  quantity?: number;
+  price?: Money;
+}
+
+export type ItemStatus = 'in-transit' | 'delivered' | 'cancelled' | 'return-started' | 'returned' | 'refunded' | 'unknown';
+
+export interface Money {
+  amount: number;
+  currency: string;
+  raw: string;
+}
+
+export interface OrderPromotion {
+  label: string;
+  amount: Money;
+}
+
+export interface PaymentMethod {
+  type: string;
+  lastFour: string | null;
+}
+
+export interface OrderDetails {
+  subtotal: Money | null;
+  shipping: Money | null;
+  tax: Money | null;
+  discounts: Money | null;
+  promotions: OrderPromotion[];
+  grandTotal: Money | null;
+  refundTotal: Money | null;
+  paymentMethod: PaymentMethod | null;
+  shippingAddress: string[] | null;
+}
+
+export interface OrderDetailsPageContent {
+  summary: Array<{ label: string; value: string }>;
+  items: Array<{ productName: string; link?: string; price: string; quantity?: number }>;
+  paymentMethod: string;
+  shippingAddress: string[];
 }
 
 export interface Order {
+  orderId: string | null;
   orderDate: string;
+  orderDateIso: string | null;
   price: string;
+  total: Money | null;
+  purchaseType?: PurchaseType;
+  detailsLink?: string;
+  invoiceLink?: string;
   items: OrderItem[];
+  details?: OrderDetails;
+  invoicePath?: string;
 }
 
+export type PurchaseType = 'physical' | 'video' | 'digital' | 'gift-card' | 'grocery' | 'subscription';
+
+export type OrderHistoryView = 'orders' | 'digital';
+
 export interface BrowserContext {
   browser: Browser;
   page: Page;
+  sessionRestored: boolean;
+}
+
+export interface BrowserOptions {
+  storageStatePath?: string;
+  headless?: boolean;
+  recordDir?: string;
+  replayHarPath?: string;
 }
 
 export interface LoginResult {
@@ -39,13 +139,570 @@ export interface Credentials {
   password: string;
 }
 
-export function initBrowser(): Promise<BrowserContext>;
+export function initBrowser(options?: BrowserOptions): Promise<BrowserContext>;
+export function saveSession(page: Page, statePath: string): Promise<void>;
+export function clearSession(statePath: string): void;
+export function isSessionValid(page: Page): Promise<boolean>;
 export function navigateToAmazonLogin(page: Page): Promise<void>;
-export function enterUsername(page: Page, username: string): Promise<boolean>;
-export function enterPassword(page: Page, password: string): Promise<boolean>;
+export function enterUsername(page: Page, username: string): Promise<void>;
+export function enterPassword(page: Page, password: string): Promise<void>;
 export function checkInvalidCredentials(page: Page): Promise<boolean>;
 export function isMFARequired(page: Page): Promise<boolean>;
-export function submitMFACode(page: Page, otpCode: string): Promise<boolean>;
-export function navigateToOrderHistory(page: Page): Promise<boolean>;
-export function selectOrderYear(page: Page, year: number): Promise<boolean>;
+export function getMFAMethod(page: Page): Promise<MfaMethod>;
+export function submitMFACode(page: Page, otpCode: string): Promise<void>;
+export function navigateToOrderHistory(page: Page): Promise<void>;
+export function getOrderYearUrl(view: OrderHistoryView, year: number, startIndex?: number): string;
+export function selectOrderYear(page: Page, year: number, view?: OrderHistoryView): Promise<void>;
 export function extractOrders(page: Page): Promise<Order[]>;
+export function parseMoney(raw: string, defaultCurrency?: string): Money | null;
+export function detectCurrency(text: string): string | null;
+export function formatAmount(money: Money): string;
+export function formatMoney(money: Money): string;
+export function createMoney(amount: number, currency: string): Money;
+export function parseOrderDate(text: string, marketplace?: Marketplace): string | null;
+export function isIsoDate(value: string): boolean;
+export function isWithinDateRange(date: string, since?: string, until?: string): boolean;
+export function filterOrdersByDate(orders: Order[], since?: string, until?: string): Order[];
+export function parseStatusDate(text: string, orderDateIso: string | null, marketplace?: Marketplace): string | null;
+export function normalizeItemStatus(text: string, marketplace?: Marketplace): ItemStatus;
+export function applyItemStatus(item: OrderItem, orderDateIso: string | null, marketplace?: Marketplace): void;
+export function getItemRefund(item: OrderItem): Money | null;
+export function getOrderNetTotal(order: Order): Money | null;
+export function isOrderCancelled(order: Order): boolean;
+export const PURCHASE_TYPES: PurchaseType[];
+export function classifyPurchase(order: Order, cardText?: string): PurchaseType;
+export function filterOrdersByPurchaseType(orders: Order[], types?: PurchaseType[]): Order[];
+export function needsDigitalOrders(types?: PurchaseType[]): boolean;
+export interface YearPageOptions {
+  limit: number | null;
+  since?: string;
+  until?: string;
+  knownOrderKeys?: Set<string>;
+  purchaseTypes?: PurchaseType[];
+  view?: OrderHistoryView;
+}
+
+export interface YearScrapeStats {
+  year: number;
+  pages: number;
+  ordersVisited: number;
+  ordersCollected: number;
+}
+
+export interface YearScrapeResult {
+  orders: Order[];
+  stats: YearScrapeStats;
+  reachedKnownOrders: boolean;
+}
+
+export interface ScrapeResult {
+  orders: Order[];
+  years: YearScrapeStats[];
+}
+
+export interface OrderDetailsOptions {
+  concurrency: number;
+  maxPages: number | null;
+}
+
+export interface OrderDetailsStats {
+  scraped: number;
+  failed: number;
+  skipped: number;
+}
+
+export function classifySummaryLine(
+  label: string,
+  amount: Money | null,
+  labels?: OrderSummaryLabels
+): keyof OrderSummaryLabels | null;
+export function parsePaymentMethod(text: string): PaymentMethod | null;
+export function parseOrderDetails(content: OrderDetailsPageContent, defaultCurrency?: string): OrderDetails;
+export function applyOrderDetails(order: Order, content: OrderDetailsPageContent): void;
+export function extractOrderDetails(page: Page): Promise<OrderDetailsPageContent>;
+export function scrapeOrderDetails(
+  context: PlaywrightBrowserContext,
+  orders: Order[],
+  options: OrderDetailsOptions
+): Promise<OrderDetailsStats>;
+
+export interface InvoiceDownloadStats {
+  downloaded: number;
+  existing: number;
+  failed: number;
+  missing: number;
+}
+
+export function getInvoiceBaseName(order: Order): string | null;
+export function findSavedInvoice(dir: string, baseName: string): string | null;
+export function downloadInvoices(
+  context: PlaywrightBrowserContext,
+  orders: Order[],
+  dir: string
+): Promise<InvoiceDownloadStats>;
+
+export function goToNextOrderPage(page: Page, year: number, pageIndex: number, view?: OrderHistoryView): Promise<boolean>;
+export function readOrderCount(page: Page): Promise<number | null>;
+export function scrapeOrderYear(page: Page, year: number, options: YearPageOptions): Promise<YearScrapeResult>;
+export function scrapeCancelledOrders(page: Page, options: YearPageOptions): Promise<Order[]>;
+
+export interface SyncState {
+  knownOrderKeys: string[];
+  lastSyncedAt: string | null;
+}
+
+export function getOrderKey(order: Order): string;
+export function loadSyncState(statePath: string): SyncState;
+export function writeFileAtomically(filePath: string, content: string): void;
+export function saveSyncState(statePath: string, state: SyncState): void;
+export function readExistingOrders(outputPath: string, exporter?: OrderExporter): Order[];
+export function mergeOrders(existing: Order[], incoming: Order[]): Order[];
+
+export type OutputFormat = 'json' | 'ndjson' | 'csv' | 'markdown';
+
+export interface OrderExporter {
+  format: OutputFormat;
+  extensions: string[];
+  serialize(orders: Order[]): string;
+  parse?(content: string): Order[];
+}
+
+export const jsonExporter: OrderExporter;
+export const ndjsonExporter: OrderExporter;
+export const csvExporter: OrderExporter;
+export const markdownExporter: OrderExporter;
+export const EXPORTERS: OrderExporter[];
+export function escapeCsvField(value: string): string;
+export function escapeMarkdownCell(value: string): string;
+export function resolveExporter(format: OutputFormat | undefined, outputPath: string): OrderExporter;
+
+export interface ScrapeRunInfo {
+  fromYear: number;
+  toYear: number;
+}
+
+export interface ScrapeRunSummary {
+  status: 'completed' | 'failed';
+  ordersFound: number;
+  ordersNew: number;
+}
+
+export interface StoreResult {
+  inserted: number;
+  updated: number;
+}
+
+export type OrderDatabase = import('better-sqlite3').Database;
+
+export function migrateDatabase(db: OrderDatabase): number;
+export function openOrderDatabase(dbPath: string): Promise<OrderDatabase>;
+export function startScrapeRun(db: OrderDatabase, info: ScrapeRunInfo): number;
+export function finishScrapeRun(db: OrderDatabase, runId: number, summary: ScrapeRunSummary): void;
+export function upsertOrders(db: OrderDatabase, orders: Order[], runId?: number | null): StoreResult;
+export function loadOrders(db: OrderDatabase): Order[];
+export function loadOrderKeys(db: OrderDatabase): string[];
+
+export type MarketplaceId = 'in' | 'com' | 'co.uk' | 'de';
+
+export interface Marketplace {
+  id: MarketplaceId;
+  domain: string;
+  assocHandle: string;
+  currency: string;
+  locale: string;
+  phonePattern: RegExp;
+  months: Record<string, number>;
+  loginTexts: {
+    invalidMobile: string;
+    incorrectPassword: string;
+    usernameErrorKeywords: string[];
+    otpKeywords: string[];
+    accountLockedKeywords: string[];
+  };
+  summaryLabels: OrderSummaryLabels;
+  statusTexts: ItemStatusTexts;
+}
+
+export interface ItemStatusTexts {
+  refunded: string[];
+  returned: string[];
+  'return-started': string[];
+  cancelled: string[];
+  delivered: string[];
+  'in-transit': string[];
+}
+
+export interface OrderSummaryLabels {
+  grandTotal: string[];
+  refund: string[];
+  subtotal: string[];
+  promotion: string[];
+  shipping: string[];
+  tax: string[];
+}
+
+export interface MarketplaceUrls {
+  LOGIN: string;
+  ORDER_HISTORY: string;
+  ORDER_HISTORY_YEAR: (year: number, startIndex?: number) => string;
+  DIGITAL_ORDER_HISTORY_YEAR: (year: number, startIndex?: number) => string;
+  ORDER_HISTORY_CANCELLED: (startIndex?: number) => string;
+  ORDER_SUMMARY_PRINT: (orderId: string) => string;
+  BASE_URL: string;
+}
+
+export const MARKETPLACES: Record<MarketplaceId, Marketplace>;
+export const MARKETPLACE_IDS: MarketplaceId[];
+export function getMarketplace(): Marketplace;
+export function setActiveMarketplace(id: MarketplaceId): Marketplace;
+export function buildMarketplaceUrls(marketplace: Marketplace): MarketplaceUrls;
+export function selectMarketplace(id: MarketplaceId): void;
+
+export interface ConfigOverrides {
+  SELECTORS?: Record<string, unknown>;
+  TIMEOUTS?: Record<string, number>;
+  URLS?: Record<string, string>;
+}
+
+export function validateConfigOverrides(value: unknown, source?: string): ConfigOverrides;
+export function loadConfigOverrides(filePath: string): ConfigOverrides;
+export function applyConfigOverrides(overrides: ConfigOverrides): string[];
+
+export type DoctorPageName = 'login' | 'mfa' | 'orders' | 'details' | 'invoice' | 'challenge';
+
+export interface SelectorCheck {
+  path: string;
+  selector: string;
+  count: number;
+  visible: boolean;
+  error?: string;
+}
+
+export interface FallbackCheck {
+  path: string;
+  winner: string | null;
+  winnerIndex: number | null;
+}
+
+export interface TextIndicatorCheck {
+  path: string;
+  text: string;
+  found: boolean;
+}
+
+export interface PageHealthReport {
+  page: DoctorPageName;
+  source: string | null;
+  skipped?: string;
+  selectors: SelectorCheck[];
+  fallbacks: FallbackCheck[];
+  textIndicators: TextIndicatorCheck[];
+}
+
+export interface SelectorHealthReport {
+  generatedAt: string;
+  marketplace: MarketplaceId;
+  mode: 'live' | 'snapshots';
+  pages: PageHealthReport[];
+}
+
+export const SNAPSHOT_FILES: Record<DoctorPageName, string>;
+export function checkPageSelectors(page: Page, pageName: DoctorPageName, source: string): Promise<PageHealthReport>;
+export function runSnapshotHealthCheck(page: Page, snapshotDir: string): Promise<SelectorHealthReport>;
+export function runLiveHealthCheck(page: Page): Promise<SelectorHealthReport>;
+export function findSelectorDrift(report: SelectorHealthReport): string[];
+export function formatHealthReport(report: SelectorHealthReport): string;
+
+export interface PeriodSpending {
+  period: string;
+  orders: number;
+  total: Money;
+}
+
+export interface YearOverYearChange {
+  year: string;
+  previousYear: string;
+  change: Money;
+  changePercent: number | null;
+}
+
+export interface ProductSpending {
+  productName: string;
+  orders: number;
+  quantity: number;
+  total: Money;
+}
+
+export interface CurrencySpending {
+  currency: string;
+  orders: number;
+  total: Money;
+  averageOrderValue: Money | null;
+  byYear: PeriodSpending[];
+  byMonth: PeriodSpending[];
+  yearOverYear: YearOverYearChange[];
+  topProducts: ProductSpending[];
+  undatedOrders: number;
+}
+
+export interface SpendingReport {
+  generatedAt: string;
+  orders: number;
+  cancelledOrders: number;
+  unpricedOrders: number;
+  currencies: CurrencySpending[];
+}
+
+export interface SpendingReportOptions {
+  topProducts?: number;
+  now?: Date;
+}
+
+export function buildSpendingReport(orders: Order[], options?: SpendingReportOptions): SpendingReport;
+export function formatSpendingReport(report: SpendingReport): string;
+export function renderSpendingReportHtml(report: SpendingReport): string;
+
+export interface CredentialProvider {
+  getCredentials(known: Partial<Credentials>): Promise<Credentials | null>;
+  getPassword(): Promise<string | null>;
+}
+
+export type MfaMethod = 'totp' | 'sms' | 'unknown';
+
+export type ChallengeType = 'captcha' | 'puzzle' | 'device-approval';
+
+export interface OtpProvider {
+  getOtp(attemptsLeft: number, method: MfaMethod): Promise<string | null>;
+}
+
+export interface AmazonOrderScraperOptions {
+  credentials?: Partial<Credentials>;
+  otpCode?: string;
+  totpSecret?: string;
+  headless?: boolean;
+  sessionPath?: string;
+  marketplace?: MarketplaceId;
+  credentialProvider?: CredentialProvider;
+  otpProvider?: OtpProvider;
+  diagnosticsDir?: string;
+  record?: boolean;
+  replayHarPath?: string;
+}
+
+export type ScraperProgressEvent =
+  | { type: 'login:start' }
+  | { type: 'login:session-restored' }
+  | { type: 'login:otp-required'; attemptsLeft: number; method: MfaMethod }
+  | { type: 'login:challenge'; challenge: ChallengeType }
+  | { type: 'login:success' }
+  | { type: 'login:failed'; reason: string; error: string }
+  | { type: 'year:start'; year: number }
+  | { type: 'year:done'; stats: YearScrapeStats }
+  | { type: 'orders:done'; count: number }
+  | { type: 'details:done'; stats: OrderDetailsStats }
+  | { type: 'invoices:done'; stats: InvoiceDownloadStats }
+  | { type: 'cancelled:done'; count: number }
+  | { type: 'digital:done'; count: number };
+
+export interface ScrapeOptions {
+  fromYear: number;
+  toYear: number;
+  maxOrders: number | null;
+  since?: string;
+  until?: string;
+  knownOrderKeys?: Set<string>;
+  details?: boolean;
+  detailsConcurrency?: number;
+  maxDetailPages?: number | null;
+  invoiceDir?: string;
+  cancelled?: boolean;
+  digital?: boolean;
+  purchaseTypes?: PurchaseType[];
+}
+
+export class AmazonOrderScraper extends EventEmitter {
+  constructor(options?: AmazonOrderScraperOptions);
+  readonly page: Page | null;
+  login(): Promise<void>;
+  listOrders(options?: Partial<ScrapeOptions>): Promise<ScrapeResult>;
+  close(): Promise<void>;
+}
+
+export type ScrapeJobState =
+  | 'queued'
+  | 'logging_in'
+  | 'awaiting_credentials'
+  | 'awaiting_otp'
+  | 'scraping'
+  | 'completed'
+  | 'failed';
+
+export type ScrapeJobOptions = Partial<Omit<ScrapeOptions, 'knownOrderKeys' | 'invoiceDir'>>;
+
+export interface ScrapeJobRequest {
+  scrape: ScrapeJobOptions;
+  credentials?: Partial<Credentials>;
+  otpCode?: string;
+}
+
+export type ScrapeJobInputRequest =
+  | { type: 'credentials'; missing: Array<keyof Credentials> }
+  | { type: 'otp'; attemptsLeft: number; method: MfaMethod };
+
+export interface ScrapeJobInput {
+  username?: string;
+  password?: string;
+  otp?: string;
+}
+
+export interface ScrapeJobStatus {
+  id: string;
+  state: ScrapeJobState;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  input: ScrapeJobInputRequest | null;
+  progress: ScraperProgressEvent[];
+  orderCount: number | null;
+  years: YearScrapeStats[];
+  error: { name: string; message: string; exitCode: number } | null;
+}
+
+export interface JobScraper {
+  on(event: 'progress', listener: (event: ScraperProgressEvent) => void): unknown;
+  login(): Promise<void>;
+  listOrders(options: Partial<ScrapeOptions>): Promise<ScrapeResult>;
+  close(): Promise<void>;
+}
+
+export interface ScrapeJobManagerOptions {
+  scraper: AmazonOrderScraperOptions;
+  createScraper?: (options: AmazonOrderScraperOptions) => JobScraper;
+  inputTimeout?: number;
+}
+
+export interface ScraperServerOptions {
+  host: string;
+  port: number;
+  token?: string;
+}
+
+export function parseScrapeJobRequest(body: unknown): ScrapeJobRequest;
+export function parseScrapeJobInput(body: unknown): ScrapeJobInput;
+export class ScrapeJobManager {
+  constructor(options: ScrapeJobManagerOptions);
+  createJob(request: ScrapeJobRequest): ScrapeJobStatus;
+  getJob(id: string): ScrapeJobStatus | null;
+  listJobs(): ScrapeJobStatus[];
+  getOrders(id: string): Order[] | null;
+  submitInput(id: string, type: ScrapeJobInputRequest['type'], input: ScrapeJobInput): boolean;
+}
+export function createScraperServer(jobs: ScrapeJobManager, options?: Partial<ScraperServerOptions>): Server;
+
+export function promptForCredentials(known?: Partial<Credentials>, attemptsLeft?: number): Promise<Credentials | null>;
+export function promptForMFA(attemptsLeft: number, method?: MfaMethod): Promise<string | null>;
+export function promptForPassword(): Promise<string | null>;
+export const inquirerCredentialProvider: CredentialProvider;
+export const inquirerOtpProvider: OtpProvider;
+
+export const TOTP_DEFAULTS: { STEP_SECONDS: number; DIGITS: number };
+export function decodeBase32(secret: string): Buffer;
+export function generateHotp(key: Buffer, counter: number, digits?: number): string;
+export function generateTotp(secret: string, options?: { time?: number; stepOffset?: number; digits?: number }): string;
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export interface LogEntry {
+  time: string;
+  level: Exclude<LogLevel, 'silent'>;
+  step: string | null;
+  message: string;
+}
+
+export interface DiagnosticsCapture {
+  time: string;
+  step: string | null;
+  label: string;
+  url: string;
+  screenshot: string | null;
+  html: string | null;
+}
+
+export type TimelineEntry =
+  | ({ type: 'log' } & LogEntry)
+  | ({ type: 'capture' } & DiagnosticsCapture);
+
+export const LOG_LEVELS: LogLevel[];
+export function configureLogger(options: { level?: LogLevel; json?: boolean }): void;
+export function registerSecret(value: string | null | undefined): void;
+export function clearSecrets(): void;
+export function redact(text: string): string;
+export function getRedactionPatterns(): RegExp[];
+export function addLogListener(listener: (entry: LogEntry) => void): () => void;
+export function getLogStep(): string | null;
+export const logger: {
+  debug(message: string, ...details: unknown[]): void;
+  info(message: string, ...details: unknown[]): void;
+  warn(message: string, ...details: unknown[]): void;
+  error(message: string, ...details: unknown[]): void;
+  step(name: string): void;
+};
+export function startDiagnosticsRun(baseDir?: string): string;
+export function endDiagnosticsRun(): void;
+export function getDiagnosticsDir(): string | null;
+export function captureDiagnostics(page: Page, label: string): Promise<DiagnosticsCapture | null>;
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarCookie extends HarNameValue {
+  path?: string;
+  domain?: string;
+  expires?: string;
+  httpOnly?: boolean;
+  secure?: boolean;
+}
+
+export interface HarEntry {
+  request: {
+    method: string;
+    url: string;
+    headers: HarNameValue[];
+    cookies?: HarCookie[];
+    queryString?: HarNameValue[];
+    postData?: { mimeType: string; text?: string; params?: HarNameValue[] };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: HarNameValue[];
+    cookies?: HarCookie[];
+    content: { mimeType?: string; text?: string; encoding?: string };
+    redirectURL?: string;
+  };
+}
+
+export interface HarFile {
+  log: {
+    entries: HarEntry[];
+    _sessionRestored?: boolean;
+  };
+}
+
+export function scrubHar(har: HarFile): HarFile;
+export function loadHar(harPath: string): HarFile;
+export function startRecording(context: PlaywrightBrowserContext): Promise<void>;
+export function finishRecording(
+  context: PlaywrightBrowserContext,
+  dir: string,
+  sessionRestored: boolean
+): Promise<{ harPath: string; tracePath: string }>;
+export function createHarReplayer(har: HarFile): (method: string, url: string) => HarEntry | null;
+export function installHarReplay(context: PlaywrightBrowserContext, har: HarFile): Promise<void>;
+
+export const CHALLENGE_DESCRIPTIONS: Record<ChallengeType, string>;
+export function detectChallenge(page: Page): Promise<ChallengeType | null>;
+export function assertNoChallenge(page: Page): Promise<void>;
+export function waitForChallengeSolved(page: Page, challenge: ChallengeType, timeout?: number): Promise<void>;
@@ -9,20 +9,91 @@ export type Page = PlaywrightPage;
 // Re-export types
 export * from './types';
 
+// Re-export the error hierarchy and exit codes
+export * from './errors';
+
+// Re-export logging and diagnostics
+export * from './logger';
+export * from './diagnostics';
+
+// Re-export record and replay utilities
+export * from './recording';
+
 // Re-export browser utilities
 export * from './browser';
 
+// Re-export session utilities
+export * from './session';
+
 // Re-export login utilities
 export * from './login';
 
 // Re-export authentication utilities
 export * from './auth';
 
+// Re-export challenge detection
+export * from './challenge';
+
+// Re-export TOTP generation
+export * from './totp';
+
 // Re-export navigation utilities
 export * from './navigation';
 
 // Re-export extraction utilities
 export * from './extraction';
 
+// Re-export pagination utilities
+export * from './pagination';
+
+// Re-export order details utilities
+export * from './details';
+
+// Re-export invoice download utilities
+export * from './invoices';
+
+// Re-export item status and refund utilities
+export * from './status';
+
+// Re-export purchase type classification
+export * from './purchases';
+
+// Re-export spending report utilities
+export * from './report';
+
+// Re-export the scrape job manager and HTTP API server
+export * from './jobs';
+export * from './server';
+
+// Re-export money parsing utilities
+export * from './money';
+
+// Re-export date parsing utilities
+export * from './dates';
+
+// Re-export incremental sync utilities
+export * from './sync';
+
+// Re-export exporters
+export * from './exporters';
+
+// Re-export SQLite storage utilities
+export * from './storage';
+
+// Re-export marketplace definitions
+export * from './marketplace';
+
+// Re-export selector health check utilities
+export * from './doctor';
+
+// Re-export config override loading
+export * from './overrides';
+
+// Re-export terminal prompt providers
+export * from './prompts';
+
+// Re-export the scraper class
+export * from './client';
+
 // Re-export configuration
 export * from './config';
\ No newline at end of file
@@ -0,0 +1,240 @@
+/**
+ * HTTP API for running scrape jobs as a long-lived local service
+ */
+import http from 'http';
+import crypto from 'crypto';
+import os from 'os';
+import { SERVER_DEFAULTS } from './config';
+import { EXPORTERS } from './exporters';
+import { logger } from './logger';
+import { ScraperError } from './errors';
+import { parseScrapeJobInput, parseScrapeJobRequest, ScrapeJobManager } from './jobs';
+import { OutputFormat, ScrapeJobInputRequest, ScraperServerOptions } from './types';
+
+// Content type of each output format served by GET /jobs/:id/orders
+const CONTENT_TYPES: Record<OutputFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8'
+};
+
+/**
+ * Request failure answered with an HTTP status
+ */
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Send a JSON response
+ * @param response Server response
+ * @param status HTTP status
+ * @param body Value to send as JSON
+ */
+function sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': CONTENT_TYPES.json });
+  response.end(JSON.stringify(body, null, 2));
+}
+
+/**
+ * Read a JSON request body
+ * @param request Incoming request
+ * @returns Parsed body, or undefined for an empty body
+ * @throws HttpError if the body is too large or not JSON
+ */
+async function readJsonBody(request: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > SERVER_DEFAULTS.MAX_BODY_BYTES) {
+      throw new HttpError(413, `The request body is larger than ${SERVER_DEFAULTS.MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8').trim();
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'The request body is not valid JSON');
+  }
+}
+
+/**
+ * Write an address the way it appears in a Host header
+ * @param address Hostname or IP address
+ * @returns Lowercase address, with IPv6 addresses in brackets
+ */
+function toHostname(address: string): string {
+  const hostname = address.toLowerCase();
+  return hostname.includes(':') && !hostname.startsWith('[') ? `[${hostname}]` : hostname;
+}
+
+/**
+ * List the Host header names a server listening on an address answers to.
+ * Checking them keeps web pages from reaching the API through DNS rebinding.
+ * @param host Address the server listens on
+ * @returns Set of hostnames, without ports
+ */
+function getAllowedHosts(host: string): Set<string> {
+  const allowed = new Set([...SERVER_DEFAULTS.LOCAL_HOSTS, toHostname(host)]);
+  // A wildcard address listens on every interface of the machine
+  if (host === '0.0.0.0' || host === '::') {
+    allowed.add(toHostname(os.hostname()));
+    for (const addresses of Object.values(os.networkInterfaces())) {
+      for (const { address } of addresses || []) {
+        allowed.add(toHostname(address));
+      }
+    }
+  }
+  return allowed;
+}
+
+/**
+ * Check that a request was addressed to this server
+ * @param request Incoming request
+ * @param allowedHosts Hostnames the server answers to
+ * @returns Boolean indicating if the Host header names the server
+ */
+function isAllowedHost(request: http.IncomingMessage, allowedHosts: Set<string>): boolean {
+  try {
+    return allowedHosts.has(new URL(`http://${request.headers.host || ''}`).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check the bearer token, comparing in constant time
+ * @param request Incoming request
+ * @param token Token the server was started with
+ * @returns Boolean indicating if the request carries the token
+ */
+function isAuthorized(request: http.IncomingMessage, token: string): boolean {
+  const header = request.headers.authorization || '';
+  const supplied = Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : '');
+  const expected = Buffer.from(token);
+  return supplied.length === expected.length && crypto.timingSafeEqual(supplied, expected);
+}
+
+/**
+ * Answer a request
+ * @param jobs Job manager
+ * @param token Required bearer token, if any
+ * @param allowedHosts Hostnames the server answers to
+ * @param request Incoming request
+ * @param response Server response
+ * @throws HttpError or ScraperError for requests that cannot be answered
+ */
+async function handleRequest(
+  jobs: ScrapeJobManager,
+  token: string | undefined,
+  allowedHosts: Set<string>,
+  request: http.IncomingMessage,
+  response: http.ServerResponse
+): Promise<void> {
+  if (!isAllowedHost(request, allowedHosts)) {
+    throw new HttpError(403, `Host ${request.headers.host || '(none)'} is not allowed`);
+  }
+  if (token && !isAuthorized(request, token)) {
+    throw new HttpError(401, 'Missing or wrong bearer token');
+  }
+  // Browsers only send JSON cross-site after a preflight, which this server never answers
+  const method = request.method || 'GET';
+  const contentType = (request.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+  if (method === 'POST' && contentType !== 'application/json') {
+    throw new HttpError(415, 'POST requests must be sent as Content-Type: application/json');
+  }
+
+  const url = new URL(request.url || '/', 'http://localhost');
+  const [resource, id, action, ...rest] = url.pathname.split('/').filter(part => part);
+  if (resource !== 'jobs' || rest.length > 0) {
+    throw new HttpError(404, `No such resource: ${url.pathname}`);
+  }
+
+  if (!id) {
+    if (method === 'POST') {
+      const status = jobs.createJob(parseScrapeJobRequest(await readJsonBody(request)));
+      response.setHeader('Location', `/jobs/${status.id}`);
+      sendJson(response, 202, status);
+    } else if (method === 'GET') {
+      sendJson(response, 200, { jobs: jobs.listJobs() });
+    } else {
+      throw new HttpError(405, `${method} is not supported on /jobs`);
+    }
+    return;
+  }
+
+  const status = jobs.getJob(id);
+  if (!status) {
+    throw new HttpError(404, `No such job: ${id}`);
+  }
+
+  if (!action && method === 'GET') {
+    sendJson(response, 200, status);
+  } else if (action === 'orders' && method === 'GET') {
+    const orders = jobs.getOrders(id);
+    if (!orders) {
+      throw new HttpError(409, `Job ${id} has no orders yet, it is ${status.state}`);
+    }
+    const format = (url.searchParams.get('format') || 'json') as OutputFormat;
+    const exporter = EXPORTERS.find(candidate => candidate.format === format);
+    if (!exporter) {
+      throw new HttpError(400, `Unsupported format "${format}". Supported formats: ${EXPORTERS.map(candidate => candidate.format).join(', ')}`);
+    }
+    response.writeHead(200, { 'Content-Type': CONTENT_TYPES[format] });
+    response.end(exporter.serialize(orders));
+  } else if ((action === 'credentials' || action === 'otp') && method === 'POST') {
+    const type: ScrapeJobInputRequest['type'] = action;
+    const input = parseScrapeJobInput(await readJsonBody(request));
+    if (!jobs.submitInput(id, type, input)) {
+      throw new HttpError(409, `Job ${id} is not waiting for ${type === 'otp' ? 'an OTP' : 'credentials'}, it is ${status.state}`);
+    }
+    sendJson(response, 202, jobs.getJob(id));
+  } else {
+    throw new HttpError(404, `No such resource: ${url.pathname}`);
+  }
+}
+
+/**
+ * Create the HTTP API server. It does not listen until server.listen() is called.
+ *
+ *   POST /jobs                    Start a scrape job, see parseScrapeJobRequest for the body
+ *   GET  /jobs                    List jobs
+ *   GET  /jobs/:id                Job state and progress
+ *   GET  /jobs/:id/orders         Orders of a completed job; ?format=json|ndjson|csv|markdown
+ *   POST /jobs/:id/credentials    { "username": "...", "password": "..." } for a job awaiting_credentials
+ *   POST /jobs/:id/otp            { "otp": "123456" } for a job awaiting_otp
+ *
+ * Requests must name the listening address or localhost in their Host header,
+ * and POST bodies must be sent as application/json. Errors are answered as
+ * { "error": message }.
+ * @param jobs Job manager running the jobs
+ * @param options Address the server will listen on and the bearer token every request must carry, if any
+ * @returns HTTP server
+ */
+export function createScraperServer(jobs: ScrapeJobManager, options: Partial<ScraperServerOptions> = {}): http.Server {
+  const allowedHosts = getAllowedHosts(options.host || SERVER_DEFAULTS.HOST);
+  return http.createServer((request, response) => {
+    handleRequest(jobs, options.token, allowedHosts, request, response).catch(error => {
+      let status = 500;
+      if (error instanceof HttpError) {
+        status = error.status;
+      } else if (error instanceof ScraperError) {
+        status = 400;
+      } else {
+        logger.error(`Could not answer ${request.method} ${request.url}:`, error);
+      }
+      sendJson(response, status, { error: status === 500 ? 'Internal server error' : (error as Error).message });
+    });
+  });
+}
@@ -0,0 +1,69 @@
+import fs from 'fs';
+import { Page } from 'playwright';
+import { URLS, SELECTORS, TIMEOUTS } from './config';
+import { logger } from './logger';
+
+/**
+ * Save the current session (cookies and local storage) to disk
+ * @param page Playwright page instance of a logged-in context
+ * @param statePath File to write the storage state to
+ */
+export async function saveSession(page: Page, statePath: string): Promise<void> {
+  try {
+    const state = await page.context().storageState();
+    // The state contains authentication cookies, so keep it private to the current user
+    fs.writeFileSync(statePath, JSON.stringify(state, null, 2), { mode: 0o600 });
+    logger.info(`Session saved to ${statePath}`);
+  } catch (error) {
+    logger.warn('Error saving session:', error);
+  }
+}
+
+/**
+ * Delete a saved session from disk
+ * @param statePath File holding the storage state
+ */
+export function clearSession(statePath: string): void {
+  if (fs.existsSync(statePath)) {
+    fs.unlinkSync(statePath);
+    logger.info(`Removed saved session ${statePath}`);
+  }
+}
+
+/**
+ * Check if a restored session is still logged in
+ * @param page Playwright page instance
+ * @returns Boolean indicating if the order history page is reachable without logging in
+ */
+export async function isSessionValid(page: Page): Promise<boolean> {
+  try {
+    await page.goto(URLS.ORDER_HISTORY, {
+      waitUntil: 'load',
+      timeout: TIMEOUTS.ORDER_PAGE_LOAD
+    });
+
+    // An expired session gets redirected to the sign-in or verification page
+    const currentUrl = page.url();
+    if (currentUrl.includes('/ap/signin') || currentUrl.includes('/ap/mfa')) {
+      logger.info(`Saved session has expired, redirected to: ${currentUrl}`);
+      return false;
+    }
+
+    for (const selector of SELECTORS.ORDERS.ORDER_PAGE_INDICATORS) {
+      try {
+        if (await page.isVisible(selector)) {
+          logger.info(`Saved session is valid, found order page indicator: ${selector}`);
+          return true;
+        }
+      } catch {
+        // Continue checking other selectors
+      }
+    }
+
+    logger.info('No order page indicators found, treating saved session as expired');
+    return false;
+  } catch (error) {
+    logger.warn('Error checking saved session:', error);
+    return false;
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Item statuses, refunds and what an order cost once returns are taken off
+ */
+import { getMarketplace } from './marketplace';
+import { createMoney, parseMoney } from './money';
+import { parseStatusDate } from './dates';
+import { ItemStatus, ItemStatusTexts, Money, Order, OrderItem } from './types';
+
+// Order the status words are checked in, see ItemStatusTexts
+const STATUS_ORDER: Array<keyof ItemStatusTexts> = ['refunded', 'returned', 'return-started', 'cancelled', 'delivered', 'in-transit'];
+
+// Statuses whose status line may show the amount paid back
+const REFUND_STATUSES: ItemStatus[] = ['refunded', 'returned', 'cancelled'];
+
+// Statuses of items whose money came back, even when the card shows no amount
+const RETURNED_STATUSES: ItemStatus[] = ['refunded', 'returned'];
+
+// An amount with its currency in a sentence, e.g. "Your refund of ₹1,299.00 has been issued"
+const AMOUNT_PATTERN = /(?:US\$|Rs\.?|INR|USD|GBP|EUR|JPY|[₹$£€¥])\s*-?\d[\d.,]*\d|\d[\d.,]*\s*(?:€|EUR)/;
+
+/**
+ * Normalize an item status headline
+ * @param text Status headline as shown, e.g. "Return started" or "Delivered 15 March"
+ * @param marketplace Marketplace whose status words to look for, by default the active one
+ * @returns Normalized status, or "unknown" for headlines without a known word
+ */
+export function normalizeItemStatus(text: string, marketplace = getMarketplace()): ItemStatus {
+  const value = (text || '').toLowerCase();
+  const status = STATUS_ORDER.find(key => marketplace.statusTexts[key].some(word => value.includes(word)));
+  return status || 'unknown';
+}
+
+/**
+ * Find the amount of money in a sentence
+ * @param text Sentence that may mention an amount with its currency
+ * @returns Parsed amount, or null if there is none
+ */
+function findAmount(text: string): Money | null {
+  const match = (text || '').match(AMOUNT_PATTERN);
+  return match ? parseMoney(match[0]) : null;
+}
+
+/**
+ * Normalize the status of an item from the status lines of its delivery box,
+ * with the date of the status and the amount refunded where shown
+ * @param item Item to update in place
+ * @param orderDateIso Date the order was placed, used for the year of the status date
+ * @param marketplace Marketplace whose status words and month names to use, by default the active one
+ */
+export function applyItemStatus(item: OrderItem, orderDateIso: string | null, marketplace = getMarketplace()): void {
+  const headline = item.deliveryStatus || '';
+  const detail = item.statusDetail || '';
+  if (!headline && !detail) {
+    return;
+  }
+
+  // The line under the headline tells what happened when the headline is only a date
+  let status = normalizeItemStatus(headline, marketplace);
+  if (status === 'unknown' && detail) {
+    status = normalizeItemStatus(detail, marketplace);
+  }
+  item.status = status;
+
+  const statusDate = parseStatusDate(headline, orderDateIso, marketplace) || parseStatusDate(detail, orderDateIso, marketplace);
+  if (statusDate) item.statusDate = statusDate;
+
+  if (REFUND_STATUSES.includes(status)) {
+    const refund = findAmount(detail) || findAmount(headline);
+    if (refund) item.refund = { ...refund, amount: Math.abs(refund.amount) };
+  }
+}
+
+/**
+ * Check whether every item of an order was cancelled
+ * @param order Scraped order
+ * @returns Boolean indicating that nothing of the order was bought
+ */
+export function isOrderCancelled(order: Order): boolean {
+  return order.items.length > 0 && order.items.every(item => item.status === 'cancelled');
+}
+
+/**
+ * Work out what an item paid back
+ * @param item Order item
+ * @returns Refund shown on the card, else the item's price times its quantity
+ *   for returned and refunded items, or null if nothing is known to be paid back
+ */
+export function getItemRefund(item: OrderItem): Money | null {
+  if (item.refund) {
+    return item.refund;
+  }
+  if (item.status && RETURNED_STATUSES.includes(item.status) && item.price) {
+    return createMoney(item.price.amount * (item.quantity ?? 1), item.price.currency);
+  }
+  return null;
+}
+
+/**
+ * Work out what an order cost once returns and refunds are taken off. The
+ * refund total of the details page is preferred over the refunds shown per
+ * item. A returned or refunded item without a refund amount counts at its
+ * price, when --details has read it.
+ * @param order Scraped order
+ * @returns Amount spent, zero for orders whose items were all cancelled, or null if the order total
+ *   or the refund of a returned item is unknown
+ */
+export function getOrderNetTotal(order: Order): Money | null {
+  if (!order.total) {
+    return null;
+  }
+  const currency = order.total.currency;
+  if (isOrderCancelled(order)) {
+    return createMoney(0, currency);
+  }
+
+  let refunds: Money[];
+  if (order.details && order.details.refundTotal) {
+    refunds = [order.details.refundTotal];
+  } else {
+    refunds = [];
+    for (const item of order.items) {
+      const refund = getItemRefund(item);
+      if (refund) {
+        refunds.push(refund);
+      } else if (item.status && RETURNED_STATUSES.includes(item.status)) {
+        // Counting the item as spent would overstate the order
+        return null;
+      }
+    }
+  }
+  const refunded = refunds
+    .filter(refund => refund.currency === currency)
+    .reduce((sum, refund) => sum + refund.amount, 0);
+  return createMoney(Math.max(0, order.total.amount - refunded), currency);
+}
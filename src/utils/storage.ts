@@ -0,0 +1,374 @@
+/**
+ * SQLite storage backend for scraped orders
+ */
+import type BetterSqlite3 from 'better-sqlite3';
+import { ItemStatus, Money, Order, PurchaseType, OrderDetails, OrderItem, ScrapeRunInfo, ScrapeRunSummary, StoreResult, ScraperError } from './types';
+import { getOrderKey } from './sync';
+import { logger } from './logger';
+
+export type OrderDatabase = BetterSqlite3.Database;
+
+/**
+ * Schema migrations, applied in order. The database's `user_version` pragma
+ * records the last applied version; add new fields by appending a migration,
+ * never by editing one that has already shipped.
+ */
+export const MIGRATIONS: Array<{ version: number; description: string; sql: string }> = [
+  {
+    version: 1,
+    description: 'Create orders, items and scrape_runs tables',
+    sql: `
+      CREATE TABLE scrape_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        started_at TEXT NOT NULL,
+        finished_at TEXT,
+        status TEXT NOT NULL DEFAULT 'running',
+        from_year INTEGER,
+        to_year INTEGER,
+        orders_found INTEGER NOT NULL DEFAULT 0,
+        orders_new INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE TABLE orders (
+        order_key TEXT PRIMARY KEY,
+        order_id TEXT,
+        order_date TEXT NOT NULL,
+        order_date_iso TEXT,
+        price TEXT NOT NULL,
+        total_amount INTEGER,
+        currency TEXT,
+        details_link TEXT,
+        invoice_link TEXT,
+        first_seen_run_id INTEGER REFERENCES scrape_runs(id),
+        last_seen_run_id INTEGER REFERENCES scrape_runs(id),
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX orders_order_date_iso ON orders(order_date_iso);
+
+      CREATE TABLE items (
+        order_key TEXT NOT NULL REFERENCES orders(order_key) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        product_name TEXT NOT NULL,
+        link TEXT,
+        image_url TEXT,
+        delivery_status TEXT,
+        seller TEXT,
+        quantity INTEGER,
+        PRIMARY KEY (order_key, position)
+      );
+    `
+  },
+  {
+    version: 2,
+    description: 'Add order details and item prices',
+    sql: `
+      ALTER TABLE orders ADD COLUMN details_json TEXT;
+      ALTER TABLE items ADD COLUMN price_amount INTEGER;
+      ALTER TABLE items ADD COLUMN price_currency TEXT;
+      ALTER TABLE items ADD COLUMN price_raw TEXT;
+    `
+  },
+  {
+    version: 3,
+    description: 'Add the saved invoice path',
+    sql: `
+      ALTER TABLE orders ADD COLUMN invoice_path TEXT;
+    `
+  },
+  {
+    version: 4,
+    description: 'Add item statuses and refunds',
+    sql: `
+      ALTER TABLE items ADD COLUMN status TEXT;
+      ALTER TABLE items ADD COLUMN status_date TEXT;
+      ALTER TABLE items ADD COLUMN status_detail TEXT;
+      ALTER TABLE items ADD COLUMN refund_amount INTEGER;
+      ALTER TABLE items ADD COLUMN refund_currency TEXT;
+      ALTER TABLE items ADD COLUMN refund_raw TEXT;
+    `
+  },
+  {
+    version: 5,
+    description: 'Add the purchase type of orders',
+    sql: `
+      ALTER TABLE orders ADD COLUMN purchase_type TEXT;
+    `
+  }
+];
+
+/**
+ * Apply any migrations newer than the database's schema version
+ * @param db Open database
+ * @returns Number of migrations applied
+ */
+export function migrateDatabase(db: OrderDatabase): number {
+  const currentVersion = db.pragma('user_version', { simple: true }) as number;
+  const pending = MIGRATIONS.filter(migration => migration.version > currentVersion);
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      db.exec(migration.sql);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+    logger.info(`Applied database migration ${migration.version}: ${migration.description}`);
+  }
+  return pending.length;
+}
+
+/**
+ * Open (creating if needed) the order database and bring its schema up to date
+ * @param dbPath SQLite database file
+ * @returns Open database
+ */
+export async function openOrderDatabase(dbPath: string): Promise<OrderDatabase> {
+  let Database: typeof BetterSqlite3;
+  try {
+    Database = (await import('better-sqlite3')).default;
+  } catch (error) {
+    throw new ScraperError(`SQLite storage needs the optional better-sqlite3 package: ${(error as Error).message}`);
+  }
+
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrateDatabase(db);
+  return db;
+}
+
+/**
+ * Record the start of a scrape run
+ * @param db Open database
+ * @param info Year range being scraped
+ * @returns ID of the new run
+ */
+export function startScrapeRun(db: OrderDatabase, info: ScrapeRunInfo): number {
+  const result = db.prepare(
+    'INSERT INTO scrape_runs (started_at, from_year, to_year) VALUES (?, ?, ?)'
+  ).run(new Date().toISOString(), info.fromYear, info.toYear);
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Record the end of a scrape run
+ * @param db Open database
+ * @param runId ID returned by startScrapeRun
+ * @param summary Outcome of the run
+ */
+export function finishScrapeRun(db: OrderDatabase, runId: number, summary: ScrapeRunSummary): void {
+  db.prepare(
+    'UPDATE scrape_runs SET finished_at = ?, status = ?, orders_found = ?, orders_new = ? WHERE id = ?'
+  ).run(new Date().toISOString(), summary.status, summary.ordersFound, summary.ordersNew, runId);
+}
+
+/**
+ * Insert or update orders and their items, keyed on the order ID or a content
+ * hash when the ID is missing. An order's items are replaced on every update;
+ * details, item prices and invoice paths from earlier runs are kept when the
+ * update has none.
+ * @param db Open database
+ * @param orders Orders to store
+ * @param runId Scrape run the orders were found in
+ * @returns Number of orders inserted and updated
+ */
+export function upsertOrders(db: OrderDatabase, orders: Order[], runId: number | null = null): StoreResult {
+  const now = new Date().toISOString();
+  const exists = db.prepare('SELECT 1 FROM orders WHERE order_key = ?');
+  const upsertOrder = db.prepare(`
+    INSERT INTO orders (
+      order_key, order_id, order_date, order_date_iso, price, total_amount, currency,
+      purchase_type, details_link, invoice_link, details_json, invoice_path, first_seen_run_id, last_seen_run_id, updated_at
+    ) VALUES (
+      @orderKey, @orderId, @orderDate, @orderDateIso, @price, @totalAmount, @currency,
+      @purchaseType, @detailsLink, @invoiceLink, @detailsJson, @invoicePath, @runId, @runId, @updatedAt
+    )
+    ON CONFLICT(order_key) DO UPDATE SET
+      order_id = excluded.order_id,
+      order_date = excluded.order_date,
+      order_date_iso = excluded.order_date_iso,
+      price = excluded.price,
+      total_amount = excluded.total_amount,
+      currency = excluded.currency,
+      purchase_type = COALESCE(excluded.purchase_type, orders.purchase_type),
+      details_link = excluded.details_link,
+      invoice_link = excluded.invoice_link,
+      details_json = COALESCE(excluded.details_json, orders.details_json),
+      invoice_path = COALESCE(excluded.invoice_path, orders.invoice_path),
+      last_seen_run_id = excluded.last_seen_run_id,
+      updated_at = excluded.updated_at
+  `);
+  const selectPrices = db.prepare(
+    'SELECT * FROM items WHERE order_key = ? AND price_amount IS NOT NULL AND price_currency IS NOT NULL'
+  );
+  const deleteItems = db.prepare('DELETE FROM items WHERE order_key = ?');
+  const insertItem = db.prepare(`
+    INSERT INTO items (
+      order_key, position, product_name, link, image_url, delivery_status, seller, quantity,
+      price_amount, price_currency, price_raw, status, status_date, status_detail,
+      refund_amount, refund_currency, refund_raw
+    ) VALUES (
+      @orderKey, @position, @productName, @link, @imageUrl, @deliveryStatus, @seller, @quantity,
+      @priceAmount, @priceCurrency, @priceRaw, @status, @statusDate, @statusDetail,
+      @refundAmount, @refundCurrency, @refundRaw
+    )
+  `);
+
+  const result: StoreResult = { inserted: 0, updated: 0 };
+  db.transaction(() => {
+    for (const order of orders) {
+      const orderKey = getOrderKey(order);
+      if (exists.get(orderKey)) {
+        result.updated++;
+      } else {
+        result.inserted++;
+      }
+
+      upsertOrder.run({
+        orderKey,
+        orderId: order.orderId,
+        orderDate: order.orderDate,
+        orderDateIso: order.orderDateIso,
+        price: order.price,
+        totalAmount: order.total ? order.total.amount : null,
+        currency: order.total ? order.total.currency : null,
+        purchaseType: order.purchaseType ?? null,
+        detailsLink: order.detailsLink ?? null,
+        invoiceLink: order.invoiceLink ?? null,
+        detailsJson: order.details ? JSON.stringify(order.details) : null,
+        invoicePath: order.invoicePath ?? null,
+        runId,
+        updatedAt: now
+      });
+
+      // Prices are only scraped in --details runs, so carry them over from earlier ones
+      const previousPrices = new Map<string, Money>();
+      for (const row of selectPrices.all(orderKey) as ItemRow[]) {
+        previousPrices.set(row.product_name, {
+          amount: row.price_amount as number,
+          currency: row.price_currency as string,
+          raw: row.price_raw || ''
+        });
+      }
+
+      deleteItems.run(orderKey);
+      order.items.forEach((item, position) => {
+        const price = item.price || previousPrices.get(item.productName);
+        insertItem.run({
+          orderKey,
+          position,
+          productName: item.productName,
+          link: item.link ?? null,
+          imageUrl: item.imageUrl ?? null,
+          deliveryStatus: item.deliveryStatus ?? null,
+          seller: item.seller ?? null,
+          quantity: item.quantity ?? null,
+          priceAmount: price ? price.amount : null,
+          priceCurrency: price ? price.currency : null,
+          priceRaw: price ? price.raw : null,
+          status: item.status ?? null,
+          statusDate: item.statusDate ?? null,
+          statusDetail: item.statusDetail ?? null,
+          refundAmount: item.refund ? item.refund.amount : null,
+          refundCurrency: item.refund ? item.refund.currency : null,
+          refundRaw: item.refund ? item.refund.raw : null
+        });
+      });
+    }
+  })();
+  return result;
+}
+
+interface OrderRow {
+  order_key: string;
+  order_id: string | null;
+  order_date: string;
+  order_date_iso: string | null;
+  price: string;
+  total_amount: number | null;
+  currency: string | null;
+  purchase_type: PurchaseType | null;
+  details_link: string | null;
+  invoice_link: string | null;
+  details_json: string | null;
+  invoice_path: string | null;
+}
+
+interface ItemRow {
+  order_key: string;
+  product_name: string;
+  link: string | null;
+  image_url: string | null;
+  delivery_status: string | null;
+  seller: string | null;
+  quantity: number | null;
+  price_amount: number | null;
+  price_currency: string | null;
+  price_raw: string | null;
+  status: ItemStatus | null;
+  status_date: string | null;
+  status_detail: string | null;
+  refund_amount: number | null;
+  refund_currency: string | null;
+  refund_raw: string | null;
+}
+
+/**
+ * Read all stored orders, newest first
+ * @param db Open database
+ * @returns Stored orders with their items
+ */
+export function loadOrders(db: OrderDatabase): Order[] {
+  const orderRows = db.prepare(
+    'SELECT * FROM orders ORDER BY order_date_iso IS NULL, order_date_iso DESC'
+  ).all() as OrderRow[];
+  const itemRows = db.prepare('SELECT * FROM items ORDER BY order_key, position').all() as ItemRow[];
+
+  const itemsByOrder = new Map<string, OrderItem[]>();
+  for (const row of itemRows) {
+    const item: OrderItem = { productName: row.product_name };
+    if (row.link !== null) item.link = row.link;
+    if (row.image_url !== null) item.imageUrl = row.image_url;
+    if (row.delivery_status !== null) item.deliveryStatus = row.delivery_status;
+    if (row.status_detail !== null) item.statusDetail = row.status_detail;
+    if (row.status !== null) item.status = row.status;
+    if (row.status_date !== null) item.statusDate = row.status_date;
+    if (row.refund_amount !== null && row.refund_currency !== null) {
+      item.refund = { amount: row.refund_amount, currency: row.refund_currency, raw: row.refund_raw || '' };
+    }
+    if (row.seller !== null) item.seller = row.seller;
+    if (row.quantity !== null) item.quantity = row.quantity;
+    if (row.price_amount !== null && row.price_currency !== null) {
+      item.price = { amount: row.price_amount, currency: row.price_currency, raw: row.price_raw || '' };
+    }
+    const items = itemsByOrder.get(row.order_key) || [];
+    items.push(item);
+    itemsByOrder.set(row.order_key, items);
+  }
+
+  return orderRows.map(row => {
+    const order: Order = {
+      orderId: row.order_id,
+      orderDate: row.order_date,
+      orderDateIso: row.order_date_iso,
+      price: row.price,
+      total: row.total_amount !== null && row.currency !== null
+        ? { amount: row.total_amount, currency: row.currency, raw: row.price }
+        : null,
+      items: itemsByOrder.get(row.order_key) || []
+    };
+    if (row.purchase_type !== null) order.purchaseType = row.purchase_type;
+    if (row.details_link !== null) order.detailsLink = row.details_link;
+    if (row.invoice_link !== null) order.invoiceLink = row.invoice_link;
+    if (row.details_json !== null) order.details = JSON.parse(row.details_json) as OrderDetails;
+    if (row.invoice_path !== null) order.invoicePath = row.invoice_path;
+    return order;
+  });
+}
+
+/**
+ * Read the keys of all stored orders
+ * @param db Open database
+ * @returns Order keys, as produced by getOrderKey
+ */
+export function loadOrderKeys(db: OrderDatabase): string[] {
+  return (db.prepare('SELECT order_key FROM orders').all() as Array<{ order_key: string }>).map(row => row.order_key);
+}
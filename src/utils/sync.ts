@@ -0,0 +1,114 @@
+/**
+ * Incremental sync: tracking of already-scraped orders between runs
+ */
+import fs from 'fs';
+import crypto from 'crypto';
+import { Order, OrderExporter, SyncState } from './types';
+import { jsonExporter } from './exporters';
+import { logger } from './logger';
+import { ScraperError } from './errors';
+
+/**
+ * Get a stable key identifying an order across runs
+ * @param order Scraped order
+ * @returns The order ID, or a content hash for orders without one
+ */
+export function getOrderKey(order: Order): string {
+  if (order.orderId) {
+    return order.orderId;
+  }
+
+  const content = JSON.stringify([order.orderDate, order.price, order.items.map(item => item.productName)]);
+  return `hash:${crypto.createHash('sha256').update(content).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Load the sync state saved by a previous run
+ * @param statePath File holding the sync state
+ * @returns Saved state, or an empty state on the first run
+ */
+export function loadSyncState(statePath: string): SyncState {
+  if (!fs.existsSync(statePath)) {
+    return { knownOrderKeys: [], lastSyncedAt: null };
+  }
+
+  try {
+    const state = JSON.parse(fs.readFileSync(statePath, 'utf8')) as Partial<SyncState>;
+    return {
+      knownOrderKeys: Array.isArray(state.knownOrderKeys) ? state.knownOrderKeys : [],
+      lastSyncedAt: state.lastSyncedAt || null
+    };
+  } catch (error) {
+    logger.warn(`Could not read sync state from ${statePath}, starting from scratch:`, error);
+    return { knownOrderKeys: [], lastSyncedAt: null };
+  }
+}
+
+/**
+ * Write a file through a temporary file renamed over it, so a run killed
+ * halfway leaves the previous content rather than a truncated file
+ * @param filePath File to write
+ * @param content New content
+ */
+export function writeFileAtomically(filePath: string, content: string): void {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    fs.writeFileSync(tempPath, content);
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Save the sync state for the next run
+ * @param statePath File to write the sync state to
+ * @param state Sync state to save
+ */
+export function saveSyncState(statePath: string, state: SyncState): void {
+  writeFileAtomically(statePath, JSON.stringify(state, null, 2));
+}
+
+/**
+ * Read the orders written by a previous run. A file that exists but cannot
+ * be read is an error rather than an empty dataset, as an incremental run
+ * would otherwise overwrite it with the new orders only.
+ * @param outputPath File written by a previous run
+ * @param exporter Exporter for the file's format, which must support parsing
+ * @returns Previously scraped orders, or an empty list if there is no file
+ * @throws ScraperError if the file exists but cannot be parsed, e.g. when a killed run truncated it
+ */
+export function readExistingOrders(outputPath: string, exporter: OrderExporter = jsonExporter): Order[] {
+  if (!fs.existsSync(outputPath) || !exporter.parse) {
+    return [];
+  }
+
+  try {
+    return exporter.parse(fs.readFileSync(outputPath, 'utf8'));
+  } catch (error) {
+    throw new ScraperError(`Could not read existing orders from ${outputPath}, fix or move the file first: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Merge newly scraped orders into an existing dataset. New orders replace
+ * existing ones with the same key, and the result is sorted newest first.
+ * @param existing Orders from previous runs
+ * @param incoming Orders from the current run
+ * @returns Merged orders
+ */
+export function mergeOrders(existing: Order[], incoming: Order[]): Order[] {
+  const merged = new Map<string, Order>();
+  for (const order of [...existing, ...incoming]) {
+    merged.set(getOrderKey(order), order);
+  }
+
+  // Orders without a parsed date keep their relative position at the end
+  return Array.from(merged.values()).sort((a, b) => {
+    if (!a.orderDateIso || !b.orderDateIso) {
+      return a.orderDateIso ? -1 : b.orderDateIso ? 1 : 0;
+    }
+    return b.orderDateIso.localeCompare(a.orderDateIso);
+  });
+}
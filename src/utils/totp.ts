@@ -0,0 +1,80 @@
+/**
+ * Time-based one-time passwords (RFC 6238) for authenticator-app two-step verification
+ */
+import crypto from 'crypto';
+import { ScraperError } from './types';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Time step and code length used by Amazon and authenticator apps
+ */
+export const TOTP_DEFAULTS = {
+  STEP_SECONDS: 30,
+  DIGITS: 6
+};
+
+/**
+ * Decode a base32 shared secret as shown when setting up an authenticator app.
+ * Spaces, dashes, padding and letter case are ignored.
+ * @param secret Base32-encoded secret
+ * @returns Secret key bytes
+ * @throws ScraperError if the secret is empty or not valid base32
+ */
+export function decodeBase32(secret: string): Buffer {
+  const cleaned = secret.replace(/[\s-]/g, '').replace(/=+$/, '').toUpperCase();
+  if (!cleaned) {
+    throw new ScraperError('TOTP secret is empty');
+  }
+
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of cleaned) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new ScraperError(`TOTP secret is not valid base32: unexpected character "${char}"`);
+    }
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate an HMAC-based one-time password (RFC 4226)
+ * @param key Secret key bytes
+ * @param counter Moving factor, the time step for TOTP
+ * @param digits Number of digits in the code
+ * @returns Zero-padded code
+ */
+export function generateHotp(key: Buffer, counter: number, digits = TOTP_DEFAULTS.DIGITS): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac('sha1', key).update(message).digest();
+
+  // Dynamic truncation: 31 bits starting at the offset given by the last nibble
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+/**
+ * Generate the time-based one-time password for a moment in time
+ * @param secret Base32-encoded shared secret
+ * @param options time in milliseconds since the epoch (default: now), stepOffset
+ *   to shift by whole time steps for clock-skew retries, and the code length
+ * @returns Zero-padded code
+ */
+export function generateTotp(
+  secret: string,
+  options: { time?: number; stepOffset?: number; digits?: number } = {}
+): string {
+  const time = options.time ?? Date.now();
+  const counter = Math.floor(time / 1000 / TOTP_DEFAULTS.STEP_SECONDS) + (options.stepOffset ?? 0);
+  return generateHotp(decodeBase32(secret), counter, options.digits ?? TOTP_DEFAULTS.DIGITS);
+}
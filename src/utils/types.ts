@@ -1,14 +1,7 @@
 import { Page, Browser } from 'playwright';
 
-/**
- * Custom error class for scraper-specific errors
- */
-export class ScraperError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'ScraperError';
-  }
-}
+// The error hierarchy lives in errors.ts; the base class is kept importable from here
+export { ScraperError } from './errors';
 
 /**
  * Represents a product item in an order
@@ -16,23 +9,117 @@ export class ScraperError extends Error {
 export interface OrderItem {
   productName: string;
   link?: string;
+  imageUrl?: string;
+  deliveryStatus?: string; // Status headline as shown, e.g. "Delivered 15 March"
+  statusDetail?: string; // Line under the headline, e.g. "Your refund of ₹1,299.00 has been issued"
+  status?: ItemStatus; // Normalized from the headline
+  statusDate?: string; // YYYY-MM-DD, when the headline has a date
+  refund?: Money; // Amount refunded for a returned or refunded item, when the card shows it
+  seller?: string;
+  quantity?: number;
+  price?: Money; // Unit price, only known after scraping the order details page
+}
+
+/**
+ * Where an item stands, normalized from the status headline of its delivery box
+ */
+export type ItemStatus = 'in-transit' | 'delivered' | 'cancelled' | 'return-started' | 'returned' | 'refunded' | 'unknown';
+
+/**
+ * Monetary amount parsed from a price string
+ */
+export interface Money {
+  amount: number; // In minor units, e.g. paise or cents
+  currency: string; // ISO 4217 code
+  raw: string; // Text as shown on the page
+}
+
+/**
+ * Promotion or discount applied to an order, such as "Promotion Applied: -₹100.00"
+ */
+export interface OrderPromotion {
+  label: string;
+  amount: Money; // Negative
+}
+
+/**
+ * How an order was paid, without the card number beyond its last four digits
+ */
+export interface PaymentMethod {
+  type: string; // e.g. "Visa", "Amazon Pay balance"
+  lastFour: string | null;
+}
+
+/**
+ * Charges, payment and shipping read from an order's details page
+ */
+export interface OrderDetails {
+  subtotal: Money | null; // Items before shipping, tax and promotions
+  shipping: Money | null;
+  tax: Money | null;
+  discounts: Money | null; // Sum of the promotions, negative
+  promotions: OrderPromotion[];
+  grandTotal: Money | null;
+  refundTotal: Money | null; // Refunded for returns and cancellations
+  paymentMethod: PaymentMethod | null;
+  shippingAddress: string[] | null; // Address lines as shown
+}
+
+/**
+ * Text read from an order details page, before parsing
+ */
+export interface OrderDetailsPageContent {
+  summary: Array<{ label: string; value: string }>; // Lines of the order summary, e.g. "Shipping:" and "₹40.00"
+  items: Array<{ productName: string; link?: string; price: string; quantity?: number }>;
+  paymentMethod: string; // e.g. "Visa ending in 1234"
+  shippingAddress: string[];
 }
 
 /**
  * Represents a complete order with multiple items
  */
 export interface Order {
+  orderId: string | null; // e.g. "408-1234567-1234567"
   orderDate: string;
+  orderDateIso: string | null; // YYYY-MM-DD
   price: string;
+  total: Money | null;
+  purchaseType?: PurchaseType; // Set by extractOrders, see classifyPurchase
+  detailsLink?: string;
+  invoiceLink?: string;
   items: OrderItem[];
+  details?: OrderDetails; // Set when the details page was scraped, see scrapeOrderDetails
+  invoicePath?: string; // Saved invoice, see downloadInvoices
 }
 
+/**
+ * Kind of purchase an order is, told apart by its links and wording
+ */
+export type PurchaseType = 'physical' | 'video' | 'digital' | 'gift-card' | 'grocery' | 'subscription';
+
+/**
+ * Order history listing to walk: the default one, or the digital orders view
+ * that lists video, Kindle and other digital purchases
+ */
+export type OrderHistoryView = 'orders' | 'digital';
+
 /**
  * Browser initialization result
  */
 export interface BrowserContext {
   browser: Browser;
   page: Page;
+  sessionRestored: boolean;
+}
+
+/**
+ * Browser initialization options
+ */
+export interface BrowserOptions {
+  storageStatePath?: string;
+  headless?: boolean;
+  recordDir?: string; // Record a HAR and a Playwright trace of the context into this directory
+  replayHarPath?: string; // Serve every request from this HAR instead of the network
 }
 
 /**
@@ -62,4 +149,591 @@ export interface ValidationResult {
 export interface Credentials {
   username: string;
   password: string;
-} 
\ No newline at end of file
+}
+
+/**
+ * Options controlling which orders are scraped
+ */
+export interface ScrapeOptions {
+  fromYear: number;
+  toYear: number;
+  maxOrders: number | null;
+  since?: string; // YYYY-MM-DD, inclusive
+  until?: string; // YYYY-MM-DD, inclusive
+  knownOrderKeys?: Set<string>; // Orders scraped by previous runs, for incremental sync
+  details?: boolean; // Also open each order's details page for item prices, charges, payment and shipping
+  detailsConcurrency?: number; // Details pages open at once
+  maxDetailPages?: number | null; // Details pages opened per run, null for no limit
+  invoiceDir?: string; // Save each order's invoice into this directory
+  cancelled?: boolean; // Also crawl the cancelled orders filter
+  digital?: boolean; // Also walk the digital orders view
+  purchaseTypes?: PurchaseType[]; // Only return orders of these types
+}
+
+/**
+ * Limits on scraping order details pages
+ */
+export interface OrderDetailsOptions {
+  concurrency: number;
+  maxPages: number | null;
+}
+
+/**
+ * Order details pages visited in a run
+ */
+export interface OrderDetailsStats {
+  scraped: number;
+  failed: number; // Pages that did not load or could not be read
+  skipped: number; // Orders without a details link or beyond the page limit
+}
+
+/**
+ * Invoices saved in a run
+ */
+export interface InvoiceDownloadStats {
+  downloaded: number;
+  existing: number; // Saved by an earlier run, so not downloaded again
+  failed: number;
+  missing: number; // Orders without an order ID to name the invoice by
+}
+
+/**
+ * Supported CLI commands
+ */
+export type CliCommand = 'scrape' | 'logout' | 'doctor' | 'report' | 'serve';
+
+/**
+ * Supported output formats
+ */
+export type OutputFormat = 'json' | 'ndjson' | 'csv' | 'markdown';
+
+/**
+ * Serializes orders into an output format
+ */
+export interface OrderExporter {
+  format: OutputFormat;
+  extensions: string[]; // File extensions that select this format
+  serialize(orders: Order[]): string;
+  parse?(content: string): Order[]; // Formats that can be read back support incremental merges
+}
+
+/**
+ * Options parsed from the command line and environment
+ */
+export interface CliOptions {
+  command: CliCommand;
+  help: boolean;
+  scrape: ScrapeOptions;
+  output: string;
+  format?: OutputFormat; // Picked from the output file extension when not given
+  marketplace: MarketplaceId;
+  headless: boolean;
+  sessionPath: string;
+  credentials: Partial<Credentials>;
+  passwordStdin: boolean;
+  otpCode?: string;
+  totpSecret?: string;
+  logLevel: LogLevel;
+  logJson: boolean;
+  diagnosticsDir: string;
+  record: boolean;
+  replayHarPath?: string;
+  incremental: boolean;
+  statePath: string;
+  dbPath?: string;
+  configPath?: string; // Selector, timeout and URL override file
+  snapshotDir?: string; // Saved login.html, mfa.html and orders.html for the doctor command
+  reportPath: string; // JSON report of the doctor command, HTML report of the report command
+  server: ScraperServerOptions; // Address and token of the serve command
+}
+
+/**
+ * Source of login credentials, asked whenever some are missing or were rejected
+ */
+export interface CredentialProvider {
+  /**
+   * @param known Credentials already supplied, to be completed
+   * @returns Complete credentials or null to give up
+   */
+  getCredentials(known: Partial<Credentials>): Promise<Credentials | null>;
+  /**
+   * @returns A new password after the previous one was rejected, or null to give up
+   */
+  getPassword(): Promise<string | null>;
+}
+
+/**
+ * Where the code of a two-step verification prompt comes from
+ */
+export type MfaMethod = 'totp' | 'sms' | 'unknown';
+
+/**
+ * Check Amazon puts in front of a sign-in that only a person can pass
+ */
+export type ChallengeType = 'captcha' | 'puzzle' | 'device-approval';
+
+/**
+ * Source of one-time passwords for MFA
+ */
+export interface OtpProvider {
+  /**
+   * @param attemptsLeft Number of attempts remaining, including this one
+   * @param method Whether Amazon sent the code by SMS or expects one from an authenticator app
+   * @returns OTP code or null to give up
+   */
+  getOtp(attemptsLeft: number, method: MfaMethod): Promise<string | null>;
+}
+
+/**
+ * Options for the AmazonOrderScraper class
+ */
+export interface AmazonOrderScraperOptions {
+  credentials?: Partial<Credentials>; // Completed through the credential provider when missing
+  otpCode?: string; // Used for the first OTP prompt only
+  totpSecret?: string; // Base32 authenticator secret; codes are then generated instead of asked for
+  diagnosticsDir?: string; // Collect screenshots, HTML dumps and a timeline per run under this directory
+  record?: boolean; // Also record a HAR and a Playwright trace into the run's diagnostics directory
+  replayHarPath?: string; // Replay a recording instead of visiting Amazon; the session is neither restored nor saved
+  headless?: boolean;
+  sessionPath?: string; // Saved session to restore and update, none by default
+  marketplace?: MarketplaceId; // Selected process-wide, see selectMarketplace
+  credentialProvider?: CredentialProvider; // Defaults to terminal prompts
+  otpProvider?: OtpProvider; // Defaults to terminal prompts
+}
+
+/**
+ * Progress reported through the scraper's "progress" event
+ */
+export type ScraperProgressEvent =
+  | { type: 'login:start' }
+  | { type: 'login:session-restored' }
+  | { type: 'login:otp-required'; attemptsLeft: number; method: MfaMethod }
+  | { type: 'login:challenge'; challenge: ChallengeType } // Waiting for the user to solve it in the browser
+  | { type: 'login:success' }
+  | { type: 'login:failed'; reason: string; error: string } // error is the name of the thrown error class
+  | { type: 'year:start'; year: number }
+  | { type: 'year:done'; stats: YearScrapeStats }
+  | { type: 'orders:done'; count: number }
+  | { type: 'details:done'; stats: OrderDetailsStats }
+  | { type: 'invoices:done'; stats: InvoiceDownloadStats }
+  | { type: 'cancelled:done'; count: number }
+  | { type: 'digital:done'; count: number };
+
+/**
+ * Options for scraping the pages of a single year
+ */
+export interface YearPageOptions {
+  limit: number | null; // Maximum orders to collect from this year
+  since?: string;
+  until?: string;
+  knownOrderKeys?: Set<string>; // Orders scraped by previous runs, for incremental sync
+  purchaseTypes?: PurchaseType[]; // Only collect orders of these types
+  view?: OrderHistoryView; // Listing to walk, the default one if not set
+}
+
+/**
+ * Pages and orders visited while scraping a year
+ */
+export interface YearScrapeStats {
+  year: number;
+  pages: number;
+  ordersVisited: number;
+  ordersCollected: number;
+}
+
+/**
+ * Orders scraped from a single year
+ */
+export interface YearScrapeResult {
+  orders: Order[];
+  stats: YearScrapeStats;
+  reachedKnownOrders: boolean;
+}
+
+/**
+ * Orders scraped across all requested years
+ */
+export interface ScrapeResult {
+  orders: Order[];
+  years: YearScrapeStats[];
+}
+
+/**
+ * Orders seen by previous runs, saved between incremental syncs
+ */
+export interface SyncState {
+  knownOrderKeys: string[];
+  lastSyncedAt: string | null;
+}
+
+/**
+ * Year range recorded for a scrape run
+ */
+export interface ScrapeRunInfo {
+  fromYear: number;
+  toYear: number;
+}
+
+/**
+ * Outcome recorded for a scrape run
+ */
+export interface ScrapeRunSummary {
+  status: 'completed' | 'failed';
+  ordersFound: number;
+  ordersNew: number;
+}
+
+/**
+ * Orders written to storage
+ */
+export interface StoreResult {
+  inserted: number;
+  updated: number;
+}
+
+/**
+ * Supported Amazon storefronts
+ */
+export type MarketplaceId = 'in' | 'com' | 'co.uk' | 'de';
+
+/**
+ * Storefront-specific domain, sign-in and locale settings
+ */
+export interface Marketplace {
+  id: MarketplaceId;
+  domain: string; // e.g. "amazon.in"
+  assocHandle: string; // openid.assoc_handle of the sign-in page
+  currency: string; // Assumed for prices without a symbol or code
+  locale: string;
+  phonePattern: RegExp; // Phone numbers accepted as usernames
+  months: Record<string, number>; // Localized month names, in addition to English ones
+  loginTexts: {
+    invalidMobile: string;
+    incorrectPassword: string;
+    usernameErrorKeywords: string[]; // Alert words that mean the username was rejected
+    otpKeywords: string[]; // Alert words that mean an OTP is expected rather than a wrong password
+    accountLockedKeywords: string[]; // Alert words that mean the account is locked or on hold
+  };
+  summaryLabels: OrderSummaryLabels;
+  statusTexts: ItemStatusTexts;
+}
+
+/**
+ * Words in item status headlines for each status. Checked in the order of
+ * the keys, so "Return started" is not taken for "Returned" and a refunded
+ * return counts as refunded.
+ */
+export interface ItemStatusTexts {
+  refunded: string[];
+  returned: string[];
+  'return-started': string[];
+  cancelled: string[];
+  delivered: string[];
+  'in-transit': string[];
+}
+
+/**
+ * Words in the labels of an order details page's summary lines that tell
+ * what each line is, e.g. "Item(s) Subtotal:" or "Grand Total:"
+ */
+export interface OrderSummaryLabels {
+  grandTotal: string[];
+  refund: string[];
+  subtotal: string[];
+  promotion: string[]; // Lines with a negative amount count as promotions too
+  shipping: string[];
+  tax: string[];
+}
+
+/**
+ * Contents of a config override file: partial copies of SELECTORS, TIMEOUTS
+ * and URLS from config.ts, deep-merged into them at startup
+ */
+export interface ConfigOverrides {
+  SELECTORS?: Record<string, unknown>;
+  TIMEOUTS?: Record<string, number>;
+  URLS?: Record<string, string>;
+}
+
+/**
+ * Pages checked by the doctor command, each against its sections of SELECTORS
+ */
+export type DoctorPageName = 'login' | 'mfa' | 'orders' | 'details' | 'invoice' | 'challenge';
+
+/**
+ * How one selector fared on a page
+ */
+export interface SelectorCheck {
+  path: string; // e.g. "ORDERS.ORDER_CARD" or "MFA.OTP_INPUT_SELECTORS[2]"
+  selector: string;
+  count: number; // Number of matching nodes
+  visible: boolean; // Whether the first match is visible
+  error?: string; // Set when the selector itself is invalid
+}
+
+/**
+ * Which entry of a fallback selector list the scraper would use, i.e. the first visible one
+ */
+export interface FallbackCheck {
+  path: string;
+  winner: string | null;
+  winnerIndex: number | null;
+}
+
+/**
+ * Presence of a text indicator such as OTP_TEXT_INDICATORS in the page text
+ */
+export interface TextIndicatorCheck {
+  path: string;
+  text: string;
+  found: boolean;
+}
+
+export interface PageHealthReport {
+  page: DoctorPageName;
+  source: string | null; // URL or snapshot file the page was loaded from
+  skipped?: string; // Why the page could not be checked
+  selectors: SelectorCheck[];
+  fallbacks: FallbackCheck[];
+  textIndicators: TextIndicatorCheck[];
+}
+
+export interface SelectorHealthReport {
+  generatedAt: string;
+  marketplace: MarketplaceId;
+  mode: 'live' | 'snapshots';
+  pages: PageHealthReport[];
+}
+
+/**
+ * Spend and order count of a year ("2024") or a month ("2024-03")
+ */
+export interface PeriodSpending {
+  period: string;
+  orders: number;
+  total: Money;
+}
+
+/**
+ * Spend of a year compared with the year before
+ */
+export interface YearOverYearChange {
+  year: string;
+  previousYear: string;
+  change: Money;
+  changePercent: number | null; // Null when nothing was spent the year before
+}
+
+/**
+ * Spend on a product across orders
+ */
+export interface ProductSpending {
+  productName: string;
+  orders: number;
+  quantity: number;
+  total: Money;
+}
+
+/**
+ * Spending of the orders paid in one currency, which cannot be added to other currencies
+ */
+export interface CurrencySpending {
+  currency: string;
+  orders: number;
+  total: Money;
+  averageOrderValue: Money | null;
+  byYear: PeriodSpending[]; // Oldest first, years without orders included
+  byMonth: PeriodSpending[]; // Oldest first, months without orders included
+  yearOverYear: YearOverYearChange[];
+  topProducts: ProductSpending[];
+  undatedOrders: number; // Counted in the total but in no year or month
+}
+
+/**
+ * Spending analytics built from scraped orders, see buildSpendingReport
+ */
+export interface SpendingReport {
+  generatedAt: string;
+  orders: number; // Orders read, including those left out below
+  cancelledOrders: number; // Left out, nothing was bought
+  unpricedOrders: number; // Left out, the order card showed no total or a returned item's refund is unknown
+  currencies: CurrencySpending[]; // Most orders first
+}
+
+/**
+ * Options of buildSpendingReport
+ */
+export interface SpendingReportOptions {
+  topProducts?: number; // Products to list, by default REPORT_DEFAULTS.TOP_PRODUCTS
+  now?: Date; // Time the report is generated at
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * A redacted log line, as written in JSON mode and to the diagnostics timeline
+ */
+export interface LogEntry {
+  time: string;
+  level: Exclude<LogLevel, 'silent'>;
+  step: string | null; // Step of the run the entry belongs to
+  message: string;
+}
+
+/**
+ * Screenshot and HTML dump of the page at one point of a run
+ */
+export interface DiagnosticsCapture {
+  time: string;
+  step: string | null;
+  label: string;
+  url: string;
+  screenshot: string | null; // Paths relative to the run directory
+  html: string | null;
+}
+
+/**
+ * Entry of a run's timeline.ndjson: either a log line or a capture
+ */
+export type TimelineEntry =
+  | ({ type: 'log' } & LogEntry)
+  | ({ type: 'capture' } & DiagnosticsCapture);
+
+/**
+ * Name and value pair of a HAR header, query parameter or form field
+ */
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+/**
+ * Cookie sent with a HAR request or set by its response
+ */
+export interface HarCookie extends HarNameValue {
+  path?: string;
+  domain?: string;
+  expires?: string;
+  httpOnly?: boolean;
+  secure?: boolean;
+}
+
+/**
+ * The parts of a HAR entry the recorder scrubs and the replayer serves.
+ * Other fields are kept as recorded.
+ */
+export interface HarEntry {
+  request: {
+    method: string;
+    url: string;
+    headers: HarNameValue[];
+    cookies?: HarCookie[];
+    queryString?: HarNameValue[];
+    postData?: { mimeType: string; text?: string; params?: HarNameValue[] };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: HarNameValue[];
+    cookies?: HarCookie[];
+    content: { mimeType?: string; text?: string; encoding?: string };
+    redirectURL?: string;
+  };
+}
+
+/**
+ * HTTP archive as written by Playwright
+ */
+export interface HarFile {
+  log: {
+    entries: HarEntry[];
+    _sessionRestored?: boolean; // Whether the recorded run started from a saved session
+  };
+}
+
+/**
+ * Address the serve command listens on
+ */
+export interface ScraperServerOptions {
+  host: string;
+  port: number;
+  token?: string; // Required as "Authorization: Bearer <token>" when set; serve generates one otherwise
+}
+
+/**
+ * Lifecycle of a scrape job run by the server. Jobs in an awaiting_* state
+ * are paused in the login until the input is submitted.
+ */
+export type ScrapeJobState =
+  | 'queued'
+  | 'logging_in'
+  | 'awaiting_credentials'
+  | 'awaiting_otp'
+  | 'scraping'
+  | 'completed'
+  | 'failed';
+
+/**
+ * Scrape options a job may set; invoices and incremental sync are CLI-only
+ */
+export type ScrapeJobOptions = Partial<Omit<ScrapeOptions, 'knownOrderKeys' | 'invoiceDir'>>;
+
+/**
+ * Body of a request to start a scrape job
+ */
+export interface ScrapeJobRequest {
+  scrape: ScrapeJobOptions;
+  credentials?: Partial<Credentials>; // Win over the server's credentials
+  otpCode?: string; // Used for the first OTP prompt only
+}
+
+/**
+ * Input a paused job waits for
+ */
+export type ScrapeJobInputRequest =
+  | { type: 'credentials'; missing: Array<keyof Credentials> }
+  | { type: 'otp'; attemptsLeft: number; method: MfaMethod };
+
+/**
+ * Credentials or OTP submitted to a paused job
+ */
+export interface ScrapeJobInput {
+  username?: string;
+  password?: string;
+  otp?: string;
+}
+
+/**
+ * Job status as reported by the server
+ */
+export interface ScrapeJobStatus {
+  id: string;
+  state: ScrapeJobState;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  input: ScrapeJobInputRequest | null; // Set in the awaiting_* states
+  progress: ScraperProgressEvent[]; // Every event so far, oldest first
+  orderCount: number | null; // Set once the job completes
+  years: YearScrapeStats[];
+  error: { name: string; message: string; exitCode: number } | null; // Set when the job fails
+}
+
+/**
+ * The parts of AmazonOrderScraper a job drives, so tests can stand in for the browser
+ */
+export interface JobScraper {
+  on(event: 'progress', listener: (event: ScraperProgressEvent) => void): unknown;
+  login(): Promise<void>;
+  listOrders(options: Partial<ScrapeOptions>): Promise<ScrapeResult>;
+  close(): Promise<void>;
+}
+
+/**
+ * Options of a ScrapeJobManager
+ */
+export interface ScrapeJobManagerOptions {
+  scraper: AmazonOrderScraperOptions; // Shared by every job; the prompt providers are replaced
+  createScraper?: (options: AmazonOrderScraperOptions) => JobScraper; // Defaults to new AmazonOrderScraper
+  inputTimeout?: number; // How long a job waits for input before it fails, SERVER_DEFAULTS.INPUT_TIMEOUT by default
+}
@@ -2,20 +2,22 @@
  * Validators for user input
  */
 import { ValidationResult } from './types';
+import { getMarketplace } from './marketplace';
 
 /**
  * Validates if the input is a valid email or phone number
  * @param input User input for validation
+ * @param marketplace Marketplace whose phone number format to accept
  * @returns Object with validation result and type
  */
-export function validateCredentials(input: string): ValidationResult {
-  // Check if input is an email (contains @ and .com)
-  if (input.includes('@') && input.includes('.com')) {
+export function validateCredentials(input: string, marketplace = getMarketplace()): ValidationResult {
+  // Check if input is an email (name@domain.tld)
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input)) {
     return { isValid: true, type: 'email' };
   }
   
-  // Check if input is a 10-digit phone number
-  if (/^\d{10}$/.test(input)) {
+  // Check if input is a phone number, e.g. 10 digits on amazon.in
+  if (marketplace.phonePattern.test(input)) {
     return { isValid: true, type: 'phone' };
   }
   
@@ -0,0 +1,105 @@
+import { test, expect } from '@playwright/test';
+import {
+  isMFARequired,
+  getMFAMethod,
+  submitMFACode,
+  navigateToAmazonLogin,
+  NavigationTimeoutError,
+  OtpThrottledError,
+  URLS
+} from '../src/utils/scraper';
+import { loadFixture, serveFixtures } from './helpers';
+
+const MFA_URL = 'https://www.amazon.in/ap/mfa?arb=example';
+
+test.describe('navigateToAmazonLogin', () => {
+  test('reports a sign-in page that never loads as a navigation timeout', async ({ page }) => {
+    // Leave the request unanswered so the navigation times out
+    await page.route(URLS.LOGIN, () => undefined);
+    page.setDefaultNavigationTimeout(1000);
+
+    await expect(navigateToAmazonLogin(page)).rejects.toThrow(NavigationTimeoutError);
+  });
+});
+
+test.describe('isMFARequired', () => {
+  test('detects the /ap/mfa verification page by URL', async ({ page }) => {
+    await serveFixtures(page, { [MFA_URL]: 'auth/otp-page.html' });
+    await page.goto(MFA_URL);
+
+    expect(await isMFARequired(page)).toBe(true);
+  });
+
+  test('detects a verification page by its title', async ({ page }) => {
+    await loadFixture(page, 'auth/otp-page.html');
+
+    expect(await isMFARequired(page)).toBe(true);
+  });
+
+  test('detects a verification code heading', async ({ page }) => {
+    await loadFixture(page, 'auth/verification-heading.html');
+
+    expect(await isMFARequired(page)).toBe(true);
+  });
+
+  test('detects the OTP throttling message', async ({ page }) => {
+    await loadFixture(page, 'auth/otp-throttled.html');
+
+    expect(await isMFARequired(page)).toBe(true);
+  });
+
+  test('detects OTP text on the older sign-in URL pattern', async ({ page }) => {
+    await serveFixtures(page, { [URLS.LOGIN]: 'auth/otp-text-only.html' });
+    await page.goto(URLS.LOGIN);
+
+    expect(await isMFARequired(page)).toBe(true);
+  });
+
+  test('does not flag the password page', async ({ page }) => {
+    await serveFixtures(page, { [URLS.LOGIN]: 'auth/password-page.html' });
+    await page.goto(URLS.LOGIN);
+
+    expect(await isMFARequired(page)).toBe(false);
+  });
+
+  test('does not flag the home page after login', async ({ page }) => {
+    await serveFixtures(page, { [`${URLS.BASE_URL}/`]: 'auth/home-page.html' });
+    await page.goto(`${URLS.BASE_URL}/`);
+
+    expect(await isMFARequired(page)).toBe(false);
+  });
+});
+
+test.describe('getMFAMethod', () => {
+  test('recognises an authenticator app prompt', async ({ page }) => {
+    await loadFixture(page, 'auth/otp-page.html');
+
+    expect(await getMFAMethod(page)).toBe('totp');
+  });
+
+  test('recognises a code sent by SMS', async ({ page }) => {
+    await loadFixture(page, 'auth/sms-otp-page.html');
+
+    expect(await getMFAMethod(page)).toBe('sms');
+  });
+
+  test('recognises a code sent to the mobile without a resend link', async ({ page }) => {
+    await loadFixture(page, 'auth/verification-heading.html');
+
+    expect(await getMFAMethod(page)).toBe('sms');
+  });
+
+  test('returns unknown when the page does not say', async ({ page }) => {
+    await loadFixture(page, 'auth/otp-throttled.html');
+
+    expect(await getMFAMethod(page)).toBe('unknown');
+  });
+});
+
+test.describe('submitMFACode', () => {
+  test('reports throttling instead of a rejected code', async ({ page }) => {
+    await loadFixture(page, 'auth/otp-throttled.html');
+
+    await expect(submitMFACode(page, '123456')).rejects.toThrow(OtpThrottledError);
+  });
+});
@@ -0,0 +1,58 @@
+import { test, expect } from '@playwright/test';
+import { assertNoChallenge, CaptchaChallengeError, detectChallenge, waitForChallengeSolved } from '../src/utils/scraper';
+import { loadFixture } from './helpers';
+
+test.describe('detectChallenge', () => {
+  test('recognises the "Enter the characters you see" CAPTCHA', async ({ page }) => {
+    await loadFixture(page, 'auth/captcha-page.html');
+
+    expect(await detectChallenge(page)).toBe('captcha');
+  });
+
+  test('recognises the puzzle challenge', async ({ page }) => {
+    await loadFixture(page, 'auth/puzzle-page.html');
+
+    expect(await detectChallenge(page)).toBe('puzzle');
+  });
+
+  test('recognises the device approval prompt', async ({ page }) => {
+    await loadFixture(page, 'auth/approval-page.html');
+
+    expect(await detectChallenge(page)).toBe('device-approval');
+  });
+
+  test('does not flag the password or OTP pages', async ({ page }) => {
+    await loadFixture(page, 'auth/password-page.html');
+    expect(await detectChallenge(page)).toBeNull();
+
+    await loadFixture(page, 'auth/sms-otp-page.html');
+    expect(await detectChallenge(page)).toBeNull();
+  });
+});
+
+test.describe('assertNoChallenge', () => {
+  test('fails fast with the challenge type', async ({ page }) => {
+    await loadFixture(page, 'auth/approval-page.html');
+
+    const error = await assertNoChallenge(page).catch(caught => caught);
+    expect(error).toBeInstanceOf(CaptchaChallengeError);
+    expect(error.challenge).toBe('device-approval');
+  });
+});
+
+test.describe('waitForChallengeSolved', () => {
+  test('resumes once the challenge is gone', async ({ page }) => {
+    await loadFixture(page, 'auth/captcha-page.html');
+    // The user solves the CAPTCHA a moment later
+    setTimeout(() => loadFixture(page, 'auth/password-page.html'), 500);
+
+    await waitForChallengeSolved(page, 'captcha', 10000);
+    expect(await detectChallenge(page)).toBeNull();
+  });
+
+  test('gives up after the timeout', async ({ page }) => {
+    await loadFixture(page, 'auth/puzzle-page.html');
+
+    await expect(waitForChallengeSolved(page, 'puzzle', 100)).rejects.toThrow(CaptchaChallengeError);
+  });
+});
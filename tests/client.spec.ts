@@ -0,0 +1,174 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  AmazonOrderScraper,
+  Credentials,
+  HarEntry,
+  LoginAbortedError,
+  ScraperError,
+  ScraperProgressEvent,
+  URLS
+} from '../src';
+import { entry, readFixture } from './helpers';
+
+const SIGN_IN_URL = 'https://www.amazon.in/ap/signin';
+const VERIFY_URL = 'https://www.amazon.in/ap/cvf/verify';
+
+const SIGN_IN_PAGE = `<html><head><title>Amazon Sign In</title></head><body>
+  <form name="signIn" method="post" action="/ap/signin">
+    <input type="email" id="ap_email" name="email">
+    <input type="submit" id="continue" value="Continue">
+  </form>
+</body></html>`;
+const UNKNOWN_ACCOUNT_PAGE = SIGN_IN_PAGE.replace('<form', '<div class="a-alert-content">We cannot find an account with that email address</div><form');
+const PASSWORD_PAGE = `<html><head><title>Amazon Sign In</title></head><body>
+  <form name="signIn" method="post" action="/ap/signin">
+    <input type="password" id="ap_password" name="password">
+    <input type="submit" id="signInSubmit" value="Sign in">
+  </form>
+</body></html>`;
+const WRONG_PASSWORD_PAGE = PASSWORD_PAGE.replace('<form', '<div class="a-alert-content">Your password is incorrect</div><form');
+const OTP_PAGE = `<html><head><title>Two-Step Verification</title></head><body>
+  <p>We have sent a text message with a code to your mobile number ending in 42.</p>
+  <form id="auth-mfa-form" method="post" action="/ap/cvf/verify">
+    <input type="tel" id="auth-mfa-otpcode" name="otpCode">
+    <input type="submit" id="auth-signin-button" value="Sign in">
+  </form>
+</body></html>`;
+const WRONG_OTP_PAGE = OTP_PAGE.replace('<form', '<div class="a-alert-content">The code you entered is not valid.</div><form');
+const HOME_PAGE = '<html><head><title>Amazon.in</title></head><body><div id="nav-logo">Amazon</div></body></html>';
+
+/**
+ * Write a recording for the scraper to replay; entries for the same path are served in order
+ * @param dir Directory to write it in
+ * @param entries Requests and the pages that answer them
+ * @returns Path of the HAR file
+ */
+function writeHar(dir: string, entries: HarEntry[]): string {
+  const harPath = path.join(dir, 'recording.har');
+  fs.writeFileSync(harPath, JSON.stringify({ log: { entries, _sessionRestored: false } }));
+  return harPath;
+}
+
+test.describe('AmazonOrderScraper', () => {
+  let dir: string;
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'client-'));
+  });
+  test.afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  test('requires a login before listing orders', async () => {
+    const scraper = new AmazonOrderScraper({
+      credentialProvider: { getCredentials: async () => null, getPassword: async () => null },
+      otpProvider: { getOtp: async () => null }
+    });
+
+    await expect(scraper.listOrders()).rejects.toThrow(ScraperError);
+    await scraper.close();
+  });
+
+  test('asks again for rejected credentials and OTPs, then lists orders', async () => {
+    // Every step waits for the page to settle, and each OTP submission for a navigation
+    test.setTimeout(180000);
+    const orderPage = readFixture('orders/single-item.html');
+    const harPath = writeHar(dir, [
+      entry('GET', URLS.LOGIN, SIGN_IN_PAGE),
+      entry('POST', SIGN_IN_URL, UNKNOWN_ACCOUNT_PAGE),
+      entry('POST', SIGN_IN_URL, PASSWORD_PAGE),
+      entry('POST', SIGN_IN_URL, WRONG_PASSWORD_PAGE),
+      entry('POST', SIGN_IN_URL, OTP_PAGE),
+      entry('POST', VERIFY_URL, WRONG_OTP_PAGE),
+      entry('POST', VERIFY_URL, HOME_PAGE),
+      entry('GET', URLS.ORDER_HISTORY, orderPage),
+      entry('GET', URLS.ORDER_HISTORY_YEAR(2024), orderPage)
+    ]);
+
+    const credentialRequests: Array<Partial<Credentials>> = [];
+    let passwordRequests = 0;
+    const otpRequests: Array<[number, string]> = [];
+    const scraper = new AmazonOrderScraper({
+      credentials: { username: 'wrong@example.com', password: 'wrong-secret' },
+      otpCode: '111111',
+      headless: true,
+      replayHarPath: harPath,
+      credentialProvider: {
+        getCredentials: async known => {
+          credentialRequests.push(known);
+          return { username: known.username || 'jane@example.com', password: known.password || 'secret' };
+        },
+        getPassword: async () => {
+          passwordRequests++;
+          return 'secret';
+        }
+      },
+      otpProvider: {
+        getOtp: async (attemptsLeft, method) => {
+          otpRequests.push([attemptsLeft, method]);
+          return '222222';
+        }
+      }
+    });
+    const events: ScraperProgressEvent[] = [];
+    scraper.on('progress', (event: ScraperProgressEvent) => events.push(event));
+
+    try {
+      await scraper.login();
+      const { orders } = await scraper.listOrders({ fromYear: 2024, toYear: 2024, maxOrders: 10 });
+
+      expect(orders.map(order => order.orderId)).toEqual(['408-1234567-1234567']);
+    } finally {
+      await scraper.close();
+    }
+
+    // The username is asked for again with the password kept, then only the password
+    expect(credentialRequests).toEqual([
+      { username: 'wrong@example.com', password: 'wrong-secret' },
+      { password: 'wrong-secret' }
+    ]);
+    expect(passwordRequests).toBe(1);
+    // The supplied OTP is tried first; the provider is only asked once it is rejected
+    expect(otpRequests).toEqual([[2, 'sms']]);
+    expect(events.map(event => event.type)).toEqual([
+      'login:start',
+      'login:otp-required',
+      'login:otp-required',
+      'login:success',
+      'year:start',
+      'year:done',
+      'orders:done'
+    ]);
+    expect(events[1]).toEqual({ type: 'login:otp-required', attemptsLeft: 3, method: 'sms' });
+    expect(events[2]).toEqual({ type: 'login:otp-required', attemptsLeft: 2, method: 'sms' });
+  });
+
+  test('gives up when the provider has no new username', async () => {
+    test.setTimeout(60000);
+    const harPath = writeHar(dir, [
+      entry('GET', URLS.LOGIN, SIGN_IN_PAGE),
+      entry('POST', SIGN_IN_URL, UNKNOWN_ACCOUNT_PAGE)
+    ]);
+    let credentialRequests = 0;
+    const scraper = new AmazonOrderScraper({
+      headless: true,
+      replayHarPath: harPath,
+      credentialProvider: {
+        getCredentials: async () => ++credentialRequests === 1 ? { username: 'wrong@example.com', password: 'secret' } : null,
+        getPassword: async () => null
+      },
+      otpProvider: { getOtp: async () => null }
+    });
+    const events: ScraperProgressEvent[] = [];
+    scraper.on('progress', (event: ScraperProgressEvent) => events.push(event));
+
+    await expect(scraper.login()).rejects.toThrow(LoginAbortedError);
+
+    expect(credentialRequests).toBe(2);
+    expect(events).toEqual([
+      { type: 'login:start' },
+      { type: 'login:failed', reason: 'No username provided', error: 'LoginAbortedError' }
+    ]);
+    await expect(scraper.listOrders()).rejects.toThrow('Call login() before listOrders()');
+  });
+});
@@ -0,0 +1,53 @@
+import { test, expect } from '@playwright/test';
+import { parseOrderDate, parseStatusDate, filterOrdersByDate, MARKETPLACES, Order } from '../src/utils/scraper';
+
+const order = (orderDateIso: string | null): Order => ({
+  orderId: null,
+  orderDate: orderDateIso || 'N/A',
+  orderDateIso,
+  price: 'N/A',
+  total: null,
+  items: []
+});
+
+test.describe('parseOrderDate', () => {
+  test('parses day-first and month-first dates', () => {
+    expect(parseOrderDate('12 March 2024')).toBe('2024-03-12');
+    expect(parseOrderDate('1 Sept 2023')).toBe('2023-09-01');
+    expect(parseOrderDate('March 12, 2024')).toBe('2024-03-12');
+  });
+
+  test('parses localized month names of the marketplace', () => {
+    expect(parseOrderDate('12. März 2024', MARKETPLACES.de)).toBe('2024-03-12');
+    expect(parseOrderDate('3. Okt. 2023', MARKETPLACES.de)).toBe('2023-10-03');
+    expect(parseOrderDate('12. März 2024', MARKETPLACES.in)).toBeNull();
+  });
+
+  test('returns null for missing or impossible dates', () => {
+    expect(parseOrderDate('N/A')).toBeNull();
+    expect(parseOrderDate('31 February 2024')).toBeNull();
+  });
+});
+
+test.describe('parseStatusDate', () => {
+  test('takes the year of the order, or the next one for dates before it', () => {
+    expect(parseStatusDate('Delivered 15 March', '2024-03-12')).toBe('2024-03-15');
+    expect(parseStatusDate('Arriving Jan 3', '2023-12-28')).toBe('2024-01-03');
+    expect(parseStatusDate('Refunded on 2 April 2025', '2024-03-12')).toBe('2025-04-02');
+    expect(parseStatusDate('Zugestellt am 3. Februar', '2024-01-30', MARKETPLACES.de)).toBe('2024-02-03');
+  });
+
+  test('returns null for headlines without a date or when the year cannot be told', () => {
+    expect(parseStatusDate('Arriving tomorrow', '2024-03-12')).toBeNull();
+    expect(parseStatusDate('Delivered', '2024-03-12')).toBeNull();
+    expect(parseStatusDate('Delivered 15 March', null)).toBeNull();
+  });
+});
+
+test.describe('filterOrdersByDate', () => {
+  test('keeps orders inside the range and those without a date', () => {
+    const orders = [order('2024-05-01'), order('2023-12-31'), order('2024-01-01'), order(null)];
+
+    expect(filterOrdersByDate(orders, '2024-01-01', '2024-04-30').map(o => o.orderDateIso)).toEqual(['2024-01-01', null]);
+  });
+});
@@ -0,0 +1,200 @@
+import { test, expect } from '@playwright/test';
+import {
+  applyOrderDetails,
+  classifySummaryLine,
+  extractOrderDetails,
+  MARKETPLACES,
+  Order,
+  OrderDetailsPageContent,
+  parseOrderDetails,
+  parsePaymentMethod,
+  scrapeOrderDetails
+} from '../src/utils/scraper';
+import { loadFixture, readFixture } from './helpers';
+
+const DETAILS_URL = 'https://www.amazon.in/gp/your-account/order-details?orderID=171-7654321-7654321';
+
+/**
+ * Build the order card of the multi-delivery-box fixture
+ * @returns Order as extractOrders reads it
+ */
+function laptopOrder(): Order {
+  return {
+    orderId: '171-7654321-7654321',
+    orderDate: '1 February 2024',
+    orderDateIso: '2024-02-01',
+    price: '₹1,23,456.00',
+    total: { amount: 12345600, currency: 'INR', raw: '₹1,23,456.00' },
+    detailsLink: DETAILS_URL,
+    items: [
+      { productName: 'Laptop 14-inch', link: 'https://www.amazon.in/dp/B0LAPTOP' },
+      { productName: 'Laptop Sleeve', link: 'https://www.amazon.in/dp/B0SLEEVE' }
+    ]
+  };
+}
+
+test.describe('classifySummaryLine', () => {
+  test('tells charges, promotions and totals apart', () => {
+    expect(classifySummaryLine('Item(s) Subtotal:', null)).toBe('subtotal');
+    expect(classifySummaryLine('Shipping & Handling:', null)).toBe('shipping');
+    expect(classifySummaryLine('Free Shipping:', null)).toBe('promotion');
+    expect(classifySummaryLine('Your Coupon Savings:', null)).toBe('promotion');
+    expect(classifySummaryLine('Estimated tax to be collected:', null)).toBe('tax');
+    expect(classifySummaryLine('Grand Total:', null)).toBe('grandTotal');
+    expect(classifySummaryLine('Total before tax:', null)).toBeNull();
+    expect(classifySummaryLine('Total:', null)).toBeNull();
+    expect(classifySummaryLine('Refund Total:', { amount: -1299, currency: 'USD', raw: '-$12.99' })).toBe('refund');
+  });
+
+  test('counts unlabelled negative amounts as promotions and reads German labels', () => {
+    expect(classifySummaryLine('Gift card:', { amount: -500, currency: 'USD', raw: '-$5.00' })).toBe('promotion');
+
+    const labels = MARKETPLACES.de.summaryLabels;
+    expect(classifySummaryLine('Zwischensumme:', null, labels)).toBe('subtotal');
+    expect(classifySummaryLine('Verpackung & Versand:', null, labels)).toBe('shipping');
+    expect(classifySummaryLine('Enthaltene MwSt.:', null, labels)).toBe('tax');
+    expect(classifySummaryLine('Gesamtsumme:', null, labels)).toBe('grandTotal');
+  });
+});
+
+test.describe('parsePaymentMethod', () => {
+  test('keeps the card type and last four digits only', () => {
+    expect(parsePaymentMethod('Visa ending in 4242')).toEqual({ type: 'Visa', lastFour: '4242' });
+    expect(parsePaymentMethod('Mastercard **** 1234')).toEqual({ type: 'Mastercard', lastFour: '1234' });
+    expect(parsePaymentMethod('Amazon Pay balance')).toEqual({ type: 'Amazon Pay balance', lastFour: null });
+    expect(parsePaymentMethod('Card 4111 1111 1111 1111')).toEqual({ type: 'Card', lastFour: null });
+    expect(parsePaymentMethod('  ')).toBeNull();
+  });
+});
+
+test.describe('parseOrderDetails', () => {
+  test('sums shipping, promotions and refunds and skips repeated totals', () => {
+    const content: OrderDetailsPageContent = {
+      summary: [
+        { label: 'Item(s) Subtotal:', value: '$25.98' },
+        { label: 'Shipping & Handling:', value: '$5.99' },
+        { label: 'Free Shipping:', value: '-$5.99' },
+        { label: 'Your Coupon Savings:', value: '$2.00' },
+        { label: 'Total before tax:', value: '$23.98' },
+        { label: 'Estimated tax to be collected:', value: '$1.92' },
+        { label: 'Grand Total:', value: '$25.90' },
+        { label: 'Refund Total:', value: '$12.99' }
+      ],
+      items: [],
+      paymentMethod: '',
+      shippingAddress: []
+    };
+
+    expect(parseOrderDetails(content)).toEqual({
+      subtotal: { amount: 2598, currency: 'USD', raw: '$25.98' },
+      shipping: { amount: 599, currency: 'USD', raw: '$5.99' },
+      tax: { amount: 192, currency: 'USD', raw: '$1.92' },
+      discounts: { amount: -799, currency: 'USD', raw: 'USD -7.99' },
+      promotions: [
+        { label: 'Free Shipping', amount: { amount: -599, currency: 'USD', raw: '-$5.99' } },
+        { label: 'Your Coupon Savings', amount: { amount: -200, currency: 'USD', raw: '$2.00' } }
+      ],
+      grandTotal: { amount: 2590, currency: 'USD', raw: '$25.90' },
+      refundTotal: { amount: 1299, currency: 'USD', raw: '$12.99' },
+      paymentMethod: null,
+      shippingAddress: null
+    });
+  });
+});
+
+test.describe('applyOrderDetails', () => {
+  test('prices the order\'s items and appends items the card did not list', () => {
+    const order = laptopOrder();
+    applyOrderDetails(order, {
+      summary: [{ label: 'Grand Total:', value: '₹1,23,456.00' }],
+      items: [
+        { productName: 'Laptop Sleeve', link: 'https://www.amazon.in/dp/B0SLEEVE', price: '₹1,999.00', quantity: 2 },
+        { productName: 'Laptop 14-inch', price: '₹1,20,000.00' },
+        { productName: '65W Charger', link: 'https://www.amazon.in/dp/B0CHARGER', price: '' }
+      ],
+      paymentMethod: 'Visa ending in 4242',
+      shippingAddress: ['Jane Customer']
+    });
+
+    expect(order.items).toEqual([
+      {
+        productName: 'Laptop 14-inch',
+        link: 'https://www.amazon.in/dp/B0LAPTOP',
+        price: { amount: 12000000, currency: 'INR', raw: '₹1,20,000.00' }
+      },
+      {
+        productName: 'Laptop Sleeve',
+        link: 'https://www.amazon.in/dp/B0SLEEVE',
+        quantity: 2,
+        price: { amount: 199900, currency: 'INR', raw: '₹1,999.00' }
+      },
+      { productName: '65W Charger', link: 'https://www.amazon.in/dp/B0CHARGER' }
+    ]);
+    expect(order.details?.grandTotal?.amount).toBe(12345600);
+    expect(order.details?.paymentMethod).toEqual({ type: 'Visa', lastFour: '4242' });
+  });
+});
+
+test.describe('extractOrderDetails', () => {
+  test('reads the summary, items, payment method and address', async ({ page }) => {
+    await loadFixture(page, 'orders/order-details.html');
+
+    expect(await extractOrderDetails(page)).toEqual({
+      summary: [
+        { label: 'Item(s) Subtotal:', value: '₹1,23,998.00' },
+        { label: 'Shipping:', value: '₹40.00' },
+        { label: 'Total:', value: '₹1,24,038.00' },
+        { label: 'Free Delivery:', value: '-₹40.00' },
+        { label: 'Promotion Applied:', value: '-₹542.00' },
+        { label: 'Grand Total:', value: '₹1,23,456.00' }
+      ],
+      items: [
+        { productName: 'Laptop 14-inch', link: 'https://www.amazon.in/dp/B0LAPTOP', price: '₹1,20,000.00' },
+        { productName: 'Laptop Sleeve', link: 'https://www.amazon.in/dp/B0SLEEVE', price: '₹1,999.00', quantity: 2 },
+        { productName: '65W Charger', link: 'https://www.amazon.in/dp/B0CHARGER', price: '₹0.00' }
+      ],
+      paymentMethod: 'Visa ending in 4242',
+      shippingAddress: ['Jane Customer', '12 MG Road', 'Bengaluru, KARNATAKA 560001', 'India']
+    });
+  });
+});
+
+test.describe('scrapeOrderDetails', () => {
+  test('opens the details page of each order with a link and counts the rest as skipped', async ({ page }) => {
+    const context = page.context();
+    await context.route('**/*', async route => {
+      if (route.request().url() !== DETAILS_URL) {
+        await route.abort();
+        return;
+      }
+      await route.fulfill({ contentType: 'text/html; charset=utf-8', body: readFixture('orders/order-details.html') });
+    });
+    const order = laptopOrder();
+    const withoutLink = { ...laptopOrder(), orderId: null, detailsLink: undefined };
+
+    const stats = await scrapeOrderDetails(context, [order, withoutLink], { concurrency: 2, maxPages: null });
+
+    expect(stats).toEqual({ scraped: 1, failed: 0, skipped: 1 });
+    expect(order.items.map(item => item.price?.amount)).toEqual([12000000, 199900, 0]);
+    expect(order.details).toMatchObject({
+      subtotal: { amount: 12399800 },
+      shipping: { amount: 4000 },
+      tax: null,
+      discounts: { amount: -58200 },
+      grandTotal: { amount: 12345600 },
+      paymentMethod: { type: 'Visa', lastFour: '4242' }
+    });
+  });
+
+  test('leaves orders whose page fails to load as they are', async ({ page }) => {
+    const context = page.context();
+    await context.route('**/*', route => route.abort());
+    const order = laptopOrder();
+
+    const stats = await scrapeOrderDetails(context, [order], { concurrency: 1, maxPages: 10 });
+
+    expect(stats).toEqual({ scraped: 0, failed: 1, skipped: 0 });
+    expect(order.details).toBeUndefined();
+    expect(order.items).toEqual(laptopOrder().items);
+  });
+});
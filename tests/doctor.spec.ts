@@ -0,0 +1,91 @@
+import { test, expect } from '@playwright/test';
+import { checkPageSelectors, findSelectorDrift, SelectorHealthReport } from '../src/utils/scraper';
+import { loadFixture } from './helpers';
+
+test.describe('checkPageSelectors', () => {
+  test('reports match counts and the winning OTP fallbacks', async ({ page }) => {
+    await loadFixture(page, 'auth/otp-page.html');
+
+    const report = await checkPageSelectors(page, 'mfa', 'auth/otp-page.html');
+
+    expect(report.selectors.find(check => check.path === 'MFA.OTP_INPUT_SELECTORS[0]')).toMatchObject({
+      selector: '#auth-mfa-otpcode',
+      count: 1,
+      visible: true
+    });
+    expect(report.fallbacks).toContainEqual({ path: 'MFA.OTP_INPUT_SELECTORS', winner: '#auth-mfa-otpcode', winnerIndex: 0 });
+    expect(report.fallbacks).toContainEqual({ path: 'MFA.SUBMIT_BUTTON_SELECTORS', winner: '#auth-signin-button', winnerIndex: 0 });
+    expect(report.textIndicators).toContainEqual({ path: 'MFA.OTP_TEXT_INDICATORS', text: 'otp', found: true });
+  });
+
+  test('finds drift when the order markup no longer matches', async ({ page }) => {
+    await loadFixture(page, 'auth/home-page.html');
+
+    const report: SelectorHealthReport = {
+      generatedAt: new Date().toISOString(),
+      marketplace: 'in',
+      mode: 'snapshots',
+      pages: [await checkPageSelectors(page, 'orders', 'auth/home-page.html')]
+    };
+
+    expect(findSelectorDrift(report)).toContain('orders: required selector ORDERS.ORDER_CARD matched nothing');
+  });
+
+  test('finds no drift on a current order page', async ({ page }) => {
+    await loadFixture(page, 'orders/single-item.html');
+
+    const report: SelectorHealthReport = {
+      generatedAt: new Date().toISOString(),
+      marketplace: 'in',
+      mode: 'snapshots',
+      pages: [await checkPageSelectors(page, 'orders', 'orders/single-item.html')]
+    };
+
+    expect(findSelectorDrift(report)).toEqual([]);
+  });
+
+  test('checks purchase type links on the order page', async ({ page }) => {
+    await loadFixture(page, 'orders/digital-orders.html');
+
+    const report = await checkPageSelectors(page, 'orders', 'orders/digital-orders.html');
+
+    expect(report.selectors.find(check => check.path === 'PURCHASE_TYPE.VIDEO_LINKS[0]')).toMatchObject({
+      selector: 'a[href*="/gp/video/"]',
+      count: 1
+    });
+    expect(report.fallbacks.map(fallback => fallback.path)).not.toContain('PURCHASE_TYPE.VIDEO_LINKS');
+  });
+
+  test('finds no drift on the order details and invoice pages', async ({ page }) => {
+    await loadFixture(page, 'orders/order-details.html');
+    const details = await checkPageSelectors(page, 'details', 'orders/order-details.html');
+    await loadFixture(page, 'orders/invoice-popover.html');
+    const invoice = await checkPageSelectors(page, 'invoice', 'orders/invoice-popover.html');
+
+    expect(details.selectors.find(check => check.path === 'ORDER_DETAILS.ITEM')?.count).toBe(3);
+    expect(invoice.selectors.find(check => check.path === 'INVOICE.PDF_LINK')?.count).toBe(1);
+    expect(findSelectorDrift({
+      generatedAt: new Date().toISOString(),
+      marketplace: 'in',
+      mode: 'snapshots',
+      pages: [details, invoice]
+    })).toEqual([]);
+  });
+
+  test('needs only one kind of challenge to be recognised', async ({ page }) => {
+    await loadFixture(page, 'auth/captcha-page.html');
+    const captcha = await checkPageSelectors(page, 'challenge', 'auth/captcha-page.html');
+    await loadFixture(page, 'auth/home-page.html');
+    const home = await checkPageSelectors(page, 'challenge', 'auth/home-page.html');
+
+    expect(captcha.fallbacks).toContainEqual({ path: 'CHALLENGE.CAPTCHA_SELECTORS', winner: '#auth-captcha-image', winnerIndex: 0 });
+    expect(findSelectorDrift({
+      generatedAt: new Date().toISOString(),
+      marketplace: 'in',
+      mode: 'snapshots',
+      pages: [captcha, home]
+    })).toEqual([
+      'challenge: no entry of any of CHALLENGE.CAPTCHA_SELECTORS, CHALLENGE.PUZZLE_SELECTORS, CHALLENGE.DEVICE_APPROVAL_SELECTORS is visible'
+    ]);
+  });
+});
@@ -0,0 +1,44 @@
+import { test, expect } from '@playwright/test';
+import {
+  EXIT_CODES,
+  getExitCode,
+  NavigationTimeoutError,
+  OtpThrottledError,
+  ScraperError,
+  toNavigationError,
+  WrongPasswordError
+} from '../src/utils/scraper';
+
+test.describe('ScraperError hierarchy', () => {
+  test('gives each failure its own exit code and tells retryable ones apart', () => {
+    const wrongPassword = new WrongPasswordError('Incorrect password');
+    const throttled = new OtpThrottledError('Please wait 60 seconds');
+
+    expect(wrongPassword).toBeInstanceOf(ScraperError);
+    expect(wrongPassword.name).toBe('WrongPasswordError');
+    expect(getExitCode(wrongPassword)).toBe(EXIT_CODES.WRONG_PASSWORD);
+    expect(wrongPassword.retryable).toBe(false);
+    expect(getExitCode(throttled)).toBe(EXIT_CODES.OTP_THROTTLED);
+    expect(throttled.retryable).toBe(true);
+  });
+
+  test('uses the generic exit code for other errors', () => {
+    expect(getExitCode(new ScraperError('Something broke'))).toBe(EXIT_CODES.ERROR);
+    expect(getExitCode(new Error('Something broke'))).toBe(EXIT_CODES.ERROR);
+    expect(getExitCode('not an error')).toBe(EXIT_CODES.ERROR);
+  });
+});
+
+test.describe('toNavigationError', () => {
+  test('turns Playwright timeouts into NavigationTimeoutError', () => {
+    const timeout = new Error('page.goto: Timeout 30000ms exceeded.\nCall log: ...');
+    timeout.name = 'TimeoutError';
+
+    const error = toNavigationError(timeout, 'the order history');
+    expect(error).toBeInstanceOf(NavigationTimeoutError);
+    expect((error as Error).message).toBe('Timed out waiting for the order history: page.goto: Timeout 30000ms exceeded.');
+
+    const other = new Error('net::ERR_ABORTED');
+    expect(toNavigationError(other, 'the order history')).toBe(other);
+  });
+});
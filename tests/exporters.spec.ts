@@ -0,0 +1,120 @@
+import { test, expect } from '@playwright/test';
+import {
+  csvExporter,
+  escapeCsvField,
+  escapeMarkdownCell,
+  flattenOrders,
+  markdownExporter,
+  ndjsonExporter,
+  Order,
+  resolveExporter
+} from '../src/utils/scraper';
+
+const ORDERS: Order[] = [
+  {
+    orderId: '408-1234567-1234567',
+    orderDate: '12 March 2024',
+    orderDateIso: '2024-03-12',
+    price: '₹1,598.00',
+    total: { amount: 159800, currency: 'INR', raw: '₹1,598.00' },
+    purchaseType: 'physical',
+    items: [
+      {
+        productName: 'USB-C Cable, 2m "Braided"',
+        status: 'refunded',
+        refund: { amount: 29900, currency: 'INR', raw: '₹299.00' }
+      },
+      { productName: 'Phone Case | Black', quantity: 2, status: 'delivered' }
+    ]
+  },
+  {
+    orderId: 'D01-7654321-7654321',
+    orderDate: '2 February 2024',
+    orderDateIso: null,
+    price: '₹199.00',
+    total: { amount: 19900, currency: 'INR', raw: '₹199.00' },
+    items: []
+  }
+];
+
+test.describe('escapeCsvField', () => {
+  test('quotes fields with commas, quotes and line breaks only', () => {
+    expect(escapeCsvField('USB-C Cable')).toBe('USB-C Cable');
+    expect(escapeCsvField('Cable, 2m')).toBe('"Cable, 2m"');
+    expect(escapeCsvField('The "Braided" one')).toBe('"The ""Braided"" one"');
+    expect(escapeCsvField('Line one\nLine two')).toBe('"Line one\nLine two"');
+    expect(escapeCsvField('Line one\r\nLine two')).toBe('"Line one\r\nLine two"');
+  });
+});
+
+test.describe('escapeMarkdownCell', () => {
+  test('escapes pipes and backslashes and turns line breaks into <br>', () => {
+    expect(escapeMarkdownCell('Phone Case | Black')).toBe('Phone Case \\| Black');
+    expect(escapeMarkdownCell('C:\\invoices')).toBe('C:\\\\invoices');
+    expect(escapeMarkdownCell('Line one\r\nLine two')).toBe('Line one<br>Line two');
+  });
+});
+
+test.describe('flattenOrders', () => {
+  test('gives one row per item and a single row for orders without items', () => {
+    const rows = flattenOrders(ORDERS);
+
+    expect(rows).toHaveLength(3);
+    expect(rows.map(row => row.productName)).toEqual(['USB-C Cable, 2m "Braided"', 'Phone Case | Black', '']);
+    expect(rows[0]).toMatchObject({
+      orderId: '408-1234567-1234567',
+      totalAmount: '1598.00',
+      currency: 'INR',
+      netAmount: '1299.00',
+      purchaseType: 'physical',
+      status: 'refunded',
+      refundAmount: '299.00',
+      quantity: ''
+    });
+    expect(rows[1]).toMatchObject({ orderId: '408-1234567-1234567', netAmount: '1299.00', quantity: '2', refundAmount: '' });
+    expect(rows[2]).toMatchObject({ orderId: 'D01-7654321-7654321', orderDateIso: '', totalAmount: '199.00', status: '' });
+  });
+});
+
+test.describe('csvExporter', () => {
+  test('writes a header and one escaped row per item', () => {
+    const lines = csvExporter.serialize(ORDERS).split('\r\n');
+
+    expect(lines[0].split(',').slice(0, 7)).toEqual(['orderId', 'orderDate', 'orderDateIso', 'price', 'totalAmount', 'currency', 'netAmount']);
+    expect(lines).toHaveLength(5);
+    expect(lines[1]).toContain('"USB-C Cable, 2m ""Braided"""');
+    expect(lines[1].startsWith('408-1234567-1234567,12 March 2024,2024-03-12,"₹1,598.00",1598.00,INR,1299.00,')).toBe(true);
+    expect(lines[3].startsWith('D01-7654321-7654321,2 February 2024,,₹199.00,199.00,INR,199.00,')).toBe(true);
+    expect(lines[4]).toBe('');
+    expect(csvExporter.parse).toBeUndefined();
+  });
+});
+
+test.describe('markdownExporter', () => {
+  test('falls back to the display date and escapes cells', () => {
+    const markdown = markdownExporter.serialize(ORDERS);
+
+    expect(markdown).toContain('2 orders, 2 items.');
+    expect(markdown).toContain('Phone Case \\| Black');
+    expect(markdown).toContain('| 2 February 2024 | D01-7654321-7654321 |');
+  });
+});
+
+test.describe('ndjsonExporter', () => {
+  test('reads back what it writes, one order per line', () => {
+    const content = ndjsonExporter.serialize(ORDERS);
+
+    expect(content.split('\n')).toHaveLength(3);
+    expect(ndjsonExporter.parse?.(content)).toEqual(ORDERS);
+    expect(ndjsonExporter.parse?.(content.replace(/\n/g, '\r\n') + '\r\n')).toEqual(ORDERS);
+  });
+});
+
+test.describe('resolveExporter', () => {
+  test('prefers the requested format, then the file extension, then JSON', () => {
+    expect(resolveExporter('csv', 'orders.json').format).toBe('csv');
+    expect(resolveExporter(undefined, 'orders.JSONL').format).toBe('ndjson');
+    expect(resolveExporter(undefined, 'orders.md').format).toBe('markdown');
+    expect(resolveExporter(undefined, 'orders.txt').format).toBe('json');
+  });
+});
@@ -0,0 +1,141 @@
+import { test, expect } from '@playwright/test';
+import { extractOrders } from '../src/utils/scraper';
+import { loadFixture } from './helpers';
+
+test.describe('extractOrders', () => {
+  test('extracts a single-item order', async ({ page }) => {
+    await loadFixture(page, 'orders/single-item.html');
+
+    expect(await extractOrders(page)).toEqual([
+      {
+        orderId: '408-1234567-1234567',
+        orderDate: '12 March 2024',
+        orderDateIso: '2024-03-12',
+        price: '₹1,299.00',
+        total: { amount: 129900, currency: 'INR', raw: '₹1,299.00' },
+        purchaseType: 'physical',
+        detailsLink: 'https://www.amazon.in/gp/your-account/order-details?orderID=408-1234567-1234567',
+        invoiceLink: 'https://www.amazon.in/your-orders/invoice/popover?orderId=408-1234567-1234567',
+        items: [
+          {
+            productName: 'USB-C Cable, 2m "Braided"',
+            link: 'https://www.amazon.in/dp/B0USBCABLE',
+            imageUrl: 'https://m.media-amazon.com/images/I/usb-cable.jpg',
+            deliveryStatus: 'Delivered 15 March',
+            status: 'delivered',
+            statusDate: '2024-03-15',
+            seller: 'Example Retail',
+            quantity: 2
+          }
+        ]
+      }
+    ]);
+  });
+
+  test('extracts one item per delivery box', async ({ page }) => {
+    await loadFixture(page, 'orders/multi-delivery-box.html');
+
+    const orders = await extractOrders(page);
+    expect(orders).toHaveLength(1);
+    expect(orders[0].orderId).toBe('171-7654321-7654321');
+    expect(orders[0].total).toEqual({ amount: 12345600, currency: 'INR', raw: '₹1,23,456.00' });
+    expect(orders[0].invoiceLink).toBeUndefined();
+    expect(orders[0].purchaseType).toBe('physical');
+    expect(orders[0].items).toEqual([
+      {
+        productName: 'Laptop 14-inch',
+        link: 'https://www.amazon.in/dp/B0LAPTOP',
+        imageUrl: 'https://m.media-amazon.com/images/I/laptop.jpg',
+        deliveryStatus: 'Delivered 3 February',
+        status: 'delivered',
+        statusDate: '2024-02-03',
+        seller: 'Appario Retail Private Ltd'
+      },
+      {
+        productName: 'Laptop Sleeve',
+        link: 'https://www.amazon.in/dp/B0SLEEVE',
+        deliveryStatus: 'Arriving tomorrow',
+        status: 'in-transit'
+      }
+    ]);
+  });
+
+  test('extracts a movie rental without a delivery box', async ({ page }) => {
+    await loadFixture(page, 'orders/movie-rental.html');
+
+    expect(await extractOrders(page)).toEqual([
+      {
+        orderId: 'D01-1234567-1234567',
+        orderDate: '20 December 2023',
+        orderDateIso: '2023-12-20',
+        price: '₹79.00',
+        total: { amount: 7900, currency: 'INR', raw: '₹79.00' },
+        purchaseType: 'video',
+        items: [
+          {
+            productName: 'Example Movie (Rental)',
+            link: 'https://www.amazon.in/gp/video/detail/B0MOVIE'
+          }
+        ]
+      }
+    ]);
+  });
+
+  test('extracts a gift card order', async ({ page }) => {
+    await loadFixture(page, 'orders/gift-card.html');
+
+    const orders = await extractOrders(page);
+    expect(orders).toHaveLength(1);
+    expect(orders[0]).toMatchObject({
+      orderId: '402-1111111-2222222',
+      orderDateIso: '2024-01-05',
+      total: { amount: 50000, currency: 'INR' },
+      purchaseType: 'gift-card',
+      items: [
+        {
+          productName: 'Amazon Pay eGift Card',
+          deliveryStatus: 'Delivered by email',
+          seller: 'Qwikcilver Solutions Pvt Ltd'
+        }
+      ]
+    });
+  });
+
+  test('normalizes refunded, returned and cancelled items', async ({ page }) => {
+    await loadFixture(page, 'orders/returned-items.html');
+
+    const orders = await extractOrders(page);
+    expect(orders).toHaveLength(1);
+    expect(orders[0].items).toEqual([
+      {
+        productName: 'Wireless Headphones',
+        link: 'https://www.amazon.in/dp/B0HEADPHON',
+        deliveryStatus: 'Refunded',
+        statusDetail: 'Your refund of ₹1,299.00 was issued on 2 April.',
+        status: 'refunded',
+        statusDate: '2024-04-02',
+        refund: { amount: 129900, currency: 'INR', raw: '₹1,299.00' }
+      },
+      {
+        productName: 'Phone Case',
+        link: 'https://www.amazon.in/dp/B0PHONECAS',
+        deliveryStatus: 'Return started',
+        statusDetail: 'Drop off by 10 Apr',
+        status: 'return-started',
+        statusDate: '2024-04-10'
+      },
+      {
+        productName: 'Screen Guard',
+        link: 'https://www.amazon.in/dp/B0SCREENGD',
+        deliveryStatus: 'Cancelled',
+        status: 'cancelled'
+      }
+    ]);
+  });
+
+  test('returns no orders for an empty year', async ({ page }) => {
+    await loadFixture(page, 'orders/empty-year.html');
+
+    expect(await extractOrders(page)).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import path from 'path';
+import { Page } from '@playwright/test';
+import { HarEntry } from '../src/utils/scraper';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+/**
+ * Read a saved HTML snapshot
+ * @param name Path relative to tests/fixtures, e.g. "orders/single-item.html"
+ * @returns HTML content
+ */
+export function readFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf8');
+}
+
+/**
+ * Build a recorded request and response
+ * @param method HTTP method
+ * @param url Request URL
+ * @param body HTML response body
+ * @param status Response status
+ * @returns HAR entry
+ */
+export function entry(method: string, url: string, body: string, status = 200): HarEntry {
+  return {
+    request: { method, url, headers: [] },
+    response: {
+      status,
+      statusText: 'OK',
+      headers: [{ name: 'Content-Type', value: 'text/html; charset=utf-8' }],
+      content: { mimeType: 'text/html', text: body }
+    }
+  };
+}
+
+/**
+ * Load a saved HTML snapshot into the page without a URL
+ * @param page Playwright page instance
+ * @param name Path relative to tests/fixtures
+ */
+export async function loadFixture(page: Page, name: string): Promise<void> {
+  await page.setContent(readFixture(name));
+}
+
+/**
+ * Serve saved HTML snapshots for Amazon URLs, so code that navigates or checks
+ * the current URL runs against them without touching the network
+ * @param page Playwright page instance
+ * @param routes Fixture to serve for each URL, matched on the full URL
+ */
+export async function serveFixtures(page: Page, routes: Record<string, string>): Promise<void> {
+  await page.route('**/*', async route => {
+    const fixture = routes[route.request().url()];
+    if (!fixture) {
+      await route.abort();
+      return;
+    }
+    await route.fulfill({ contentType: 'text/html; charset=utf-8', body: readFixture(fixture) });
+  });
+}
@@ -0,0 +1,120 @@
+import { test, expect, BrowserContext } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { downloadInvoices, findSavedInvoice, getInvoiceBaseName, Order, URLS } from '../src/utils/scraper';
+import { readFixture } from './helpers';
+
+const POPOVER_URL = 'https://www.amazon.in/your-orders/invoice/popover?orderId=408-1234567-1234567';
+const INVOICE_PDF_URL = 'https://www.amazon.in/documents/download/3f2a9c1e-invoice/invoice.pdf';
+const INVOICE_PDF = Buffer.from('%PDF-1.4\n% test invoice\n%%EOF\n', 'latin1');
+
+/**
+ * Build a scraped order
+ * @param orderId Order number
+ * @param orderDateIso Order date
+ * @param invoiceLink Invoice popover link from the order card
+ * @returns Order with a single item
+ */
+function order(orderId: string | null, orderDateIso: string | null, invoiceLink?: string): Order {
+  return {
+    orderId,
+    orderDate: orderDateIso || 'N/A',
+    orderDateIso,
+    price: '₹1,299.00',
+    total: { amount: 129900, currency: 'INR', raw: '₹1,299.00' },
+    invoiceLink,
+    items: [{ productName: 'USB-C Cable' }]
+  };
+}
+
+/**
+ * Serve the invoice popover, the invoice PDF and the printable summary; block everything else
+ * @param context Browser context whose pages are routed
+ * @returns URLs requested
+ */
+async function serveInvoices(context: BrowserContext): Promise<string[]> {
+  const requested: string[] = [];
+  await context.route('**/*', async route => {
+    const url = route.request().url();
+    requested.push(url);
+    if (url === POPOVER_URL) {
+      await route.fulfill({ contentType: 'text/html; charset=utf-8', body: readFixture('orders/invoice-popover.html') });
+    } else if (url === INVOICE_PDF_URL) {
+      await route.fulfill({ contentType: 'application/pdf', body: INVOICE_PDF });
+    } else if (url === URLS.ORDER_SUMMARY_PRINT('171-7654321-7654321')) {
+      await route.fulfill({ contentType: 'text/html; charset=utf-8', body: readFixture('orders/invoice-print.html') });
+    } else {
+      await route.abort();
+    }
+  });
+  return requested;
+}
+
+test.describe('getInvoiceBaseName', () => {
+  test('names invoices by order date and ID', () => {
+    expect(getInvoiceBaseName(order('408-1234567-1234567', '2024-03-12'))).toBe('2024-03-12_408-1234567-1234567');
+    expect(getInvoiceBaseName(order('D01-1234567-1234567', null))).toBe('undated_D01-1234567-1234567');
+    expect(getInvoiceBaseName(order(null, '2024-03-12'))).toBeNull();
+  });
+});
+
+test.describe('findSavedInvoice', () => {
+  test('only counts PDFs as saved invoices', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'invoices-'));
+    try {
+      fs.writeFileSync(path.join(dir, '2024-03-12_408-1234567-1234567.html'), '<html></html>');
+      expect(findSavedInvoice(dir, '2024-03-12_408-1234567-1234567')).toBeNull();
+
+      fs.writeFileSync(path.join(dir, '2024-03-12_408-1234567-1234567.pdf'), INVOICE_PDF);
+      expect(findSavedInvoice(dir, '2024-03-12_408-1234567-1234567')).toBe(path.join(dir, '2024-03-12_408-1234567-1234567.pdf'));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+test.describe('downloadInvoices', () => {
+  let dir: string;
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'invoices-'));
+  });
+  test.afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  test('downloads the invoice PDF linked from the popover', async ({ page }) => {
+    await serveInvoices(page.context());
+    const orders = [order('408-1234567-1234567', '2024-03-12', POPOVER_URL)];
+
+    const stats = await downloadInvoices(page.context(), orders, dir);
+
+    const invoicePath = path.join(dir, '2024-03-12_408-1234567-1234567.pdf');
+    expect(stats).toEqual({ downloaded: 1, existing: 0, failed: 0, missing: 0 });
+    expect(orders[0].invoicePath).toBe(invoicePath);
+    expect(fs.readFileSync(invoicePath)).toEqual(INVOICE_PDF);
+  });
+
+  test('prints the order summary of orders without an invoice link', async ({ page }) => {
+    await serveInvoices(page.context());
+    const orders = [order('171-7654321-7654321', '2024-02-01')];
+
+    const stats = await downloadInvoices(page.context(), orders, dir);
+
+    expect(stats.downloaded).toBe(1);
+    expect(orders[0].invoicePath).toBe(path.join(dir, '2024-02-01_171-7654321-7654321.pdf'));
+    expect(fs.readFileSync(orders[0].invoicePath as string).subarray(0, 4).toString('latin1')).toBe('%PDF');
+  });
+
+  test('skips invoices saved by an earlier run and orders without an ID', async ({ page }) => {
+    const requested = await serveInvoices(page.context());
+    const savedPath = path.join(dir, '2024-03-12_408-1234567-1234567.pdf');
+    fs.writeFileSync(savedPath, INVOICE_PDF);
+    const orders = [order('408-1234567-1234567', '2024-03-12', POPOVER_URL), order(null, '2024-01-05')];
+
+    const stats = await downloadInvoices(page.context(), orders, dir);
+
+    expect(stats).toEqual({ downloaded: 0, existing: 1, failed: 0, missing: 1 });
+    expect(orders[0].invoicePath).toBe(savedPath);
+    expect(orders[1].invoicePath).toBeUndefined();
+    expect(requested).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  addLogListener,
+  clearSecrets,
+  configureLogger,
+  endDiagnosticsRun,
+  getRedactionPatterns,
+  LogEntry,
+  logger,
+  redact,
+  registerSecret,
+  startDiagnosticsRun,
+  TimelineEntry
+} from '../src/utils/scraper';
+
+test.describe('redact', () => {
+  test.afterEach(() => clearSecrets());
+
+  test('removes registered secrets, longest first', () => {
+    registerSecret('hunter2');
+    registerSecret('hunter2-extra');
+    expect(redact('password hunter2-extra then hunter2')).toBe('password [REDACTED] then [REDACTED]');
+  });
+
+  test('removes email addresses and phone numbers but keeps order IDs', () => {
+    expect(redact('Signed in as jane.doe+shop@example.co.uk on +919876543210'))
+      .toBe('Signed in as [REDACTED] on [REDACTED]');
+    expect(redact('Order 405-1234567-1234567')).toBe('Order 405-1234567-1234567');
+  });
+
+  test('ignores empty and very short secrets', () => {
+    registerSecret('');
+    registerSecret('ab');
+    registerSecret(undefined);
+    expect(redact('ab cd')).toBe('ab cd');
+  });
+
+  test('gives patterns that find the same text on a page', () => {
+    registerSecret('p4ss (word)+');
+    const patterns = getRedactionPatterns();
+
+    expect(patterns.some(pattern => pattern.test('Your password p4ss (word)+ was saved'))).toBe(true);
+    expect(patterns.some(pattern => pattern.test('jane@example.com'))).toBe(true);
+    expect(patterns.some(pattern => pattern.test('Order 405-1234567-1234567'))).toBe(false);
+    clearSecrets();
+    expect(getRedactionPatterns().some(pattern => pattern.test('p4ss (word)+'))).toBe(false);
+  });
+});
+
+test.describe('logger', () => {
+  test.beforeEach(() => configureLogger({ level: 'silent' }));
+  test.afterEach(() => {
+    configureLogger({ level: 'info' });
+    clearSecrets();
+  });
+
+  test('passes redacted entries tagged with the step to listeners at every level', () => {
+    const entries: LogEntry[] = [];
+    const remove = addLogListener(entry => entries.push(entry));
+    registerSecret('123456');
+
+    logger.step('mfa');
+    logger.debug('Submitting OTP 123456');
+    remove();
+    logger.info('Not received');
+
+    expect(entries.map(entry => [entry.level, entry.step, entry.message])).toEqual([
+      ['debug', 'mfa', 'Step: mfa'],
+      ['debug', 'mfa', 'Submitting OTP [REDACTED]']
+    ]);
+  });
+});
+
+test.describe('startDiagnosticsRun', () => {
+  test('writes log entries to a timeline in a new timestamped directory', () => {
+    configureLogger({ level: 'silent' });
+    const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diagnostics-'));
+    try {
+      const dir = startDiagnosticsRun(baseDir);
+      logger.warn('Contact user@example.com');
+      endDiagnosticsRun();
+      logger.warn('After the run');
+
+      expect(path.dirname(dir)).toBe(baseDir);
+      const timeline = fs.readFileSync(path.join(dir, 'timeline.ndjson'), 'utf8')
+        .trim().split('\n').map(line => JSON.parse(line) as TimelineEntry);
+      expect(timeline.map(entry => entry.type === 'log' && entry.message)).toEqual([
+        `Writing diagnostics to ${dir}`,
+        'Contact [REDACTED]'
+      ]);
+    } finally {
+      configureLogger({ level: 'info' });
+      fs.rmSync(baseDir, { recursive: true, force: true });
+    }
+  });
+});
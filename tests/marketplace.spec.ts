@@ -0,0 +1,26 @@
+import { test, expect } from '@playwright/test';
+import { MARKETPLACES, URLS, SELECTORS, buildMarketplaceUrls, selectMarketplace, getMarketplace, parseMoney } from '../src/utils/scraper';
+
+test.describe('buildMarketplaceUrls', () => {
+  test('points sign-in and order URLs at the storefront', () => {
+    const urls = buildMarketplaceUrls(MARKETPLACES['co.uk']);
+
+    expect(urls.BASE_URL).toBe('https://www.amazon.co.uk');
+    expect(urls.LOGIN).toContain('https://www.amazon.co.uk/ap/signin?');
+    expect(urls.LOGIN).toContain('openid.assoc_handle=gbflex');
+    expect(urls.ORDER_HISTORY_YEAR(2023, 20)).toBe('https://www.amazon.co.uk/your-orders/orders?timeFilter=year-2023&startIndex=20');
+  });
+});
+
+test.describe('selectMarketplace', () => {
+  test.afterEach(() => selectMarketplace('in'));
+
+  test('switches URLs, login error texts and the default currency', () => {
+    selectMarketplace('de');
+
+    expect(getMarketplace().domain).toBe('amazon.de');
+    expect(URLS.ORDER_HISTORY).toBe('https://www.amazon.de/gp/css/order-history');
+    expect(SELECTORS.LOGIN.INCORRECT_PASSWORD_ERROR).toContain('Ihr Passwort ist falsch');
+    expect(parseMoney('12,50')).toMatchObject({ amount: 1250, currency: 'EUR' });
+  });
+});
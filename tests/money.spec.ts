@@ -0,0 +1,27 @@
+import { test, expect } from '@playwright/test';
+import { parseMoney } from '../src/utils/scraper';
+
+test.describe('parseMoney', () => {
+  test('parses rupee amounts with Indian digit grouping', () => {
+    expect(parseMoney('₹1,23,456.00')).toEqual({ amount: 12345600, currency: 'INR', raw: '₹1,23,456.00' });
+    expect(parseMoney('₹1,299.00')).toEqual({ amount: 129900, currency: 'INR', raw: '₹1,299.00' });
+    expect(parseMoney('Rs. 450')).toEqual({ amount: 45000, currency: 'INR', raw: 'Rs. 450' });
+  });
+
+  test('recognises currency symbols and codes', () => {
+    expect(parseMoney('$19.99')).toMatchObject({ amount: 1999, currency: 'USD' });
+    expect(parseMoney('£1,234.50')).toMatchObject({ amount: 123450, currency: 'GBP' });
+    expect(parseMoney('EUR 12,50')).toMatchObject({ amount: 1250, currency: 'EUR' });
+    expect(parseMoney('1.299,00 €')).toMatchObject({ amount: 129900, currency: 'EUR' });
+  });
+
+  test('treats free and zero-value orders as zero', () => {
+    expect(parseMoney('FREE')).toEqual({ amount: 0, currency: 'INR', raw: 'FREE' });
+    expect(parseMoney('₹0.00')).toMatchObject({ amount: 0, currency: 'INR' });
+  });
+
+  test('returns null when there is no amount', () => {
+    expect(parseMoney('N/A')).toBeNull();
+    expect(parseMoney('')).toBeNull();
+  });
+});
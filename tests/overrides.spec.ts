@@ -0,0 +1,52 @@
+import path from 'path';
+import { test, expect } from '@playwright/test';
+import { SELECTORS, TIMEOUTS, loadConfigOverrides, applyConfigOverrides, validateConfigOverrides } from '../src/utils/scraper';
+
+const configFixture = (name: string) => path.join(__dirname, 'fixtures', 'config', name);
+
+test.describe('loadConfigOverrides', () => {
+  test('reads YAML overrides', () => {
+    const overrides = loadConfigOverrides(configFixture('overrides.yaml'));
+
+    expect(overrides.SELECTORS).toEqual({
+      ORDERS: { ORDER_CARD: '.order-card-v2' },
+      MFA: { SUBMIT_BUTTON_SELECTORS: ['#auth-signin-button', 'button[type="submit"]'] }
+    });
+    expect(overrides.TIMEOUTS).toEqual({ ORDER_PAGE_LOAD: 60000 });
+  });
+
+  test('reports every unknown key and wrong type', () => {
+    expect(() => loadConfigOverrides(configFixture('invalid.json'))).toThrow(
+      /Unknown key SELECTORS\.ORDERS\.ORDER_CARDS[\s\S]*SELECTORS\.ORDERS\.PAGINATION must be a non-empty string[\s\S]*TIMEOUTS\.ORDER_PAGE_LOAD must be a non-negative integer[\s\S]*URLS\.ORDER_HISTORY_YEAR is computed[\s\S]*Unknown section FILES/
+    );
+  });
+
+  test('rejects overrides that are not an object', () => {
+    expect(() => validateConfigOverrides(['.order-card'])).toThrow('must be an object');
+  });
+});
+
+test.describe('applyConfigOverrides', () => {
+  test('deep-merges into the config, replacing arrays', () => {
+    const original = {
+      orderCard: SELECTORS.ORDERS.ORDER_CARD,
+      submitButtons: SELECTORS.MFA.SUBMIT_BUTTON_SELECTORS,
+      orderPageLoad: TIMEOUTS.ORDER_PAGE_LOAD
+    };
+
+    try {
+      const applied = applyConfigOverrides(loadConfigOverrides(configFixture('overrides.yaml')));
+
+      expect(applied).toEqual(['SELECTORS.ORDERS.ORDER_CARD', 'SELECTORS.MFA.SUBMIT_BUTTON_SELECTORS', 'TIMEOUTS.ORDER_PAGE_LOAD']);
+      expect(SELECTORS.ORDERS.ORDER_CARD).toBe('.order-card-v2');
+      expect(SELECTORS.ORDERS.BOX_GROUP).toBe('.a-box-group');
+      expect(SELECTORS.MFA.SUBMIT_BUTTON_SELECTORS).toEqual(['#auth-signin-button', 'button[type="submit"]']);
+      expect(TIMEOUTS.ORDER_PAGE_LOAD).toBe(60000);
+    } finally {
+      applyConfigOverrides({
+        SELECTORS: { ORDERS: { ORDER_CARD: original.orderCard }, MFA: { SUBMIT_BUTTON_SELECTORS: original.submitButtons } },
+        TIMEOUTS: { ORDER_PAGE_LOAD: original.orderPageLoad }
+      });
+    }
+  });
+});
@@ -0,0 +1,86 @@
+import { test, expect } from '@playwright/test';
+import { ExtractionEmptyError, scrapeCancelledOrders, scrapeOrderYear, URLS } from '../src/utils/scraper';
+import { serveFixtures } from './helpers';
+
+test.describe('scrapeOrderYear', () => {
+  test.beforeEach(async ({ page }) => {
+    await serveFixtures(page, {
+      [URLS.ORDER_HISTORY_YEAR(2023)]: 'orders/year-page-1.html',
+      [URLS.ORDER_HISTORY_YEAR(2023, 10)]: 'orders/year-page-2.html',
+      [URLS.ORDER_HISTORY_YEAR(2019)]: 'orders/empty-year.html',
+      [URLS.ORDER_HISTORY_YEAR(2022)]: 'orders/unrecognised-cards.html',
+      [URLS.DIGITAL_ORDER_HISTORY_YEAR(2023)]: 'orders/digital-orders.html'
+    });
+  });
+
+  test('follows the pagination links to the last page', async ({ page }) => {
+    const { orders, stats } = await scrapeOrderYear(page, 2023, { limit: null });
+
+    expect(orders.map(order => order.orderId)).toEqual([
+      '408-0000001-0000001',
+      '408-0000002-0000002',
+      '408-0000003-0000003'
+    ]);
+    expect(stats).toEqual({ year: 2023, pages: 2, ordersVisited: 3, ordersCollected: 3 });
+  });
+
+  test('stops once the limit is reached', async ({ page }) => {
+    const { orders, stats } = await scrapeOrderYear(page, 2023, { limit: 2 });
+
+    expect(orders).toHaveLength(2);
+    expect(stats.pages).toBe(1);
+  });
+
+  test('stops before pages older than the date range', async ({ page }) => {
+    const { orders, stats } = await scrapeOrderYear(page, 2023, { limit: null, since: '2023-10-15' });
+
+    expect(orders.map(order => order.orderId)).toEqual(['408-0000001-0000001']);
+    expect(stats.pages).toBe(1);
+  });
+
+  test('stops at a page of orders known from a previous run', async ({ page }) => {
+    const knownOrderKeys = new Set(['408-0000001-0000001', '408-0000002-0000002']);
+    const result = await scrapeOrderYear(page, 2023, { limit: null, knownOrderKeys });
+
+    expect(result.orders).toEqual([]);
+    expect(result.reachedKnownOrders).toBe(true);
+    expect(result.stats.pages).toBe(1);
+  });
+
+  test('visits a single page for an empty year', async ({ page }) => {
+    const { orders, stats } = await scrapeOrderYear(page, 2019, { limit: null });
+
+    expect(orders).toEqual([]);
+    expect(stats).toEqual({ year: 2019, pages: 1, ordersVisited: 0, ordersCollected: 0 });
+  });
+
+  test('walks the digital orders view and keeps the requested purchase types', async ({ page }) => {
+    const { orders, stats } = await scrapeOrderYear(page, 2023, { limit: null, view: 'digital', purchaseTypes: ['digital'] });
+
+    expect(orders.map(order => [order.orderId, order.purchaseType])).toEqual([['D01-0000005-0000005', 'digital']]);
+    expect(stats).toEqual({ year: 2023, pages: 1, ordersVisited: 2, ordersCollected: 1 });
+  });
+
+  test('fails when the year lists orders but none can be extracted', async ({ page }) => {
+    await expect(scrapeOrderYear(page, 2022, { limit: null })).rejects.toThrow(ExtractionEmptyError);
+  });
+});
+
+test.describe('scrapeCancelledOrders', () => {
+  test.beforeEach(async ({ page }) => {
+    await serveFixtures(page, { [URLS.ORDER_HISTORY_CANCELLED()]: 'orders/cancelled-orders.html' });
+  });
+
+  test('marks the items of the cancelled orders filter as cancelled', async ({ page }) => {
+    const orders = await scrapeCancelledOrders(page, { limit: null });
+
+    expect(orders.map(order => order.orderId)).toEqual(['408-0000004-0000004', '408-0000002-0000002']);
+    expect(orders.map(order => order.items[0].status)).toEqual(['cancelled', 'cancelled']);
+  });
+
+  test('keeps to the date range', async ({ page }) => {
+    const orders = await scrapeCancelledOrders(page, { limit: null, since: '2024-01-01', until: '2024-12-31' });
+
+    expect(orders.map(order => order.orderId)).toEqual(['408-0000004-0000004']);
+  });
+});
@@ -0,0 +1,55 @@
+import { test, expect } from '@playwright/test';
+import { classifyPurchase, filterOrdersByPurchaseType, needsDigitalOrders, Order, OrderItem } from '../src/utils/scraper';
+
+/**
+ * Build an order
+ * @param orderId Order number
+ * @param items Items of the order
+ * @returns Order without a price
+ */
+function order(orderId: string, items: OrderItem[]): Order {
+  return { orderId, orderDate: '5 January 2024', orderDateIso: '2024-01-05', price: 'N/A', total: null, items };
+}
+
+test.describe('classifyPurchase', () => {
+  test('tells purchase types apart by links and wording', () => {
+    const video = order('D01-1234567-1234567', [{ productName: 'Example Movie (Rental)', link: 'https://www.amazon.in/gp/video/detail/B0MOVIE' }]);
+    const kindle = order('D01-7654321-7654321', [{ productName: 'Example Novel', link: 'https://www.amazon.in/dp/B0KINDLEBK' }]);
+    const giftCard = order('402-1111111-2222222', [{ productName: 'Amazon Pay eGift Card', seller: 'Qwikcilver Solutions Pvt Ltd' }]);
+    const grocery = order('171-1111111-1111111', [{ productName: 'Bananas, 1 kg', link: 'https://www.amazon.in/alm/storefront?almBrandId=fresh' }]);
+    const cable = order('408-1234567-1234567', [{ productName: 'USB-C Cable', link: 'https://www.amazon.in/dp/B0USBCABLE' }]);
+
+    expect(classifyPurchase(video)).toBe('video');
+    expect(classifyPurchase(kindle)).toBe('digital');
+    expect(classifyPurchase(giftCard)).toBe('gift-card');
+    expect(classifyPurchase(grocery)).toBe('grocery');
+    expect(classifyPurchase(cable)).toBe('physical');
+  });
+
+  test('reads subscriptions and digital content from the order card', () => {
+    const cable = order('408-1234567-1234567', [{ productName: 'USB-C Cable', link: 'https://www.amazon.in/dp/B0USBCABLE' }]);
+    const novel = order('171-7654321-7654321', [{ productName: 'Example Novel', link: 'https://www.amazon.in/dp/B0KINDLEBK' }]);
+
+    expect(classifyPurchase(cable, 'Order placed 5 January 2024 Subscribe & Save USB-C Cable')).toBe('subscription');
+    expect(classifyPurchase(novel, 'Example Novel Kindle Edition')).toBe('digital');
+  });
+});
+
+test.describe('filterOrdersByPurchaseType', () => {
+  test('keeps the requested types, classifying orders read back without one', () => {
+    const video = { ...order('D01-1234567-1234567', []), purchaseType: 'video' as const };
+    const cable = order('408-1234567-1234567', [{ productName: 'USB-C Cable', link: 'https://www.amazon.in/dp/B0USBCABLE' }]);
+
+    expect(filterOrdersByPurchaseType([video, cable], ['physical'])).toEqual([cable]);
+    expect(filterOrdersByPurchaseType([video, cable], [])).toEqual([video, cable]);
+    expect(filterOrdersByPurchaseType([video, cable])).toEqual([video, cable]);
+  });
+});
+
+test.describe('needsDigitalOrders', () => {
+  test('walks the digital orders view only for digital purchase types', () => {
+    expect(needsDigitalOrders(['physical', 'video'])).toBe(true);
+    expect(needsDigitalOrders(['grocery'])).toBe(false);
+    expect(needsDigitalOrders(undefined)).toBe(false);
+  });
+});
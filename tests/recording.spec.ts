@@ -0,0 +1,81 @@
+import { test, expect } from '@playwright/test';
+import {
+  clearSecrets,
+  createHarReplayer,
+  HarFile,
+  installHarReplay,
+  registerSecret,
+  scrubHar
+} from '../src/utils/scraper';
+import { entry, readFixture } from './helpers';
+
+const SIGN_IN_URL = 'https://www.amazon.in/ap/signin';
+const ORDERS_URL = 'https://www.amazon.in/gp/css/order-history?ref_=nav_orders_first';
+
+test.describe('scrubHar', () => {
+  test.afterEach(() => clearSecrets());
+
+  test('removes credentials from headers, form posts, URLs and page content', () => {
+    registerSecret('Jane Q. Customer');
+    const signIn = entry('POST', `${SIGN_IN_URL}?email=jane%40example.com&ref=nav`, '<p>Hello, Jane Q. Customer</p>');
+    signIn.request.headers = [{ name: 'Cookie', value: 'session-id=123' }, { name: 'Accept', value: 'text/html' }];
+    signIn.request.cookies = [{ name: 'session-id', value: '123' }];
+    signIn.request.postData = { mimeType: 'application/x-www-form-urlencoded', text: 'email=jane%40example.com&password=hunter2' };
+    signIn.response.headers.push({ name: 'Set-Cookie', value: 'at-main=secret' });
+    signIn.response.cookies = [{ name: 'at-main', value: 'secret', domain: '.amazon.in', httpOnly: true, secure: true }];
+
+    const [scrubbed] = scrubHar({ log: { entries: [signIn] } }).log.entries;
+
+    expect(scrubbed.request.url).toBe(`${SIGN_IN_URL}?email=%5BREDACTED%5D&ref=nav`);
+    expect(scrubbed.request.headers).toEqual([
+      { name: 'Cookie', value: '[REDACTED]' },
+      { name: 'Accept', value: 'text/html' }
+    ]);
+    expect(scrubbed.request.postData).toEqual({ mimeType: 'application/x-www-form-urlencoded', text: '[REDACTED]' });
+    expect(scrubbed.response.headers[1]).toEqual({ name: 'Set-Cookie', value: '[REDACTED]' });
+    expect(scrubbed.request.cookies).toEqual([{ name: 'session-id', value: '[REDACTED]' }]);
+    expect(scrubbed.response.cookies).toEqual([
+      { name: 'at-main', value: '[REDACTED]', domain: '.amazon.in', httpOnly: true, secure: true }
+    ]);
+    expect(scrubbed.response.content.text).toBe('<p>Hello, [REDACTED]</p>');
+    // The recording itself is left untouched
+    expect(signIn.request.headers[0].value).toBe('session-id=123');
+    expect(signIn.response.cookies?.[0].value).toBe('secret');
+  });
+});
+
+test.describe('createHarReplayer', () => {
+  test('serves entries for the same path in recorded order, preferring the exact URL', () => {
+    const har: HarFile = {
+      log: {
+        entries: [
+          entry('POST', `${SIGN_IN_URL}?arb=first`, 'password page'),
+          entry('POST', `${SIGN_IN_URL}?arb=second`, 'verification page'),
+          entry('GET', ORDERS_URL, 'orders'),
+          entry('GET', 'https://www.amazon.in/failed.js', '', 0)
+        ]
+      }
+    };
+    const findEntry = createHarReplayer(har);
+
+    expect(findEntry('POST', `${SIGN_IN_URL}?arb=second`)?.response.content.text).toBe('verification page');
+    expect(findEntry('POST', `${SIGN_IN_URL}?arb=new-token`)?.response.content.text).toBe('password page');
+    // Everything has been served once, so the last entry is repeated
+    expect(findEntry('POST', `${SIGN_IN_URL}?arb=new-token`)?.response.content.text).toBe('verification page');
+    expect(findEntry('get', ORDERS_URL)?.response.content.text).toBe('orders');
+    expect(findEntry('GET', 'https://www.amazon.in/failed.js')).toBeNull();
+    expect(findEntry('GET', 'https://www.amazon.in/never-recorded')).toBeNull();
+  });
+});
+
+test.describe('installHarReplay', () => {
+  test('serves recorded pages and blocks everything else', async ({ page }) => {
+    await installHarReplay(page.context(), {
+      log: { entries: [entry('GET', ORDERS_URL, readFixture('orders/single-item.html'))] }
+    });
+
+    await page.goto(ORDERS_URL);
+    await expect(page.locator('.order-card')).toHaveCount(1);
+    await expect(page.goto('https://www.amazon.in/not-recorded')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,150 @@
+import { test, expect } from '@playwright/test';
+import { buildSpendingReport, formatSpendingReport, Order, OrderItem, renderSpendingReportHtml } from '../src/utils/scraper';
+
+const NOW = new Date('2025-01-15T10:00:00.000Z');
+
+/**
+ * Build a scraped order
+ * @param orderId Order number
+ * @param orderDateIso Order date
+ * @param amount Order total in minor units, or null for orders without a total
+ * @param items Items of the order
+ * @param currency Currency of the total
+ * @returns Order
+ */
+function order(orderId: string, orderDateIso: string | null, amount: number | null, items: OrderItem[], currency = 'INR'): Order {
+  return {
+    orderId,
+    orderDate: orderDateIso || 'N/A',
+    orderDateIso,
+    price: amount === null ? 'N/A' : String(amount / 100),
+    total: amount === null ? null : { amount, currency, raw: String(amount / 100) },
+    items
+  };
+}
+
+/**
+ * Orders from late 2023 to early 2024, with a refund, a cancellation and an order without a total
+ * @returns Orders
+ */
+function sampleOrders(): Order[] {
+  return [
+    order('408-0000001', '2024-02-10', 50000, [{ productName: 'USB-C Cable' }]),
+    order('408-0000002', '2024-02-01', 300000, [
+      { productName: 'Headphones', price: { amount: 250000, currency: 'INR', raw: '₹2,500.00' } },
+      {
+        productName: 'usb-c cable',
+        quantity: 2,
+        price: { amount: 25000, currency: 'INR', raw: '₹250.00' },
+        status: 'refunded',
+        refund: { amount: 25000, currency: 'INR', raw: '₹250.00' }
+      }
+    ]),
+    order('408-0000003', '2023-11-20', 100000, [{ productName: 'Desk Lamp' }]),
+    order('408-0000004', '2023-12-05', 80000, [{ productName: 'Kettle', status: 'cancelled' }]),
+    order('408-0000005', '2023-12-24', null, [{ productName: 'Gift Wrap' }])
+  ];
+}
+
+test.describe('buildSpendingReport', () => {
+  test('totals net spend by year and month, leaving out cancelled and unpriced orders', () => {
+    const report = buildSpendingReport(sampleOrders(), { now: NOW });
+
+    expect(report).toMatchObject({ generatedAt: NOW.toISOString(), orders: 5, cancelledOrders: 1, unpricedOrders: 1 });
+    expect(report.currencies).toHaveLength(1);
+    const spending = report.currencies[0];
+    expect(spending).toMatchObject({
+      currency: 'INR',
+      orders: 3,
+      total: { amount: 425000, currency: 'INR' },
+      averageOrderValue: { amount: 141667, currency: 'INR' },
+      undatedOrders: 0
+    });
+    expect(spending.byYear.map(year => [year.period, year.orders, year.total.amount])).toEqual([
+      ['2023', 1, 100000],
+      ['2024', 2, 325000]
+    ]);
+    // Months without orders are listed with no spend
+    expect(spending.byMonth.map(month => [month.period, month.orders, month.total.amount])).toEqual([
+      ['2023-11', 1, 100000],
+      ['2023-12', 0, 0],
+      ['2024-01', 0, 0],
+      ['2024-02', 2, 325000]
+    ]);
+  });
+
+  test('compares each year with the year before', () => {
+    const spending = buildSpendingReport([
+      order('1', '2021-05-01', 100000, [{ productName: 'A' }]),
+      order('2', '2023-05-01', 150000, [{ productName: 'B' }]),
+      order('3', '2024-05-01', 120000, [{ productName: 'C' }])
+    ]).currencies[0];
+
+    expect(spending.yearOverYear.map(change => [change.year, change.previousYear, change.change.amount, change.changePercent])).toEqual([
+      ['2022', '2021', -100000, -100],
+      ['2023', '2022', 150000, null],
+      ['2024', '2023', -30000, -20]
+    ]);
+  });
+
+  test('ranks products by spend, net of refunds and merged by name', () => {
+    const spending = buildSpendingReport(sampleOrders(), { topProducts: 2 }).currencies[0];
+
+    expect(spending.topProducts).toEqual([
+      { productName: 'Headphones', orders: 1, quantity: 1, total: { amount: 250000, currency: 'INR', raw: 'INR 2500.00' } },
+      { productName: 'Desk Lamp', orders: 1, quantity: 1, total: { amount: 100000, currency: 'INR', raw: 'INR 1000.00' } }
+    ]);
+    expect(buildSpendingReport(sampleOrders()).currencies[0].topProducts.find(product => product.productName === 'USB-C Cable'))
+      .toMatchObject({ orders: 2, quantity: 3, total: { amount: 75000 } });
+  });
+
+  test('keeps currencies apart and counts undated orders in the total only', () => {
+    const report = buildSpendingReport([
+      order('1', '2024-03-01', 1999, [{ productName: 'Book' }], 'USD'),
+      order('2', '2024-03-02', 50000, [{ productName: 'Cable' }]),
+      order('3', null, 70000, [{ productName: 'Mouse' }])
+    ]);
+
+    expect(report.currencies.map(spending => [spending.currency, spending.orders, spending.total.amount])).toEqual([
+      ['INR', 2, 120000],
+      ['USD', 1, 1999]
+    ]);
+    expect(report.currencies[0].undatedOrders).toBe(1);
+    expect(report.currencies[0].byYear.map(year => year.total.amount)).toEqual([50000]);
+  });
+});
+
+test.describe('formatSpendingReport', () => {
+  test('lays out totals, years, months and products as tables', () => {
+    const text = formatSpendingReport(buildSpendingReport(sampleOrders(), { now: NOW }));
+
+    expect(text).toContain('Spending report: 5 orders (1 cancelled, 1 without a known total left out)');
+    expect(text).toContain('Orders: 3  Total: INR 4250.00  Average order value: INR 1416.67');
+    expect(text).toMatch(/^2024 +2 +INR 3250\.00 +\+225\.0%$/m);
+    expect(text).toMatch(/^2023-12 +0 +INR 0\.00$/m);
+    expect(text).toMatch(/^ *1 +Headphones +1 +1 +INR 2500\.00$/m);
+  });
+
+  test('says so when no order has a total', () => {
+    expect(formatSpendingReport(buildSpendingReport([order('1', '2024-01-01', null, [{ productName: 'A' }])])))
+      .toContain('No orders with a total to report on');
+  });
+});
+
+test.describe('renderSpendingReportHtml', () => {
+  test('renders a standalone page with charts and escaped product names', () => {
+    const html = renderSpendingReportHtml(buildSpendingReport([
+      order('1', '2024-01-05', 50000, [{ productName: 'Cable <USB-C> & "adapter"' }]),
+      order('2', '2024-03-05', 20000, [{ productName: 'Lamp' }])
+    ], { now: NOW }));
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('Cable &lt;USB-C&gt; &amp; &quot;adapter&quot;');
+    expect(html).not.toContain('<USB-C>');
+    // One chart per year and month, with a bar for every period
+    expect(html.match(/<svg /g)).toHaveLength(2);
+    expect(html.match(/<rect /g)).toHaveLength(1 + 3);
+    // Nothing is loaded from elsewhere, so the page opens offline
+    expect(html).not.toMatch(/<script|<link|src=|https?:/);
+  });
+});
@@ -0,0 +1,224 @@
+import { test, expect } from '@playwright/test';
+import { EventEmitter } from 'events';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  AmazonOrderScraperOptions,
+  createScraperServer,
+  CredentialProvider,
+  JobScraper,
+  LoginAbortedError,
+  Order,
+  OtpProvider,
+  OtpRejectedError,
+  parseScrapeJobRequest,
+  ScrapeJobManager,
+  ScrapeJobManagerOptions,
+  ScrapeOptions,
+  ScrapeResult
+} from '../src/utils/scraper';
+
+const ORDER: Order = {
+  orderId: '408-1234567-1234567',
+  orderDate: '12 March 2024',
+  orderDateIso: '2024-03-12',
+  price: '₹1,299.00',
+  total: { amount: 129900, currency: 'INR', raw: '₹1,299.00' },
+  items: [{ productName: 'USB-C Cable' }]
+};
+
+/**
+ * Stands in for AmazonOrderScraper: asks its providers for whatever is missing, like the real login
+ */
+class FakeScraper extends EventEmitter implements JobScraper {
+  static scrapeOptions: Partial<ScrapeOptions> | null = null;
+
+  constructor(private readonly options: AmazonOrderScraperOptions) {
+    super();
+  }
+
+  async login(): Promise<void> {
+    this.emit('progress', { type: 'login:start' });
+    const credentials = await (this.options.credentialProvider as CredentialProvider).getCredentials(this.options.credentials || {});
+    if (!credentials) {
+      throw new LoginAbortedError('No credentials provided');
+    }
+    this.emit('progress', { type: 'login:otp-required', attemptsLeft: 3, method: 'sms' });
+    const otp = this.options.otpCode || await (this.options.otpProvider as OtpProvider).getOtp(3, 'sms');
+    if (!otp) {
+      throw new LoginAbortedError('No OTP provided');
+    }
+    if (otp !== '123456') {
+      throw new OtpRejectedError('Failed to verify OTP after multiple attempts');
+    }
+    this.emit('progress', { type: 'login:success' });
+  }
+
+  async listOrders(options: Partial<ScrapeOptions>): Promise<ScrapeResult> {
+    FakeScraper.scrapeOptions = options;
+    return { orders: [ORDER], years: [{ year: 2024, pages: 1, ordersVisited: 1, ordersCollected: 1 }] };
+  }
+
+  async close(): Promise<void> {}
+}
+
+/**
+ * Start an API server on a free port
+ * @param options Job manager options besides the scraper factory
+ * @param token Bearer token to require, if any
+ * @returns Server and a fetch bound to its address
+ */
+async function startServer(options: Partial<ScrapeJobManagerOptions> = {}, token?: string) {
+  const jobs = new ScrapeJobManager({
+    scraper: {},
+    createScraper: scraperOptions => new FakeScraper(scraperOptions),
+    inputTimeout: 5000,
+    ...options
+  });
+  const server = createScraperServer(jobs, { host: '127.0.0.1', token });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const call = (path: string, init: { method?: string; body?: unknown; token?: string } = {}) => fetch(`http://127.0.0.1:${port}${path}`, {
+    method: init.method || (init.body === undefined ? 'GET' : 'POST'),
+    headers: { 'Content-Type': 'application/json', ...(init.token ? { Authorization: `Bearer ${init.token}` } : {}) },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body)
+  });
+  const state = async (id: string) => (await (await call(`/jobs/${id}`)).json()).state;
+  return { server, port, call, state };
+}
+
+/**
+ * Send a request with hand-picked headers, which fetch does not allow for Host
+ * @param port Server port
+ * @param method HTTP method
+ * @param headers Request headers
+ * @param body Request body
+ * @returns Response status
+ */
+function rawRequest(port: number, method: string, headers: http.OutgoingHttpHeaders, body = ''): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = http.request({ host: '127.0.0.1', port, path: '/jobs', method, headers }, response => {
+      response.resume();
+      resolve(response.statusCode as number);
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+let server: http.Server | null = null;
+test.afterEach(async () => {
+  if (server) {
+    server.closeAllConnections();
+    await new Promise(resolve => server?.close(resolve));
+    server = null;
+  }
+});
+
+test.describe('parseScrapeJobRequest', () => {
+  test('keeps the fields that are set and rejects invalid ones', () => {
+    expect(parseScrapeJobRequest(undefined)).toEqual({ scrape: {} });
+    expect(parseScrapeJobRequest({
+      scrape: { maxOrders: null, since: '2024-01-01', purchaseTypes: ['physical'] },
+      credentials: { username: 'jane@example.com' }
+    })).toEqual({
+      scrape: { maxOrders: null, since: '2024-01-01', purchaseTypes: ['physical'] },
+      credentials: { username: 'jane@example.com' }
+    });
+
+    expect(() => parseScrapeJobRequest({ scrape: { since: '2024-13-01' } })).toThrow('since must be a date');
+    expect(() => parseScrapeJobRequest({ scrape: { maxOrders: '10' } })).toThrow('maxOrders must be an integer');
+    expect(() => parseScrapeJobRequest({ scrape: { purchaseTypes: ['books'] } })).toThrow('purchaseTypes must be a list');
+    expect(() => parseScrapeJobRequest({ scrape: { invoiceDir: '/tmp' } })).toThrow('Unknown field "invoiceDir"');
+  });
+});
+
+test.describe('createScraperServer', () => {
+  test('walks a job through awaiting_credentials and awaiting_otp to its orders', async () => {
+    const api = await startServer();
+    server = api.server;
+
+    const created = await api.call('/jobs', { body: { scrape: { maxOrders: 5 } } });
+    expect(created.status).toBe(202);
+    const { id } = await created.json();
+    expect(created.headers.get('location')).toBe(`/jobs/${id}`);
+
+    await expect.poll(() => api.state(id)).toBe('awaiting_credentials');
+    expect((await (await api.call(`/jobs/${id}`)).json()).input).toEqual({ type: 'credentials', missing: ['username', 'password'] });
+    expect((await api.call(`/jobs/${id}/otp`, { body: { otp: '123456' } })).status).toBe(409);
+    expect((await api.call(`/jobs/${id}/credentials`, { body: { username: 'jane@example.com' } })).status).toBe(400);
+    expect((await api.call(`/jobs/${id}/orders`)).status).toBe(409);
+
+    const submitted = await api.call(`/jobs/${id}/credentials`, { body: { username: 'jane@example.com', password: 'secret' } });
+    expect(submitted.status).toBe(202);
+
+    await expect.poll(() => api.state(id)).toBe('awaiting_otp');
+    expect((await (await api.call(`/jobs/${id}`)).json()).input).toEqual({ type: 'otp', attemptsLeft: 3, method: 'sms' });
+    expect((await api.call(`/jobs/${id}/otp`, { body: { otp: ' 123456 ' } })).status).toBe(202);
+
+    await expect.poll(() => api.state(id)).toBe('completed');
+    const status = await (await api.call(`/jobs/${id}`)).json();
+    expect(status).toMatchObject({ orderCount: 1, input: null, error: null, years: [{ year: 2024 }] });
+    expect(status.progress.map((event: { type: string }) => event.type)).toEqual(['login:start', 'login:otp-required', 'login:success']);
+    expect(FakeScraper.scrapeOptions).toEqual({ maxOrders: 5 });
+
+    expect(await (await api.call(`/jobs/${id}/orders`)).json()).toEqual([ORDER]);
+    const csv = await api.call(`/jobs/${id}/orders?format=csv`);
+    expect(csv.headers.get('content-type')).toContain('text/csv');
+    expect(await csv.text()).toContain('408-1234567-1234567');
+    expect((await (await api.call('/jobs')).json()).jobs.map((job: { id: string }) => job.id)).toEqual([id]);
+  });
+
+  test('fails a job whose input does not come in time', async () => {
+    const api = await startServer({ scraper: { credentials: { username: 'jane@example.com', password: 'secret' } }, inputTimeout: 50 });
+    server = api.server;
+
+    const { id } = await (await api.call('/jobs', { body: {} })).json();
+
+    await expect.poll(() => api.state(id)).toBe('failed');
+    expect((await (await api.call(`/jobs/${id}`)).json()).error).toEqual({
+      name: 'LoginAbortedError',
+      message: 'No OTP provided',
+      exitCode: 15
+    });
+  });
+
+  test('requires the bearer token and answers unknown jobs and invalid bodies with errors', async () => {
+    const api = await startServer({}, 'token-1');
+    server = api.server;
+
+    expect((await api.call('/jobs')).status).toBe(401);
+    expect((await api.call('/jobs', { token: 'token-2' })).status).toBe(401);
+    expect((await api.call('/jobs', { token: 'token-1' })).status).toBe(200);
+
+    const invalid = await api.call('/jobs', { body: { scrape: { fromYear: 2024, toYear: 2020 } }, token: 'token-1' });
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual({ error: 'fromYear (2024) cannot be after toYear (2020)' });
+    expect((await api.call('/jobs/unknown', { token: 'token-1' })).status).toBe(404);
+    expect((await api.call('/orders', { token: 'token-1' })).status).toBe(404);
+  });
+
+  test('rejects requests addressed to another host', async () => {
+    const api = await startServer({}, 'token-1');
+    server = api.server;
+    const authorization = 'Bearer token-1';
+
+    expect(await rawRequest(api.port, 'GET', { Host: 'attacker.example', Authorization: authorization })).toBe(403);
+    expect(await rawRequest(api.port, 'GET', { Host: `attacker.example:${api.port}`, Authorization: authorization })).toBe(403);
+    expect(await rawRequest(api.port, 'GET', { Host: `localhost:${api.port}`, Authorization: authorization })).toBe(200);
+    expect(await rawRequest(api.port, 'GET', { Host: `[::1]:${api.port}`, Authorization: authorization })).toBe(200);
+    expect(await rawRequest(api.port, 'GET', { Host: `127.0.0.1:${api.port}`, Authorization: authorization })).toBe(200);
+  });
+
+  test('rejects POST bodies that are not sent as JSON', async () => {
+    const api = await startServer({}, 'token-1');
+    server = api.server;
+    const headers = { Host: `127.0.0.1:${api.port}`, Authorization: 'Bearer token-1' };
+
+    expect(await rawRequest(api.port, 'POST', { ...headers, 'Content-Type': 'text/plain' }, '{}')).toBe(415);
+    expect(await rawRequest(api.port, 'POST', { ...headers, 'Content-Type': 'application/x-www-form-urlencoded' }, 'scrape=1')).toBe(415);
+    expect(await rawRequest(api.port, 'POST', headers, '{}')).toBe(415);
+    expect(await rawRequest(api.port, 'POST', { ...headers, 'Content-Type': 'application/json; charset=utf-8' }, '{}')).toBe(202);
+    expect((await (await api.call('/jobs', { token: 'token-1' })).json()).jobs).toHaveLength(1);
+  });
+});
@@ -0,0 +1,118 @@
+import { test, expect } from '@playwright/test';
+import { applyItemStatus, getItemRefund, getOrderNetTotal, MARKETPLACES, normalizeItemStatus, Order, OrderItem } from '../src/utils/scraper';
+
+/**
+ * Build an order of ₹2,497.00
+ * @param items Items of the order
+ * @returns Order placed on 28 March 2024
+ */
+function order(items: OrderItem[]): Order {
+  return {
+    orderId: '403-5555555-5555555',
+    orderDate: '28 March 2024',
+    orderDateIso: '2024-03-28',
+    price: '₹2,497.00',
+    total: { amount: 249700, currency: 'INR', raw: '₹2,497.00' },
+    items
+  };
+}
+
+test.describe('normalizeItemStatus', () => {
+  test('tells returns from refunds and deliveries', () => {
+    expect(normalizeItemStatus('Delivered 15 March')).toBe('delivered');
+    expect(normalizeItemStatus('Arriving Friday')).toBe('in-transit');
+    expect(normalizeItemStatus('Return started')).toBe('return-started');
+    expect(normalizeItemStatus('Return complete')).toBe('returned');
+    expect(normalizeItemStatus('Refunded')).toBe('refunded');
+    expect(normalizeItemStatus('Canceled')).toBe('cancelled');
+    expect(normalizeItemStatus('Payment declined')).toBe('unknown');
+  });
+
+  test('reads the status words of the marketplace', () => {
+    expect(normalizeItemStatus('Zugestellt am 3. Februar', MARKETPLACES.de)).toBe('delivered');
+    expect(normalizeItemStatus('Rücksendung gestartet', MARKETPLACES.de)).toBe('return-started');
+    expect(normalizeItemStatus('Storniert', MARKETPLACES.de)).toBe('cancelled');
+  });
+});
+
+test.describe('applyItemStatus', () => {
+  test('reads the status from the line under a headline without one', () => {
+    const item: OrderItem = {
+      productName: 'Wireless Headphones',
+      deliveryStatus: '2 April',
+      statusDetail: 'Return complete. Your refund of ₹1,299.00 has been issued.'
+    };
+    applyItemStatus(item, '2024-03-28');
+
+    expect(item).toMatchObject({
+      status: 'returned',
+      statusDate: '2024-04-02',
+      refund: { amount: 129900, currency: 'INR', raw: '₹1,299.00' }
+    });
+  });
+
+  test('leaves items without status lines alone', () => {
+    const item: OrderItem = { productName: 'Example Movie (Rental)' };
+    applyItemStatus(item, '2023-12-20');
+
+    expect(item).toEqual({ productName: 'Example Movie (Rental)' });
+  });
+});
+
+test.describe('getOrderNetTotal', () => {
+  test('takes the refunds of returned items off the total', () => {
+    const refunded = order([
+      { productName: 'Wireless Headphones', status: 'refunded', refund: { amount: 129900, currency: 'INR', raw: '₹1,299.00' } },
+      { productName: 'Phone Case', status: 'delivered' }
+    ]);
+
+    expect(getOrderNetTotal(refunded)).toEqual({ amount: 119800, currency: 'INR', raw: 'INR 1198.00' });
+  });
+
+  test('prefers the refund total of the details page', () => {
+    const refunded = order([
+      { productName: 'Wireless Headphones', status: 'refunded', refund: { amount: 129900, currency: 'INR', raw: '₹1,299.00' } }
+    ]);
+    refunded.details = {
+      subtotal: null,
+      shipping: null,
+      tax: null,
+      discounts: null,
+      promotions: [],
+      grandTotal: null,
+      refundTotal: { amount: 134900, currency: 'INR', raw: '₹1,349.00' },
+      paymentMethod: null,
+      shippingAddress: null
+    };
+
+    expect(getOrderNetTotal(refunded)?.amount).toBe(114800);
+  });
+
+  test('takes the price of returned items without a refund amount off the total', () => {
+    const returned = order([
+      { productName: 'Wireless Headphones', status: 'returned', quantity: 2, price: { amount: 49950, currency: 'INR', raw: '₹499.50' } },
+      { productName: 'Phone Case', status: 'delivered' }
+    ]);
+
+    expect(getItemRefund(returned.items[0])).toEqual({ amount: 99900, currency: 'INR', raw: 'INR 999.00' });
+    expect(getItemRefund(returned.items[1])).toBeNull();
+    expect(getOrderNetTotal(returned)?.amount).toBe(149800);
+  });
+
+  test('leaves the net total unknown when a refunded item shows neither refund nor price', () => {
+    const refunded = order([
+      { productName: 'Wireless Headphones', status: 'refunded' },
+      { productName: 'Phone Case', status: 'delivered' }
+    ]);
+
+    expect(getOrderNetTotal(refunded)).toBeNull();
+    expect(getOrderNetTotal({ ...refunded, items: [refunded.items[1], { productName: 'Cable', status: 'return-started' }] })?.amount).toBe(249700);
+  });
+
+  test('counts orders whose items were all cancelled as nothing spent', () => {
+    const cancelled = order([{ productName: 'Screen Guard', status: 'cancelled' }]);
+
+    expect(getOrderNetTotal(cancelled)?.amount).toBe(0);
+    expect(getOrderNetTotal({ ...cancelled, total: null })).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+import { test, expect } from '@playwright/test';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  finishScrapeRun,
+  loadOrderKeys,
+  loadOrders,
+  migrateDatabase,
+  openOrderDatabase,
+  Order,
+  OrderDatabase,
+  startScrapeRun,
+  upsertOrders
+} from '../src/utils/scraper';
+
+/**
+ * Build an order as a run with --details and --invoices scrapes it
+ * @returns Order with details, item prices, statuses and an invoice path
+ */
+function detailedOrder(): Order {
+  return {
+    orderId: '408-1234567-1234567',
+    orderDate: '12 March 2024',
+    orderDateIso: '2024-03-12',
+    price: '₹1,598.00',
+    total: { amount: 159800, currency: 'INR', raw: '₹1,598.00' },
+    purchaseType: 'physical',
+    detailsLink: 'https://www.amazon.in/gp/your-account/order-details?orderID=408-1234567-1234567',
+    invoicePath: 'invoices/2024-03-12_408-1234567-1234567.pdf',
+    details: {
+      subtotal: { amount: 159800, currency: 'INR', raw: '₹1,598.00' },
+      shipping: null,
+      tax: null,
+      discounts: null,
+      promotions: [],
+      grandTotal: { amount: 159800, currency: 'INR', raw: '₹1,598.00' },
+      refundTotal: null,
+      paymentMethod: { type: 'Visa', lastFour: '1234' },
+      shippingAddress: null
+    },
+    items: [
+      {
+        productName: 'USB-C Cable',
+        quantity: 1,
+        price: { amount: 29900, currency: 'INR', raw: '₹299.00' },
+        status: 'refunded',
+        statusDate: '2024-04-02',
+        refund: { amount: 29900, currency: 'INR', raw: '₹299.00' }
+      },
+      { productName: 'Phone Case', quantity: 1, price: { amount: 129900, currency: 'INR', raw: '₹1,299.00' }, status: 'delivered' }
+    ]
+  };
+}
+
+/**
+ * Strip what a run without --details or --invoices does not scrape
+ * @param order Order as scraped with details
+ * @returns Order as scraped from the order history alone
+ */
+function summaryOrder(order: Order): Order {
+  return {
+    ...order,
+    details: undefined,
+    invoicePath: undefined,
+    items: order.items.map(item => ({ ...item, price: undefined }))
+  };
+}
+
+let dir: string;
+let db: OrderDatabase;
+test.beforeEach(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-'));
+  db = await openOrderDatabase(path.join(dir, 'orders.db'));
+});
+test.afterEach(() => {
+  if (db.open) {
+    db.close();
+  }
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test.describe('migrateDatabase', () => {
+  test('brings an empty database to the latest schema version once', () => {
+    const empty = new Database(':memory:');
+    try {
+      const applied = migrateDatabase(empty);
+
+      expect(applied).toBeGreaterThan(0);
+      expect(empty.pragma('user_version', { simple: true })).toBe(applied);
+      expect(migrateDatabase(empty)).toBe(0);
+      const tables = (empty.prepare("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name").all() as Array<{ name: string }>)
+        .map(row => row.name);
+      expect(tables).toEqual(expect.arrayContaining(['items', 'orders', 'scrape_runs']));
+    } finally {
+      empty.close();
+    }
+  });
+
+  test('leaves a database opened before up to date', () => {
+    expect(migrateDatabase(db)).toBe(0);
+  });
+});
+
+test.describe('upsertOrders', () => {
+  test('counts inserted and updated orders and reads them back', () => {
+    const undated: Order = {
+      orderId: null,
+      orderDate: 'N/A',
+      orderDateIso: null,
+      price: '₹199.00',
+      total: { amount: 19900, currency: 'INR', raw: '₹199.00' },
+      items: [{ productName: 'Gift Card' }]
+    };
+    const runId = startScrapeRun(db, { fromYear: 2024, toYear: 2024 });
+
+    expect(upsertOrders(db, [undated, detailedOrder()], runId)).toEqual({ inserted: 2, updated: 0 });
+    expect(upsertOrders(db, [detailedOrder()], runId)).toEqual({ inserted: 0, updated: 1 });
+    finishScrapeRun(db, runId, { status: 'completed', ordersFound: 2, ordersNew: 2 });
+
+    expect(loadOrders(db)).toEqual([detailedOrder(), undated]);
+    expect(loadOrderKeys(db)).toEqual(expect.arrayContaining(['408-1234567-1234567', expect.stringMatching(/^hash:[0-9a-f]{16}$/)]));
+    expect(loadOrderKeys(db)).toHaveLength(2);
+    expect(db.prepare('SELECT status, orders_found, orders_new FROM scrape_runs WHERE id = ?').get(runId))
+      .toEqual({ status: 'completed', orders_found: 2, orders_new: 2 });
+  });
+
+  test('keeps details, item prices and the invoice path when a later run has none', () => {
+    upsertOrders(db, [detailedOrder()]);
+
+    const later = summaryOrder(detailedOrder());
+    later.items[1] = { ...later.items[1], status: 'returned' };
+    expect(upsertOrders(db, [later])).toEqual({ inserted: 0, updated: 1 });
+
+    const [stored] = loadOrders(db);
+    expect(stored.details).toEqual(detailedOrder().details);
+    expect(stored.invoicePath).toBe('invoices/2024-03-12_408-1234567-1234567.pdf');
+    expect(stored.items.map(item => item.price)).toEqual(detailedOrder().items.map(item => item.price));
+    // What the later run did scrape still replaces the stored values
+    expect(stored.items[1].status).toBe('returned');
+  });
+
+  test('survives closing and reopening the database', async () => {
+    upsertOrders(db, [detailedOrder()]);
+    db.close();
+
+    db = await openOrderDatabase(path.join(dir, 'orders.db'));
+    expect(loadOrders(db)).toEqual([detailedOrder()]);
+  });
+});
@@ -0,0 +1,122 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  getOrderKey,
+  jsonExporter,
+  loadSyncState,
+  mergeOrders,
+  ndjsonExporter,
+  Order,
+  readExistingOrders,
+  saveSyncState,
+  ScraperError,
+  writeFileAtomically
+} from '../src/utils/scraper';
+
+/**
+ * Build a scraped order
+ * @param orderId Order number
+ * @param orderDateIso Order date
+ * @returns Order with a single item
+ */
+function order(orderId: string | null, orderDateIso: string | null): Order {
+  return {
+    orderId,
+    orderDate: orderDateIso || 'N/A',
+    orderDateIso,
+    price: '₹1,299.00',
+    total: { amount: 129900, currency: 'INR', raw: '₹1,299.00' },
+    items: [{ productName: 'USB-C Cable' }]
+  };
+}
+
+let dir: string;
+test.beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-'));
+});
+test.afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+test.describe('readExistingOrders', () => {
+  test('reads the orders of a previous run and treats a missing file as none', () => {
+    const outputPath = path.join(dir, 'orders.ndjson');
+    expect(readExistingOrders(outputPath, ndjsonExporter)).toEqual([]);
+
+    fs.writeFileSync(outputPath, ndjsonExporter.serialize([order('408-1', '2024-03-12')]));
+    expect(readExistingOrders(outputPath, ndjsonExporter)).toEqual([order('408-1', '2024-03-12')]);
+  });
+
+  test('refuses a truncated file rather than returning no orders', () => {
+    const outputPath = path.join(dir, 'orders.json');
+    fs.writeFileSync(outputPath, jsonExporter.serialize([order('408-1', '2024-03-12')]).slice(0, 40));
+
+    expect(() => readExistingOrders(outputPath, jsonExporter)).toThrow(ScraperError);
+    expect(() => readExistingOrders(outputPath, jsonExporter)).toThrow(/Could not read existing orders from .*orders\.json/);
+  });
+});
+
+test.describe('writeFileAtomically', () => {
+  test('replaces the file and leaves no temporary file behind', () => {
+    const outputPath = path.join(dir, 'orders.json');
+    fs.writeFileSync(outputPath, 'old');
+
+    writeFileAtomically(outputPath, 'new');
+
+    expect(fs.readFileSync(outputPath, 'utf8')).toBe('new');
+    expect(fs.readdirSync(dir)).toEqual(['orders.json']);
+  });
+
+  test('keeps the previous content when the write fails', () => {
+    const outputPath = path.join(dir, 'orders.json');
+    fs.writeFileSync(outputPath, 'old');
+    // A directory in the way of the temporary file makes the write fail
+    fs.mkdirSync(`${outputPath}.${process.pid}.tmp`);
+
+    expect(() => writeFileAtomically(outputPath, 'new')).toThrow();
+    expect(fs.readFileSync(outputPath, 'utf8')).toBe('old');
+  });
+});
+
+test.describe('getOrderKey', () => {
+  test('uses the order ID, or a stable content hash for orders without one', () => {
+    expect(getOrderKey(order('408-1', '2024-03-12'))).toBe('408-1');
+
+    const key = getOrderKey(order(null, '2024-03-12'));
+    expect(key).toMatch(/^hash:[0-9a-f]{16}$/);
+    expect(getOrderKey(order(null, '2024-03-12'))).toBe(key);
+    expect(getOrderKey({ ...order(null, '2024-03-12'), price: '₹999.00' })).not.toBe(key);
+  });
+});
+
+test.describe('mergeOrders', () => {
+  test('replaces known orders, sorts newest first and keeps undated orders last', () => {
+    const updated = { ...order('408-2', '2024-02-01'), price: '₹1,499.00' };
+    const merged = mergeOrders(
+      [order('408-1', '2024-03-12'), order(null, null), order('408-2', '2024-02-01')],
+      [order('408-3', '2024-05-20'), updated]
+    );
+
+    expect(merged.map(entry => entry.orderId)).toEqual(['408-3', '408-1', '408-2', null]);
+    expect(merged[2].price).toBe('₹1,499.00');
+  });
+});
+
+test.describe('loadSyncState', () => {
+  test('round-trips the saved state and starts from scratch without one', () => {
+    const statePath = path.join(dir, 'state.json');
+    expect(loadSyncState(statePath)).toEqual({ knownOrderKeys: [], lastSyncedAt: null });
+
+    saveSyncState(statePath, { knownOrderKeys: ['408-1'], lastSyncedAt: '2024-03-12T10:00:00.000Z' });
+    expect(loadSyncState(statePath)).toEqual({ knownOrderKeys: ['408-1'], lastSyncedAt: '2024-03-12T10:00:00.000Z' });
+  });
+
+  test('recovers from a corrupt or malformed state file', () => {
+    const statePath = path.join(dir, 'state.json');
+    fs.writeFileSync(statePath, '{"knownOrderKeys": ["408-');
+    expect(loadSyncState(statePath)).toEqual({ knownOrderKeys: [], lastSyncedAt: null });
+
+    fs.writeFileSync(statePath, '{"knownOrderKeys": "408-1"}');
+    expect(loadSyncState(statePath)).toEqual({ knownOrderKeys: [], lastSyncedAt: null });
+  });
+});
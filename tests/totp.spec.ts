@@ -0,0 +1,31 @@
+import { test, expect } from '@playwright/test';
+import { decodeBase32, generateTotp, ScraperError } from '../src/utils/scraper';
+
+// RFC 6238 appendix B test secret "12345678901234567890" in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+test.describe('generateTotp', () => {
+  test('matches the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, { time: 59 * 1000, digits: 8 })).toBe('94287082');
+    expect(generateTotp(RFC_SECRET, { time: 1111111109 * 1000, digits: 8 })).toBe('07081804');
+    expect(generateTotp(RFC_SECRET, { time: 1234567890 * 1000, digits: 8 })).toBe('89005924');
+    expect(generateTotp(RFC_SECRET, { time: 2000000000 * 1000, digits: 8 })).toBe('69279037');
+  });
+
+  test('generates six-digit codes and shifts by whole time steps', () => {
+    expect(generateTotp(RFC_SECRET, { time: 59 * 1000 })).toBe('287082');
+    expect(generateTotp(RFC_SECRET, { time: 1111111109 * 1000, stepOffset: 1 }))
+      .toBe(generateTotp(RFC_SECRET, { time: (1111111109 + 30) * 1000 }));
+  });
+});
+
+test.describe('decodeBase32', () => {
+  test('ignores spacing, padding and case as shown by authenticator setup pages', () => {
+    expect(decodeBase32('gezd gnbv gy3t qojq gezd gnbv gy3t qojq==').toString()).toBe('12345678901234567890');
+  });
+
+  test('rejects secrets that are not base32', () => {
+    expect(() => decodeBase32('NOT-BASE32!')).toThrow(ScraperError);
+    expect(() => decodeBase32('  ')).toThrow(ScraperError);
+  });
+});